@@ -2,108 +2,809 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useSyncExternalStore } from 'react';
 import Header from './components/Header';
 import ReferenceImagePanel from './components/ReferenceImagePanel';
 import GenerationPanel from './components/GenerationPanel';
 import QueuePanel from './components/QueuePanel';
 import Gallery from './components/Gallery';
 import ImageDetailModal from './components/ImageDetailModal';
-import { generateImage, type AspectRatio } from './services/geminiService';
+import ImageEditor from './components/ImageEditor';
+import CharacterPanel from './components/CharacterPanel';
+import ProductSelector from './components/ProductSelector';
+import DebugModal from './components/DebugModal';
+import StyleLibraryModal from './components/StyleLibraryModal';
+import TrashModal from './components/TrashModal';
+import ProjectDialog from './components/ProjectDialog';
+import DescribeImageModal from './components/DescribeImageModal';
+import UndoToast from './components/UndoToast';
+import { generateImages, type AspectRatio } from './services/geminiService';
+import { EMPTY_PROJECT_USAGE, deleteGalleryItem, getPurgeTime, getStorageUsage, loadGallery, loadTrashRetentionDays, requestPersistentStorage, saveGalleryItem, saveTrashRetentionDays, updateGalleryItemMetadata, type StorageUsage } from './services/galleryStorage';
+import { blobToDataUrl } from './utils/imageUtils';
+import { getCurrentVersions, getLineageKey } from './utils/lineageUtils';
+import { loadQueue, syncQueue } from './services/queueStorage';
+import { loadExportOptions, saveExportOptions } from './services/galleryExport';
+import type { ProjectBundle } from './services/projectBundle';
+import { deleteProject, loadActiveProjectId, loadProjects, saveActiveProjectId, saveProject } from './services/projectStorage';
+import { DEFAULT_PROJECT_ID, DEFAULT_PROJECT_NAME, createProject, getProjectId, getProjectImageUrls, mergeProject, type ConflictPolicy } from './utils/projectUtils';
+import { deleteCharacter, loadCharacters, saveCharacter } from './services/characterStorage';
+import { deleteProduct, loadProducts, saveProduct } from './services/productStorage';
+import { deleteTemplate, loadTemplates, saveTemplate } from './services/templateStorage';
+import { deleteStylePreset, loadStylePresets, saveStylePresets } from './services/styleStorage';
+import { attachCharacters, findMentionedCharacters } from './utils/characterUtils';
+import { attachProducts } from './utils/productUtils';
+import { applyStylePreset, type PortableStylePreset } from './utils/styleUtils';
+import { DEFAULT_SCHEDULER_SETTINGS, createQueueScheduler, loadSchedulerSettings, saveSchedulerSettings, type SchedulerSettings } from './services/queueScheduler';
+import { subscribeToProvider, type DescribeResult, type ProviderId, type ReferenceImage } from './services/imageProvider';
+import { classifyError, getRetryDelay, type ServiceErrorKind } from './services/serviceErrors';
 
 export interface Job {
   id: string;
   prompt: string;
-  referenceImages: string[];
+  referenceImages: ReferenceImage[];
   aspectRatio: AspectRatio;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  /** Number of alternative images to generate (1–4). */
+  variants: number;
+  seed?: number;
+  negativePrompt?: string;
+  /** Library characters to include, chosen explicitly or mentioned in the prompt. */
+  characterIds?: string[];
+  /** Catalog products to feature. */
+  productIds?: string[];
+  /** The template the prompt was expanded from, if it came from a batch. */
+  template?: TemplateUsage;
+  /** What the user wrote, when the prompt is an enhanced rewrite of it. */
+  originalPrompt?: string;
+  /** The style preset to apply. */
+  styleId?: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'interrupted';
   error?: string;
+  errorKind?: ServiceErrorKind;
+  /** Number of attempts that have failed so far. */
+  attempts?: number;
+  /** Epoch ms before which a pending job waiting out a backoff must not start. */
+  retryAt?: number;
+  /** Epoch ms when the job was queued. */
+  createdAt?: number;
+  /** The project whose gallery receives the images. Unset on jobs queued before projects existed. */
+  projectId?: string;
 }
 
-export interface GalleryItem {
+/**
+ * Everything needed to understand, and reproduce, how an image was generated.
+ */
+export interface GenerationMetadata {
+  aspectRatio: AspectRatio;
+  referenceImages: ReferenceImage[];
+  variants: number;
+  seed?: number;
+  negativePrompt?: string;
+  /** Library characters whose shots were attached, as they were named at the time. */
+  characters?: { id: string; name: string }[];
+  /** Catalog products that were featured, as they were named at the time. */
+  products?: { id: string; name: string; sku: string }[];
+  /** The template the prompt was expanded from, if it came from a batch. */
+  template?: TemplateUsage;
+  /** What the user wrote, when the prompt is an enhanced rewrite of it. */
+  originalPrompt?: string;
+  /** The style preset that was applied, as it was named at the time. */
+  style?: { id: string; name: string };
+  provider: ProviderId;
+  model: string;
+  /** Text the model returned alongside the image, if any. */
+  modelText?: string;
+  /** The job that produced the image; its provider calls are recorded under this id. */
+  jobId?: string;
+  queuedAt?: number;
+  startedAt: number;
+  completedAt: number;
+}
+
+/** How the user has organized an image. Shared by every version in a lineage. */
+export interface GalleryOrganization {
+  /** Normalized user tags, in the order they were added. */
+  tags?: string[];
+  favorite?: boolean;
+  /** Star rating from 1 to 5; unset when unrated. */
+  rating?: number;
+}
+
+export interface GalleryItem extends GalleryOrganization {
   id:string;
   src: string;
   prompt: string;
+  /** Shared by all variants produced by the same job. */
+  groupId?: string;
+  variantIndex?: number;
+  /** Absent on images generated before metadata was recorded. Derived versions keep their original's. */
+  metadata?: GenerationMetadata;
+  /** The version this image was derived from. */
+  parentId?: string;
+  /** The original generation at the root of this image's lineage. Unset on the root itself. */
+  rootId?: string;
+  /** How this version was made from its parent. */
+  derivation?: Derivation;
+  /** Epoch ms when this version last became the one shown in the gallery. */
+  activatedAt?: number;
+  /** Epoch ms when the image was moved to the trash. Unset while it is in the gallery. */
+  deletedAt?: number;
+  /** The project the image belongs to. Unset on images saved before projects existed. */
+  projectId?: string;
+}
+
+export type DerivationOperation = 'upscale' | 'edit' | 'adjust' | 'filter' | 'crop' | 'transform' | 'inpaint';
+
+export interface Derivation {
+  operation: DerivationOperation;
+  /** The prompt or parameters used for the operation. */
+  instruction?: string;
+  provider?: ProviderId;
+  model?: string;
+  /** Groups the provider calls made for the operation in the debug inspector. */
+  traceId?: string;
+  createdAt: number;
+}
+
+/** A named character whose reference shots and description keep it consistent across generations. */
+export interface Character {
+  id: string;
+  name: string;
+  description: string;
+  /** Reference shots as data URLs or object URLs. */
+  images: string[];
+  createdAt: number;
+}
+
+/** A catalog product whose photos and notes can be featured in generated shots. */
+export interface Product {
+  id: string;
+  name: string;
+  /** Stock-keeping unit; empty if the product has none. */
+  sku: string;
+  notes: string;
+  /** Product photos as data URLs or object URLs. */
+  images: string[];
+  createdAt: number;
+}
+
+export type StyleCategory = 'style' | 'adjustment' | 'filter';
+
+/** A house style from the shared library, applied to new generations and to edits. */
+export interface StylePreset {
+  id: string;
+  name: string;
+  /** Added to generation prompts, or used as the instruction when editing. */
+  prompt: string;
+  /** Adjustment and filter presets are offered by the editor's panels; all presets are offered for generation. */
+  category: StyleCategory;
+  /** Whether the fragment goes before or after a generation prompt. */
+  placement: 'prefix' | 'suffix';
+  /** An image whose look should be matched, as a data URL or object URL. */
+  referenceImage?: string;
+  createdAt: number;
+}
+
+/** A saved prompt with {placeholders} that batches fill in, e.g. "{product} on a {surface}". */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  text: string;
+  createdAt: number;
+}
+
+/** Which template a prompt was expanded from, and the values its placeholders were filled with. */
+export interface TemplateUsage {
+  /** Unset when the template was typed in without being saved. */
+  templateId?: string;
+  name?: string;
+  text: string;
+  values: Record<string, string>;
+}
+
+/** A request to load an earlier image's settings back into the generation controls. */
+export interface RemixRequest {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  settings: GenerationSettings;
+  /** When set, the template is loaded instead of the prompt, with these values. */
+  template?: TemplateUsage;
+  /** What the user wrote, when the prompt is an enhanced rewrite of it. */
+  originalPrompt?: string;
+}
+
+/** Text to put into the prompt box from outside the generation panel. */
+export interface PromptInsertion {
+  text: string;
+  /** Whether the text replaces the prompt or is added to the end of it. */
+  mode: 'replace' | 'append';
+}
+
+/** What the describe action found in an image, cached by the hash of the image's bytes. */
+export interface ImageDescription extends DescribeResult {
+  hash: string;
+  provider: ProviderId;
+  createdAt: number;
+}
+
+export interface GenerationSettings {
+  variants: number;
+  seed?: number;
+  negativePrompt?: string;
+  styleId?: string;
+}
+
+/** The generation settings a project starts from. Seeds are left out, as they belong to one image. */
+export interface ProjectDefaults extends Omit<GenerationSettings, 'seed'> {
+  aspectRatio: AspectRatio;
+}
+
+/** A named workspace with its own gallery, queue, working references and default settings. Libraries are shared. */
+export interface Project {
+  id: string;
+  name: string;
+  /** Unset until the user saves defaults for the project. */
+  defaults?: ProjectDefaults;
+  /** The reference panel's images and the selected characters and products, kept while another project is open. */
+  referenceImages: ReferenceImage[];
+  characterIds: string[];
+  productIds: string[];
+  createdAt: number;
+  /** Set while the project's deletion can still be undone; it is purged, with its images and jobs, once it no longer can. */
+  deletedAt?: number;
 }
 
+/** Trashed images are checked for expiry at least this often, as longer timers overflow. */
+const PURGE_CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
 const App: React.FC = () => {
-  const [referenceImages, setReferenceImages] = useState<string[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState(loadActiveProjectId);
+  const [referenceImages, setReferenceImages] = useState<ReferenceImage[]>([]);
   const [queue, setQueue] = useState<Job[]>([]);
   const [gallery, setGallery] = useState<GalleryItem[]>([]);
   const [selectedImage, setSelectedImage] = useState<GalleryItem | null>(null);
-  const isProcessingRef = useRef(false);
-  
-  // Load from local storage on initial render
+  // The provider calls shown in the debug inspector, if open
+  const [debugTrace, setDebugTrace] = useState<{ traceId: string; title: string } | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editorItem, setEditorItem] = useState<GalleryItem | null>(null);
+  const [characters, setCharacters] = useState<Character[]>([]);
+  const [selectedCharacterIds, setSelectedCharacterIds] = useState<string[]>([]);
+  const charactersRef = useRef<Character[]>([]);
+  charactersRef.current = characters;
+  const [products, setProducts] = useState<Product[]>([]);
+  const [selectedProductIds, setSelectedProductIds] = useState<string[]>([]);
+  const productsRef = useRef<Product[]>([]);
+  productsRef.current = products;
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [stylePresets, setStylePresets] = useState<StylePreset[]>([]);
+  const stylePresetsRef = useRef<StylePreset[]>([]);
+  stylePresetsRef.current = stylePresets;
+  const [isStyleLibraryOpen, setIsStyleLibraryOpen] = useState(false);
+  const [remixRequest, setRemixRequest] = useState<RemixRequest | null>(null);
+  const [promptInsertion, setPromptInsertion] = useState<PromptInsertion | null>(null);
+  const [describeTarget, setDescribeTarget] = useState<{ image: string; title: string } | null>(null);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [storageNotice, setStorageNotice] = useState<string | null>(null);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(loadTrashRetentionDays);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isProjectOpen, setIsProjectOpen] = useState(false);
+  // The most recent deletion, offered for undo until the toast times out
+  const [lastDeletion, setLastDeletion] = useState<{ id: string; message: string; items: GalleryItem[]; projectId?: string } | null>(null);
+  const [purgeCheck, setPurgeCheck] = useState(0);
+  const [schedulerSettings, setSchedulerSettings] = useState<SchedulerSettings>(loadSchedulerSettings);
+  const runJobRef = useRef<(job: Job) => Promise<void>>(async () => {});
+  const [scheduler] = useState(() => createQueueScheduler<Job>({
+    settings: schedulerSettings,
+    runJob: job => runJobRef.current(job),
+    // Requests with reference images make one call per variant; text-only requests make one call for all of them
+    getRequestCount: job => {
+      const style = stylePresetsRef.current.find(preset => preset.id === job.styleId);
+      const usesReferences = job.referenceImages.length > 0 || !!job.characterIds?.length || !!job.productIds?.length || !!style?.referenceImage;
+      return usesReferences ? job.variants ?? 1 : 1;
+    },
+  }));
+  const schedulerStatus = useSyncExternalStore(scheduler.subscribe, scheduler.getStatus);
+  const abortControllersRef = useRef(new Map<string, AbortController>());
+  const [isQueueLoaded, setIsQueueLoaded] = useState(false);
+  const [isGalleryLoaded, setIsGalleryLoaded] = useState(false);
+  // Jobs look up their characters, products and style when they run, so none may start before these load
+  const [loadedLibraries, setLoadedLibraries] = useState({ characters: false, products: false, stylePresets: false });
+  const librariesLoaded = Object.values(loadedLibraries).every(Boolean);
+  const markLibraryLoaded = (library: keyof typeof loadedLibraries) => setLoadedLibraries(prev => ({ ...prev, [library]: true }));
+  const persistedQueueRef = useRef<Job[]>([]);
+
+  const refreshStorageUsage = useCallback(() => {
+    getStorageUsage()
+      .then(setStorageUsage)
+      .catch(e => console.error("Failed to estimate storage usage", e));
+  }, []);
+
+  // Shows a project's gallery and queue, and restores the references it was left with
+  const openProject = (project: Project) => {
+    setActiveProjectId(project.id);
+    saveActiveProjectId(project.id);
+    setReferenceImages(project.referenceImages);
+    setSelectedCharacterIds(project.characterIds);
+    setSelectedProductIds(project.productIds);
+    setRemixRequest(null);
+    setPromptInsertion(null);
+    setDescribeTarget(null);
+    setSelectedImage(null);
+    setLastDeletion(null);
+    setIsTrashOpen(false);
+  };
+
+  // Load the projects and reopen the one that was open last
   useEffect(() => {
-    try {
-      const savedGallery = localStorage.getItem('gemini-studio-gallery');
-      if (savedGallery) setGallery(JSON.parse(savedGallery));
-    } catch (e) {
-      console.error("Failed to load data from localStorage", e);
-    }
+    let cancelled = false;
+    loadProjects()
+      .then(saved => {
+        if (cancelled) return;
+        const loaded = saved.some(project => !project.deletedAt) ? saved : [...saved, createProject(DEFAULT_PROJECT_NAME, DEFAULT_PROJECT_ID)];
+        const live = loaded.filter(project => !project.deletedAt);
+        setProjects(loaded);
+        openProject(live.find(project => project.id === activeProjectId) ?? live[0]);
+      })
+      .catch(e => console.error("Failed to load projects from IndexedDB", e));
+    return () => {
+      cancelled = true;
+    };
   }, []);
-  
-  // Save gallery to local storage on change
+
+  // Load the gallery from IndexedDB on initial render
+  useEffect(() => {
+    let cancelled = false;
+    loadGallery()
+      .then(items => {
+        if (cancelled) {
+          items.forEach(item => URL.revokeObjectURL(item.src));
+          return;
+        }
+        setGallery(prev => [...prev, ...items]);
+      })
+      .catch(e => {
+        console.error("Failed to load gallery from IndexedDB", e);
+        setStorageNotice('Your saved gallery could not be loaded.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsGalleryLoaded(true);
+        refreshStorageUsage();
+      });
+    requestPersistentStorage();
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshStorageUsage]);
+
+  // Load the character library
+  useEffect(() => {
+    let cancelled = false;
+    loadCharacters()
+      .then(saved => {
+        if (cancelled) {
+          saved.forEach(character => character.images.forEach(src => URL.revokeObjectURL(src)));
+          return;
+        }
+        setCharacters(saved);
+      })
+      .catch(e => console.error("Failed to load characters from IndexedDB", e))
+      .finally(() => {
+        if (!cancelled) markLibraryLoaded('characters');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Load the product catalog
+  useEffect(() => {
+    let cancelled = false;
+    loadProducts()
+      .then(saved => {
+        if (cancelled) {
+          saved.forEach(product => product.images.forEach(src => URL.revokeObjectURL(src)));
+          return;
+        }
+        setProducts(saved);
+      })
+      .catch(e => console.error("Failed to load products from IndexedDB", e))
+      .finally(() => {
+        if (!cancelled) markLibraryLoaded('products');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Load saved prompt templates
+  useEffect(() => {
+    let cancelled = false;
+    loadTemplates()
+      .then(saved => {
+        if (!cancelled) setTemplates(saved);
+      })
+      .catch(e => console.error("Failed to load prompt templates from IndexedDB", e));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Load the style preset library
+  useEffect(() => {
+    let cancelled = false;
+    loadStylePresets()
+      .then(saved => {
+        if (cancelled) {
+          saved.forEach(preset => preset.referenceImage && URL.revokeObjectURL(preset.referenceImage));
+          return;
+        }
+        setStylePresets(saved);
+      })
+      .catch(e => console.error("Failed to load style presets from IndexedDB", e))
+      .finally(() => {
+        if (!cancelled) markLibraryLoaded('stylePresets');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Restore the queue left by the previous session, ahead of anything queued while it loads
+  useEffect(() => {
+    let cancelled = false;
+    loadQueue()
+      .then(savedJobs => {
+        if (cancelled) return;
+        persistedQueueRef.current = savedJobs;
+        setQueue(prev => [...savedJobs, ...prev.filter(job => !savedJobs.some(saved => saved.id === job.id))]);
+      })
+      .catch(e => console.error("Failed to load queue from IndexedDB", e))
+      .finally(() => {
+        if (!cancelled) setIsQueueLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Persist queue changes once the saved queue has been restored
   useEffect(() => {
+    if (!isQueueLoaded) return;
+    const previous = persistedQueueRef.current;
+    persistedQueueRef.current = queue;
+    syncQueue(previous, queue).catch(e => console.error("Failed to save queue to IndexedDB", e));
+  }, [queue, isQueueLoaded]);
+
+  // Writes an item to storage, reflecting any quota eviction in the visible gallery
+  const persistGalleryItem = useCallback(async (item: GalleryItem) => {
     try {
-      localStorage.setItem('gemini-studio-gallery', JSON.stringify(gallery));
+      const { evicted } = await saveGalleryItem(item);
+      if (evicted.length > 0) {
+        setGallery(prev => prev.filter(i => {
+          if (!evicted.includes(i.id)) return true;
+          if (i.src.startsWith('blob:')) URL.revokeObjectURL(i.src);
+          return false;
+        }));
+        setStorageNotice(`Storage is full. Removed the ${evicted.length} oldest image${evicted.length === 1 ? '' : 's'} to make room.`);
+      }
     } catch (e) {
-      console.error("Failed to save gallery to localStorage", e);
+      console.error("Failed to save gallery item to IndexedDB", e);
+      const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+      setStorageNotice(`An image could not be saved and will be lost on reload: ${errorMessage}`);
+    } finally {
+      refreshStorageUsage();
     }
-  }, [gallery]);
+  }, [refreshStorageUsage]);
+
+  // Explicitly selected characters plus any the prompt mentions by name
+  const resolveCharacterIds = (prompt: string, ids: string[]) => {
+    const mentioned = findMentionedCharacters(prompt, characters).map(character => character.id);
+    const resolved = [...new Set([...ids, ...mentioned])];
+    return resolved.length > 0 ? resolved : undefined;
+  };
+
+  const createJob = (prompt: string, aspectRatio: AspectRatio, settings: GenerationSettings, template?: TemplateUsage, originalPrompt?: string): Job => ({
+    id: crypto.randomUUID(),
+    prompt,
+    referenceImages: referenceImages,
+    aspectRatio,
+    ...settings,
+    characterIds: resolveCharacterIds(prompt, selectedCharacterIds),
+    productIds: selectedProductIds.length > 0 ? selectedProductIds : undefined,
+    template,
+    originalPrompt,
+    status: 'pending',
+    createdAt: Date.now(),
+    projectId: activeProjectId,
+  });
+
+  const handleAddToQueue = async (prompt: string, aspectRatio: AspectRatio, settings: GenerationSettings, originalPrompt?: string) => {
+    const newJob = createJob(prompt, aspectRatio, settings, undefined, originalPrompt);
+    setQueue(prev => [...prev, newJob]);
+    setReferenceImages([]); // Clear references after adding to queue
+  };
+
+  // Queues one job per expanded template prompt, all sharing the current references and settings
+  const handleAddBatchToQueue = async (prompts: { prompt: string; template: TemplateUsage; originalPrompt?: string }[], aspectRatio: AspectRatio, settings: GenerationSettings) => {
+    const newJobs = prompts.map(({ prompt, template, originalPrompt }) => createJob(prompt, aspectRatio, settings, template, originalPrompt));
+    setQueue(prev => [...prev, ...newJobs]);
+    setReferenceImages([]);
+  };
   
+  const handleResumeJobs = (jobIds: string[]) => {
+    setQueue(prev => prev.map(j => jobIds.includes(j.id) && j.status === 'interrupted' ? { ...j, status: 'pending' } : j));
+  };
 
-  const handleAddToQueue = async (prompt: string, aspectRatio: AspectRatio) => {
-    const newJob: Job = {
+  const handleRetryJob = (jobId: string) => {
+    setQueue(prev => prev.map(j => j.id === jobId
+      ? { ...j, status: 'pending', error: undefined, errorKind: undefined, attempts: 0, retryAt: undefined }
+      : j
+    ));
+  };
+
+  // Replaces a failed job with a fresh one at the back of the queue, using the edited prompt
+  const handleRequeueJob = (jobId: string, prompt: string) => {
+    setQueue(prev => {
+      const job = prev.find(j => j.id === jobId);
+      if (!job) return prev;
+      const requeued: Job = {
         id: crypto.randomUUID(),
         prompt,
-        referenceImages: referenceImages,
-        aspectRatio,
+        referenceImages: job.referenceImages,
+        aspectRatio: job.aspectRatio,
+        variants: job.variants,
+        seed: job.seed,
+        negativePrompt: job.negativePrompt,
+        characterIds: resolveCharacterIds(prompt, job.characterIds ?? []),
+        productIds: job.productIds,
+        // An edited prompt no longer matches the template's values
+        template: prompt === job.prompt ? job.template : undefined,
+        originalPrompt: job.originalPrompt,
+        styleId: job.styleId,
         status: 'pending',
-    };
-    
-    setQueue(prev => [...prev, newJob]);
-    setReferenceImages([]); // Clear references after adding to queue
+        createdAt: Date.now(),
+        projectId: job.projectId,
+      };
+      return [...prev.filter(j => j.id !== jobId), requeued];
+    });
   };
-  
-  const processQueue = useCallback(async () => {
-    if (isProcessingRef.current || queue.length === 0) {
-      return;
-    }
 
-    const job = queue.find(j => j.status === 'pending');
-    if (!job) {
-      return; // No pending jobs
-    }
+  // Removes a job from the queue, aborting its request if it is in flight
+  const handleCancelJob = (jobId: string) => {
+    abortControllersRef.current.get(jobId)?.abort();
+    setQueue(prev => prev.filter(j => j.id !== jobId));
+  };
+
+  const handleClearFailedJobs = () => {
+    setQueue(prev => prev.filter(j => j.status !== 'failed' || getProjectId(j) !== activeProjectId));
+  };
 
-    isProcessingRef.current = true;
+  // The index is among the job's own project's jobs; other projects' jobs keep their places
+  const handleReorderJob = (jobId: string, toIndex: number) => {
+    setQueue(prev => {
+      const job = prev.find(j => j.id === jobId);
+      if (!job) return prev;
+      const rest = prev.filter(j => j.id !== jobId);
+      const siblings = rest.filter(j => getProjectId(j) === getProjectId(job));
+      if (siblings.length === 0) return prev;
+      const at = toIndex < siblings.length ? rest.indexOf(siblings[toIndex]) : rest.indexOf(siblings[siblings.length - 1]) + 1;
+      return [...rest.slice(0, at), job, ...rest.slice(at)];
+    });
+  };
+
+  const handleTogglePause = () => {
+    scheduler.setPaused(!schedulerStatus.paused);
+  };
+
+  const runJob = useCallback(async (job: Job) => {
+    const controller = new AbortController();
+    abortControllersRef.current.set(job.id, controller);
     setQueue(prev => prev.map(j => j.id === job.id ? { ...j, status: 'processing' } : j));
 
+    const startedAt = Date.now();
     try {
-      const imageUrl = await generateImage(job.prompt, job.aspectRatio, job.referenceImages);
-      const newGalleryItem: GalleryItem = {
+      const jobCharacters = (job.characterIds ?? [])
+        .map(id => charactersRef.current.find(character => character.id === id))
+        .filter((character): character is Character => character !== undefined);
+      if (jobCharacters.length < (job.characterIds?.length ?? 0)) {
+        console.warn(`Some characters for job ${job.id} were deleted from the library and are skipped.`);
+      }
+      const jobProducts = (job.productIds ?? [])
+        .map(id => productsRef.current.find(product => product.id === id))
+        .filter((product): product is Product => product !== undefined);
+      if (jobProducts.length < (job.productIds?.length ?? 0)) {
+        console.warn(`Some products for job ${job.id} were deleted from the catalog and are skipped.`);
+      }
+      const jobStyle = job.styleId ? stylePresetsRef.current.find(preset => preset.id === job.styleId) : undefined;
+      if (job.styleId && !jobStyle) {
+        console.warn(`The style preset for job ${job.id} was deleted from the library and is skipped.`);
+      }
+      const styled = jobStyle ? applyStylePreset(job.prompt, job.referenceImages, jobStyle) : { prompt: job.prompt, referenceImages: job.referenceImages };
+      const withProducts = attachProducts(styled.prompt, styled.referenceImages, jobProducts);
+      const request = attachCharacters(withProducts.prompt, withProducts.referenceImages, jobCharacters);
+      const result = await generateImages({
+        prompt: request.prompt,
+        aspectRatio: job.aspectRatio,
+        referenceImages: request.referenceImages,
+        variants: job.variants ?? 1,
+        seed: job.seed,
+        negativePrompt: job.negativePrompt,
+        signal: controller.signal,
+        traceId: job.id,
+      });
+      // The job may have been cancelled after the provider already finished
+      if (controller.signal.aborted) return;
+      const metadata: GenerationMetadata = {
+        aspectRatio: job.aspectRatio,
+        referenceImages: job.referenceImages,
+        variants: job.variants ?? 1,
+        seed: job.seed,
+        negativePrompt: job.negativePrompt,
+        characters: jobCharacters.length > 0 ? jobCharacters.map(({ id, name }) => ({ id, name })) : undefined,
+        products: jobProducts.length > 0 ? jobProducts.map(({ id, name, sku }) => ({ id, name, sku })) : undefined,
+        template: job.template,
+        originalPrompt: job.originalPrompt,
+        style: jobStyle ? { id: jobStyle.id, name: jobStyle.name } : undefined,
+        provider: result.provider,
+        model: result.model,
+        modelText: result.text,
+        jobId: job.id,
+        queuedAt: job.createdAt,
+        startedAt,
+        completedAt: Date.now(),
+      };
+      const isGroup = result.images.length > 1;
+      const newGalleryItems: GalleryItem[] = result.images.map((src, variantIndex) => ({
         id: crypto.randomUUID(),
-        src: imageUrl,
+        src,
         prompt: job.prompt,
-      };
-      setGallery(prev => [newGalleryItem, ...prev]);
+        groupId: isGroup ? job.id : undefined,
+        variantIndex: isGroup ? variantIndex : undefined,
+        metadata,
+        projectId: job.projectId,
+      }));
+      setGallery(prev => [...newGalleryItems, ...prev]);
       setQueue(prev => prev.filter(j => j.id !== job.id));
+      newGalleryItems.forEach(persistGalleryItem);
     } catch (error) {
+      if (controller.signal.aborted) {
+        console.log('Generation cancelled for job:', job.id);
+        return;
+      }
       console.error('Generation failed for job:', job.id, error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      setQueue(prev => prev.map(j => j.id === job.id ? { ...j, status: 'failed', error: errorMessage } : j));
+      const serviceError = classifyError(error, 'Unknown error');
+      const attempts = (job.attempts ?? 0) + 1;
+      const failure = { error: serviceError.message, errorKind: serviceError.kind, attempts };
+      if (serviceError.isTransient && attempts < schedulerSettings.maxAttempts) {
+        const retryAt = Date.now() + getRetryDelay(attempts, serviceError);
+        setQueue(prev => prev.map(j => j.id === job.id ? { ...j, ...failure, status: 'pending', retryAt } : j));
+      } else {
+        setQueue(prev => prev.map(j => j.id === job.id ? { ...j, ...failure, status: 'failed', retryAt: undefined } : j));
+      }
     } finally {
-      isProcessingRef.current = false;
+      abortControllersRef.current.delete(job.id);
+    }
+  }, [persistGalleryItem, schedulerSettings.maxAttempts]);
+  runJobRef.current = runJob;
+
+  // Hand pending jobs to the scheduler whenever the queue changes; it starts whatever its limits allow
+  useEffect(() => {
+    if (!isQueueLoaded || !librariesLoaded) return;
+    // A deleted project's jobs wait, in case the deletion is undone
+    const deletedIds = new Set(projects.filter(project => project.deletedAt).map(project => project.id));
+    scheduler.setCandidates(queue.filter(j => j.status === 'pending' && !deletedIds.has(getProjectId(j))));
+  }, [queue, projects, isQueueLoaded, librariesLoaded, scheduler]);
+
+  useEffect(() => {
+    scheduler.updateSettings(schedulerSettings);
+    saveSchedulerSettings(schedulerSettings);
+  }, [schedulerSettings, scheduler]);
+
+  // Limits are per provider, so re-check them when the user switches
+  useEffect(() => subscribeToProvider(() => scheduler.wake()), [scheduler]);
+
+  useEffect(() => () => scheduler.dispose(), [scheduler]);
+
+  // Purge trashed images once they have been kept for the retention period, checking again when the next one is due
+  useEffect(() => {
+    const trashed = gallery.filter(item => item.deletedAt);
+    const now = Date.now();
+    const expired = trashed.filter(item => getPurgeTime(item, trashRetentionDays) <= now);
+    if (expired.length > 0) {
+      purgeItems(expired);
+      return;
     }
-  }, [queue]);
+    if (trashed.length === 0) return;
+    const nextPurge = Math.min(...trashed.map(item => getPurgeTime(item, trashRetentionDays)));
+    const timer = setTimeout(() => setPurgeCheck(check => check + 1), Math.min(nextPurge - now, PURGE_CHECK_INTERVAL_MS));
+    return () => clearTimeout(timer);
+  }, [gallery, trashRetentionDays, purgeCheck]);
+
+  // Every project's images and jobs stay loaded, so jobs finish into their own project's gallery
+  // Deleted projects stay in state, hidden, until their deletion can no longer be undone
+  const liveProjects = projects.filter(project => !project.deletedAt);
+  const activeProject = liveProjects.find(project => project.id === activeProjectId);
+  const projectGallery = gallery.filter(item => getProjectId(item) === activeProjectId);
+  const projectQueue = queue.filter(job => getProjectId(job) === activeProjectId);
+  // Trashed images stay in the gallery state, hidden, so restoring them keeps their place
+  const liveGallery = projectGallery.filter(item => !item.deletedAt);
+  const trash = projectGallery.filter(item => item.deletedAt);
+  const projectStats = Object.fromEntries(liveProjects.map(project => [project.id, {
+    imageCount: getCurrentVersions(gallery.filter(item => !item.deletedAt && getProjectId(item) === project.id)).length,
+    bytes: storageUsage ? (storageUsage.projects[project.id] ?? EMPTY_PROJECT_USAGE).galleryBytes : undefined,
+  }]));
+  // Images already in another project are imported into this one as copies
+  const otherProjectImageIds = new Set<string>(gallery.filter(item => getProjectId(item) !== activeProjectId).map(item => item.id));
+  const projectUsage = storageUsage ? storageUsage.projects[activeProjectId] ?? EMPTY_PROJECT_USAGE : null;
 
+  const handleSaveProject = (project: Project) => {
+    setProjects(prev => prev.some(p => p.id === project.id)
+      ? prev.map(p => p.id === project.id ? project : p)
+      : [...prev, project]);
+    saveProject(project).catch(e => console.error("Failed to save project to IndexedDB", e));
+  };
+
+  // Keep the open project's working references with it, so switching back restores them
   useEffect(() => {
-    const processingInterval = setInterval(() => {
-      processQueue();
-    }, 1000); // Check queue every second
+    if (!activeProject) return;
+    if (activeProject.referenceImages === referenceImages && activeProject.characterIds === selectedCharacterIds && activeProject.productIds === selectedProductIds) return;
+    handleSaveProject({ ...activeProject, referenceImages, characterIds: selectedCharacterIds, productIds: selectedProductIds });
+  }, [referenceImages, selectedCharacterIds, selectedProductIds]);
+
+  const handleSwitchProject = (id: string) => {
+    const project = liveProjects.find(p => p.id === id);
+    if (project && id !== activeProjectId) openProject(project);
+  };
+
+  const handleCreateProject = (name: string) => {
+    const project = createProject(name);
+    handleSaveProject(project);
+    openProject(project);
+  };
+
+  const handleRenameProject = (id: string, name: string) => {
+    const project = projects.find(p => p.id === id);
+    if (project && project.name !== name) handleSaveProject({ ...project, name });
+  };
+
+  const handleSaveProjectDefaults = (defaults: ProjectDefaults) => {
+    if (activeProject) handleSaveProject({ ...activeProject, defaults });
+  };
+
+  // Hides a project until the undo toast is gone, then purges it. The last project can't be deleted.
+  const handleDeleteProject = (id: string) => {
+    const project = liveProjects.find(p => p.id === id);
+    const remaining = liveProjects.filter(p => p.id !== id);
+    if (!project || remaining.length === 0) return;
+    const imageCount = getCurrentVersions(gallery.filter(item => !item.deletedAt && getProjectId(item) === id)).length;
+    const contents = imageCount > 0 ? ` and its ${imageCount} image${imageCount === 1 ? '' : 's'}` : '';
+    if (!window.confirm(`Delete the project "${project.name}"${contents}?`)) return;
+    handleSaveProject({ ...project, deletedAt: Date.now() });
+    if (id === activeProjectId) openProject(remaining[0]);
+    setLastDeletion({
+      id: crypto.randomUUID(),
+      message: `Deleted the project "${project.name}".`,
+      items: [],
+      projectId: id,
+    });
+  };
 
-    return () => clearInterval(processingInterval);
-  }, [processQueue]);
+  // Deletes a project with its images and jobs, including those in the trash
+  const purgeProject = (project: Project) => {
+    queue.filter(job => getProjectId(job) === project.id).forEach(job => abortControllersRef.current.get(job.id)?.abort());
+    setQueue(prev => prev.filter(job => getProjectId(job) !== project.id));
+    purgeItems(gallery.filter(item => getProjectId(item) === project.id));
+    setProjects(prev => prev.filter(p => p.id !== project.id));
+    deleteProject(project.id).catch(e => console.error("Failed to delete project from IndexedDB", e));
+  };
+
+  // A deleted project is purged once its deletion is no longer offered for undo, including any left from an earlier session
+  useEffect(() => {
+    if (!isGalleryLoaded || !isQueueLoaded) return;
+    projects
+      .filter(project => project.deletedAt && project.id !== lastDeletion?.projectId)
+      .forEach(purgeProject);
+  }, [projects, lastDeletion, isGalleryLoaded, isQueueLoaded]);
 
   const handleSelectImage = (item: GalleryItem) => {
     setSelectedImage(item);
@@ -112,47 +813,478 @@ const App: React.FC = () => {
   const handleCloseModal = () => {
     setSelectedImage(null);
   }
+
+  const handleInspectJob = (jobId: string) => {
+    const job = queue.find(j => j.id === jobId);
+    setDebugTrace({ traceId: jobId, title: job?.prompt ?? 'Job' });
+  };
+
+  const handleInspectImageCalls = (traceId: string) => {
+    setDebugTrace({ traceId, title: selectedImage?.prompt ?? 'Image' });
+  };
+
+  // Loads an image's exact generation settings back into the left-hand panels
+  const handleRemixImage = (item: GalleryItem) => {
+    const { metadata } = item;
+    setReferenceImages(metadata?.referenceImages ?? []);
+    setSelectedCharacterIds((metadata?.characters ?? [])
+      .map(character => character.id)
+      .filter(id => characters.some(character => character.id === id)));
+    setSelectedProductIds((metadata?.products ?? [])
+      .map(product => product.id)
+      .filter(id => products.some(product => product.id === id)));
+    setRemixRequest({
+      prompt: item.prompt,
+      aspectRatio: metadata?.aspectRatio ?? '1:1',
+      settings: {
+        variants: metadata?.variants ?? 1,
+        seed: metadata?.seed,
+        negativePrompt: metadata?.negativePrompt,
+        styleId: stylePresets.some(preset => preset.id === metadata?.style?.id) ? metadata?.style?.id : undefined,
+      },
+      template: metadata?.template,
+      originalPrompt: metadata?.originalPrompt,
+    });
+    setSelectedImage(null);
+  };
+
+  // Opens the describe dialog, closing the detail view as a remix does
+  const handleDescribeImage = (item: GalleryItem) => {
+    setDescribeTarget({ image: item.src, title: item.prompt });
+    setSelectedImage(null);
+  };
   
-  const handleUpscaleImage = (itemId: string, newSrc: string) => {
-    // Update the gallery with the new upscaled image source
-    setGallery(prevGallery => 
-      prevGallery.map(item => 
-        item.id === itemId ? { ...item, src: newSrc } : item
-      )
-    );
-    // Update the selected image in the modal as well
-    setSelectedImage(prevSelected => 
-        prevSelected && prevSelected.id === itemId 
-        ? { ...prevSelected, src: newSrc } 
-        : prevSelected
-    );
+  const handleSaveCharacter = (character: Character) => {
+    setCharacters(prev => prev.some(c => c.id === character.id)
+      ? prev.map(c => c.id === character.id ? character : c)
+      : [...prev, character]);
+    saveCharacter(character).catch(e => console.error("Failed to save character to IndexedDB", e));
+  };
+
+  const handleDeleteCharacter = (id: string) => {
+    const character = characters.find(c => c.id === id);
+    if (!character || !window.confirm(`Delete ${character.name} from the character library?`)) return;
+    setCharacters(prev => prev.filter(c => c.id !== id));
+    setSelectedCharacterIds(prev => prev.filter(selected => selected !== id));
+    character.images.filter(src => src.startsWith('blob:')).forEach(src => URL.revokeObjectURL(src));
+    deleteCharacter(id).catch(e => console.error("Failed to delete character from IndexedDB", e));
+  };
+
+  const handleSaveProduct = (product: Product) => {
+    setProducts(prev => (prev.some(p => p.id === product.id)
+      ? prev.map(p => p.id === product.id ? product : p)
+      : [...prev, product]
+    ).sort((a, b) => a.name.localeCompare(b.name)));
+    saveProduct(product).catch(e => console.error("Failed to save product to IndexedDB", e));
+  };
+
+  const handleDeleteProduct = (id: string) => {
+    const product = products.find(p => p.id === id);
+    if (!product || !window.confirm(`Delete ${product.name} from the product catalog?`)) return;
+    setProducts(prev => prev.filter(p => p.id !== id));
+    setSelectedProductIds(prev => prev.filter(selected => selected !== id));
+    product.images.filter(src => src.startsWith('blob:')).forEach(src => URL.revokeObjectURL(src));
+    deleteProduct(id).catch(e => console.error("Failed to delete product from IndexedDB", e));
+  };
+
+  const handleSaveTemplate = (template: PromptTemplate) => {
+    setTemplates(prev => (prev.some(t => t.id === template.id)
+      ? prev.map(t => t.id === template.id ? template : t)
+      : [...prev, template]
+    ).sort((a, b) => a.name.localeCompare(b.name)));
+    saveTemplate(template).catch(e => console.error("Failed to save prompt template to IndexedDB", e));
+  };
+
+  const handleDeleteTemplate = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    if (!template || !window.confirm(`Delete the template "${template.name}"?`)) return;
+    setTemplates(prev => prev.filter(t => t.id !== id));
+    deleteTemplate(id).catch(e => console.error("Failed to delete prompt template from IndexedDB", e));
+  };
+
+  const handleSaveStylePreset = (preset: StylePreset) => {
+    setStylePresets(prev => (prev.some(p => p.id === preset.id)
+      ? prev.map(p => p.id === preset.id ? preset : p)
+      : [...prev, preset]
+    ).sort((a, b) => a.name.localeCompare(b.name)));
+    saveStylePresets([preset]).catch(e => console.error("Failed to save style preset to IndexedDB", e));
+  };
+
+  // Adds shared presets to the library; one with the same name and category as an existing preset replaces it
+  const handleImportStylePresets = (imported: PortableStylePreset[]) => {
+    const key = (preset: PortableStylePreset) => `${preset.category}:${preset.name.toLowerCase()}`;
+    const saved = imported.map((preset): StylePreset => {
+      const existing = stylePresets.find(p => key(p) === key(preset));
+      return { ...preset, id: existing?.id ?? crypto.randomUUID(), createdAt: existing?.createdAt ?? Date.now() };
+    });
+    const savedIds = new Set(saved.map(preset => preset.id));
+    setStylePresets(prev => [...prev.filter(p => !savedIds.has(p.id)), ...saved].sort((a, b) => a.name.localeCompare(b.name)));
+    saveStylePresets(saved).catch(e => console.error("Failed to save imported style presets to IndexedDB", e));
+  };
+
+  const handleDeleteStylePreset = (id: string) => {
+    const preset = stylePresets.find(p => p.id === id);
+    if (!preset || !window.confirm(`Delete the style preset "${preset.name}"?`)) return;
+    setStylePresets(prev => prev.filter(p => p.id !== id));
+    if (preset.referenceImage?.startsWith('blob:')) URL.revokeObjectURL(preset.referenceImage);
+    deleteStylePreset(id).catch(e => console.error("Failed to delete style preset from IndexedDB", e));
+  };
+
+  // Saves what an imported project adds or changes, and releases the images it brings that aren't kept
+  const handleImportProject = (bundle: ProjectBundle, policy: ConflictPolicy, applySettings: boolean) => {
+    const { changes, summary } = mergeProject({ gallery: projectGallery, characters, products, templates, stylePresets }, bundle.contents, policy, otherProjectImageIds);
+
+    const existingIds = new Set(projectGallery.map(item => item.id));
+    const added = changes.gallery.filter(item => !existingIds.has(item.id)).map(item => ({ ...item, projectId: activeProjectId }));
+    const updated = new Map(changes.gallery.filter(item => existingIds.has(item.id)).map(item => [item.id, item]));
+    setGallery(prev => [...added, ...prev.map(item => updated.get(item.id) ?? item)]);
+    updated.forEach(item => updateGalleryItemMetadata(item).catch(e => console.error("Failed to save imported gallery item changes", e)));
+    // One at a time, so quota eviction sees each write
+    (async () => {
+      for (const item of added) await persistGalleryItem(item);
+    })();
+
+    const replaced = [
+      ...characters.filter(character => changes.characters.some(c => c.id === character.id)).flatMap(character => character.images),
+      ...products.filter(product => changes.products.some(p => p.id === product.id)).flatMap(product => product.images),
+      ...stylePresets.filter(preset => changes.stylePresets.some(p => p.id === preset.id)).flatMap(preset => preset.referenceImage ? [preset.referenceImage] : []),
+    ];
+    changes.characters.forEach(handleSaveCharacter);
+    changes.products.forEach(handleSaveProduct);
+    changes.templates.forEach(handleSaveTemplate);
+    changes.stylePresets.forEach(handleSaveStylePreset);
+
+    const kept = new Set(getProjectImageUrls(changes));
+    [...replaced, ...getProjectImageUrls(bundle.contents)]
+      .filter(src => src.startsWith('blob:') && !kept.has(src))
+      .forEach(src => URL.revokeObjectURL(src));
+
+    if (applySettings) {
+      const { scheduler, export: exportOptions, trashRetentionDays, defaults } = bundle.settings;
+      if (scheduler) {
+        setSchedulerSettings({
+          ...DEFAULT_SCHEDULER_SETTINGS,
+          ...scheduler,
+          providers: { ...DEFAULT_SCHEDULER_SETTINGS.providers, ...scheduler.providers },
+        });
+      }
+      if (exportOptions) saveExportOptions(exportOptions);
+      if (trashRetentionDays) handleTrashRetentionChange(trashRetentionDays);
+      if (defaults) handleSaveProjectDefaults(defaults);
+    }
+    return summary;
+  };
+
+  // Adds a derived image as a new version of its parent and makes it the one shown in the gallery
+  const handleCreateVersion = (parent: GalleryItem, src: string, derivation: Omit<Derivation, 'createdAt'>) => {
+    const createdAt = Date.now();
+    const version: GalleryItem = {
+      id: crypto.randomUUID(),
+      src,
+      prompt: parent.prompt,
+      groupId: parent.groupId,
+      variantIndex: parent.variantIndex,
+      metadata: parent.metadata,
+      parentId: parent.id,
+      rootId: getLineageKey(parent),
+      derivation: { ...derivation, createdAt },
+      activatedAt: createdAt,
+      tags: parent.tags,
+      favorite: parent.favorite,
+      rating: parent.rating,
+      projectId: parent.projectId,
+    };
+    setGallery(prev => [version, ...prev]);
+    setSelectedImage(prev => prev?.id === parent.id ? version : prev);
+    persistGalleryItem(version);
+    return version;
+  };
+
+  // Makes an earlier version current again; later versions are kept in its history
+  const handleRevertToVersion = (item: GalleryItem) => {
+    const reverted: GalleryItem = { ...item, activatedAt: Date.now() };
+    setGallery(prev => prev.map(i => i.id === item.id ? reverted : i));
+    setSelectedImage(prev => prev ? reverted : prev);
+    updateGalleryItemMetadata(reverted).catch(e => console.error("Failed to save reverted version", e));
+    return reverted;
+  };
+
+  // Applies a change to every version in each item's lineage and saves the result
+  const updateLineages = (items: GalleryItem[], change: (item: GalleryItem) => GalleryItem) => {
+    const keys = new Set(items.map(getLineageKey));
+    const updated = gallery.filter(item => keys.has(getLineageKey(item))).map(change);
+    const byId = new Map(updated.map(item => [item.id, item]));
+    setGallery(prev => prev.map(item => byId.get(item.id) ?? item));
+    setSelectedImage(prev => prev ? byId.get(prev.id) ?? prev : prev);
+    return Promise.all(updated.map(item => updateGalleryItemMetadata(item)))
+      .catch(e => console.error("Failed to save gallery item changes", e));
+  };
+
+  // Tags, favorites and ratings belong to the whole lineage, so every version of each item is updated
+  const handleOrganizeItems = (items: GalleryItem[], update: (organization: GalleryOrganization) => GalleryOrganization) => {
+    updateLineages(items, item => ({ ...item, ...update({ tags: item.tags, favorite: item.favorite, rating: item.rating }) }));
+  };
+
+  // Moves every version of each item to the trash, where it can be restored until it is purged
+  const handleDeleteItems = (items: GalleryItem[]) => {
+    if (items.length === 0) return;
+    const deletedAt = Date.now();
+    updateLineages(items, item => ({ ...item, deletedAt })).finally(refreshStorageUsage);
+    setSelectedImage(prev => prev?.deletedAt ? null : prev);
+    setLastDeletion({
+      id: crypto.randomUUID(),
+      message: `Moved ${items.length} image${items.length === 1 ? '' : 's'} to the trash.`,
+      items,
+    });
+  };
+
+  const handleRestoreItems = (items: GalleryItem[]) => {
+    updateLineages(items, item => ({ ...item, deletedAt: undefined })).finally(refreshStorageUsage);
+  };
+
+  const handleUndoDeletion = () => {
+    if (!lastDeletion) return;
+    const project = projects.find(p => p.id === lastDeletion.projectId);
+    if (project) {
+      handleSaveProject({ ...project, deletedAt: undefined });
+    } else {
+      handleRestoreItems(lastDeletion.items);
+    }
+    setLastDeletion(null);
+  };
+
+  const dismissLastDeletion = useCallback(() => setLastDeletion(null), []);
+
+  // Deletes items and their image bytes for good
+  const purgeItems = (items: GalleryItem[]) => {
+    const purgedIds = new Set(items.map(item => item.id));
+    setGallery(prev => prev.filter(item => !purgedIds.has(item.id)));
+    Promise.all(items.map(item => deleteGalleryItem(item.id)))
+      .catch(e => console.error("Failed to delete gallery items from IndexedDB", e))
+      .finally(refreshStorageUsage);
+    items.forEach(item => {
+      if (item.src.startsWith('blob:')) URL.revokeObjectURL(item.src);
+    });
+  };
+
+  const handlePurgeItems = (items: GalleryItem[]) => {
+    const keys = new Set(items.map(getLineageKey));
+    const purged = gallery.filter(item => item.deletedAt && keys.has(getLineageKey(item)));
+    if (purged.length === 0) return;
+    if (!window.confirm(`Permanently delete ${items.length} image${items.length === 1 ? '' : 's'}? This cannot be undone.`)) return;
+    purgeItems(purged);
+  };
+
+  const handleTrashRetentionChange = (days: number) => {
+    const now = Date.now();
+    const expiring = getCurrentVersions(gallery.filter(item => item.deletedAt && getPurgeTime(item, days) <= now));
+    if (expiring.length > 0 && !window.confirm(`${expiring.length} image${expiring.length === 1 ? ' has' : 's have'} been in the trash longer than that and will be deleted permanently. Continue?`)) {
+      return;
+    }
+    setTrashRetentionDays(days);
+    saveTrashRetentionDays(days);
+  };
+
+  const handleOpenEditor = (item: GalleryItem | null) => {
+    setSelectedImage(null);
+    setEditorItem(item);
+    setIsEditorOpen(true);
+  };
+
+  const handleCloseEditor = () => {
+    setIsEditorOpen(false);
+    setEditorItem(null);
+  };
+
+  // Adds an uploaded photo to the gallery as a new original and starts editing it
+  const handleEditorUpload = async (file: File) => {
+    try {
+      const item: GalleryItem = {
+        id: crypto.randomUUID(),
+        src: await blobToDataUrl(file),
+        prompt: file.name,
+        projectId: activeProjectId,
+      };
+      setGallery(prev => [item, ...prev]);
+      persistGalleryItem(item);
+      setEditorItem(item);
+    } catch (e) {
+      console.error("Failed to read uploaded image", e);
+    }
   };
 
   return (
     <div className="flex flex-col h-screen bg-gray-900 text-gray-200 overflow-hidden">
-      <Header queueSize={queue.length} isProcessing={isProcessingRef.current || queue.some(j => j.status === 'processing')} />
-      <main className="flex-grow flex flex-col md:flex-row gap-4 p-4 overflow-hidden">
-        {/* === Left Control Column === */}
-        <aside className="w-full md:w-full md:max-w-md lg:max-w-lg flex flex-col gap-4 overflow-y-auto pr-2">
-          <ReferenceImagePanel 
-            images={referenceImages}
-            onImagesChange={setReferenceImages}
-          />
-          <GenerationPanel
-            onAddToQueue={handleAddToQueue}
-            isQueueProcessing={isProcessingRef.current}
-            hasReferenceImages={referenceImages.length > 0}
-          />
-        </aside>
-
-        {/* === Right Content Column === */}
-        <section className="w-full flex-grow flex flex-col gap-4 overflow-hidden">
-           <QueuePanel queue={queue} />
-           <Gallery gallery={gallery} onImageSelect={handleSelectImage} />
-        </section>
-      </main>
+      <Header
+        queueSize={queue.length}
+        schedulerStatus={schedulerStatus}
+        isEditorOpen={isEditorOpen}
+        onOpenEditor={() => handleOpenEditor(null)}
+        projects={liveProjects}
+        activeProjectId={activeProjectId}
+        projectStats={projectStats}
+        onSwitchProject={handleSwitchProject}
+        onCreateProject={handleCreateProject}
+        onRenameProject={handleRenameProject}
+        onDeleteProject={handleDeleteProject}
+        onOpenProject={() => setIsProjectOpen(true)}
+      />
+      {isEditorOpen ? (
+        <ImageEditor
+          item={editorItem}
+          parent={gallery.find(item => item.id === editorItem?.parentId) ?? null}
+          onUpload={handleEditorUpload}
+          onCreateVersion={(parent, src, derivation) => setEditorItem(handleCreateVersion(parent, src, derivation))}
+          onUndo={parent => setEditorItem(handleRevertToVersion(parent))}
+          onClose={handleCloseEditor}
+          stylePresets={stylePresets}
+          onManageStyles={() => setIsStyleLibraryOpen(true)}
+        />
+      ) : (
+        <main className="flex-grow flex flex-col md:flex-row gap-4 p-4 overflow-hidden">
+          {/* === Left Control Column === */}
+          <aside className="w-full md:w-full md:max-w-md lg:max-w-lg flex flex-col gap-4 overflow-y-auto pr-2">
+            <ReferenceImagePanel 
+              images={referenceImages}
+              onImagesChange={setReferenceImages}
+              onDescribe={index => setDescribeTarget({ image: referenceImages[index].src, title: `Reference ${index + 1}` })}
+            />
+            <CharacterPanel
+              characters={characters}
+              selectedIds={selectedCharacterIds}
+              onSelectedIdsChange={setSelectedCharacterIds}
+              onSaveCharacter={handleSaveCharacter}
+              onDeleteCharacter={handleDeleteCharacter}
+            />
+            <ProductSelector
+              products={products}
+              selectedIds={selectedProductIds}
+              onSelectedIdsChange={setSelectedProductIds}
+              onSaveProduct={handleSaveProduct}
+              onDeleteProduct={handleDeleteProduct}
+            />
+            <GenerationPanel
+              key={activeProjectId}
+              onAddToQueue={handleAddToQueue}
+              onAddBatchToQueue={handleAddBatchToQueue}
+              templates={templates}
+              onSaveTemplate={handleSaveTemplate}
+              onDeleteTemplate={handleDeleteTemplate}
+              stylePresets={stylePresets}
+              onManageStyles={() => setIsStyleLibraryOpen(true)}
+              isQueueProcessing={schedulerStatus.activeJobs > 0}
+              hasReferenceImages={referenceImages.length > 0 || selectedCharacterIds.length > 0 || selectedProductIds.length > 0}
+              remixRequest={remixRequest}
+              onRemixApplied={() => setRemixRequest(null)}
+              promptInsertion={promptInsertion}
+              onPromptInsertionApplied={() => setPromptInsertion(null)}
+              defaults={activeProject?.defaults}
+              onSaveDefaults={handleSaveProjectDefaults}
+            />
+          </aside>
+
+          {/* === Right Content Column === */}
+          <section className="w-full flex-grow flex flex-col gap-4 overflow-hidden">
+             <QueuePanel
+               queue={projectQueue}
+               schedulerStatus={schedulerStatus}
+               schedulerSettings={schedulerSettings}
+               onSchedulerSettingsChange={setSchedulerSettings}
+               onResumeJobs={handleResumeJobs}
+               onRetryJob={handleRetryJob}
+               onRequeueJob={handleRequeueJob}
+               onCancelJob={handleCancelJob}
+               onReorderJob={handleReorderJob}
+               onClearFailedJobs={handleClearFailedJobs}
+               onTogglePause={handleTogglePause}
+               onInspectJob={handleInspectJob}
+             />
+             <Gallery
+               key={activeProjectId}
+               gallery={liveGallery}
+               onImageSelect={handleSelectImage}
+               onOrganizeItems={handleOrganizeItems}
+               onDeleteItems={handleDeleteItems}
+               trashCount={getCurrentVersions(trash).length}
+               onOpenTrash={() => setIsTrashOpen(true)}
+               storageUsage={storageUsage}
+               projectUsage={projectUsage}
+               storageNotice={storageNotice}
+               onDismissStorageNotice={() => setStorageNotice(null)}
+             />
+          </section>
+        </main>
+      )}
       {/* Fix: Corrected typo from handleCloseOmit to handleCloseModal */}
-      {selectedImage && <ImageDetailModal item={selectedImage} onClose={handleCloseModal} onUpscale={handleUpscaleImage} />}
+      {selectedImage && (
+        <ImageDetailModal
+          item={selectedImage}
+          gallery={liveGallery}
+          onClose={handleCloseModal}
+          onSelectVersion={setSelectedImage}
+          onCreateVersion={handleCreateVersion}
+          onRevertToVersion={handleRevertToVersion}
+          onRemix={handleRemixImage}
+          onDescribe={handleDescribeImage}
+          onEdit={handleOpenEditor}
+          onInspectCalls={handleInspectImageCalls}
+          onOrganize={update => handleOrganizeItems([selectedImage], update)}
+          onDelete={item => handleDeleteItems([item])}
+        />
+      )}
+      {isTrashOpen && (
+        <TrashModal
+          trash={trash}
+          trashBytes={projectUsage?.trashBytes}
+          retentionDays={trashRetentionDays}
+          onRetentionChange={handleTrashRetentionChange}
+          onRestore={handleRestoreItems}
+          onPurge={handlePurgeItems}
+          onClose={() => setIsTrashOpen(false)}
+        />
+      )}
+      {describeTarget && (
+        <DescribeImageModal
+          image={describeTarget.image}
+          title={describeTarget.title}
+          onInsert={setPromptInsertion}
+          onClose={() => setDescribeTarget(null)}
+        />
+      )}
+      {isProjectOpen && (
+        <ProjectDialog
+          projectName={activeProject?.name ?? DEFAULT_PROJECT_NAME}
+          contents={{ gallery: projectGallery, characters, products, templates, stylePresets }}
+          otherProjectImageIds={otherProjectImageIds}
+          settings={{ scheduler: schedulerSettings, export: loadExportOptions(), trashRetentionDays, defaults: activeProject?.defaults }}
+          onImport={handleImportProject}
+          onClose={() => setIsProjectOpen(false)}
+        />
+      )}
+      {lastDeletion && (
+        <UndoToast
+          key={lastDeletion.id}
+          message={lastDeletion.message}
+          onUndo={handleUndoDeletion}
+          onDismiss={dismissLastDeletion}
+        />
+      )}
+      {isStyleLibraryOpen && (
+        <StyleLibraryModal
+          presets={stylePresets}
+          onSave={handleSaveStylePreset}
+          onDelete={handleDeleteStylePreset}
+          onImport={handleImportStylePresets}
+          onClose={() => setIsStyleLibraryOpen(false)}
+        />
+      )}
+      {debugTrace && (
+        <DebugModal
+          traceId={debugTrace.traceId}
+          title={debugTrace.title}
+          onClose={() => setDebugTrace(null)}
+        />
+      )}
     </div>
   );
 };
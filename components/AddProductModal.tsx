@@ -2,3 +2,161 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React, { useEffect, useState } from 'react';
+import type { Product } from '../App';
+import { UploadIcon, XCircleIcon, XMarkIcon } from './icons';
+import { blobToDataUrl, downscaleImage } from '../utils/imageUtils';
+
+interface AddProductModalProps {
+  /** The product to edit, or null to add a new one. */
+  product: Product | null;
+  onSave: (product: Product) => void;
+  onClose: () => void;
+}
+
+const MAX_PRODUCT_PHOTOS = 4;
+/** Photos are stored and sent at no more than this size. */
+const PHOTO_MAX_DIMENSION = 1536;
+
+const AddProductModal: React.FC<AddProductModalProps> = ({ product, onSave, onClose }) => {
+  const [name, setName] = useState(product?.name ?? '');
+  const [sku, setSku] = useState(product?.sku ?? '');
+  const [notes, setNotes] = useState(product?.notes ?? '');
+  const [images, setImages] = useState<string[]>(product?.images ?? []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handlePhotoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files ?? []).slice(0, MAX_PRODUCT_PHOTOS - images.length);
+    try {
+      const photos = await Promise.all(files.map(async file => downscaleImage(await blobToDataUrl(file), PHOTO_MAX_DIMENSION)));
+      setImages(prev => [...prev, ...photos].slice(0, MAX_PRODUCT_PHOTOS));
+    } catch (error) {
+      console.error("Error reading files:", error);
+    }
+    e.target.value = '';
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || images.length === 0) return;
+    onSave({
+      id: product?.id ?? crypto.randomUUID(),
+      name: name.trim(),
+      sku: sku.trim(),
+      notes: notes.trim(),
+      images,
+      createdAt: product?.createdAt ?? Date.now(),
+    });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={e => e.target === e.currentTarget && onClose()}
+    >
+      <div
+        className="bg-gray-900 border border-gray-700 rounded-lg shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="product-modal-title"
+      >
+        <form onSubmit={handleSubmit} className="p-6 flex flex-col gap-4">
+          <div className="flex items-start justify-between">
+            <h2 id="product-modal-title" className="text-2xl font-bold text-gray-100">
+              {product ? 'Edit Product' : 'Add Product'}
+            </h2>
+            <button type="button" onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Close">
+              <XMarkIcon className="w-7 h-7" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <label className="col-span-2 flex flex-col gap-1 text-sm text-gray-400">
+              Name
+              <input
+                type="text"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder="e.g. Trail Runner 2 sneaker"
+                className="bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                autoFocus
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-sm text-gray-400">
+              SKU
+              <input
+                type="text"
+                value={sku}
+                onChange={e => setSku(e.target.value)}
+                placeholder="Optional"
+                className="bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              />
+            </label>
+          </div>
+
+          <label className="flex flex-col gap-1 text-sm text-gray-400">
+            Notes
+            <textarea
+              value={notes}
+              onChange={e => setNotes(e.target.value)}
+              placeholder="Materials, colorways, details the model must get right..."
+              rows={3}
+              className="bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-2 focus:ring-2 focus:ring-blue-500 focus:outline-none resize-none"
+            />
+          </label>
+
+          <div className="flex flex-col gap-1">
+            <span className="text-sm text-gray-400">Photos ({images.length}/{MAX_PRODUCT_PHOTOS})</span>
+            <div className="grid grid-cols-4 gap-2">
+              {images.map((src, index) => (
+                <div key={index} className="relative group aspect-square">
+                  <img src={src} alt={`${name || 'Product'} photo ${index + 1}`} className="w-full h-full object-cover rounded-md bg-gray-800" />
+                  <button
+                    type="button"
+                    onClick={() => setImages(prev => prev.filter((_, i) => i !== index))}
+                    className="absolute -top-1.5 -right-1.5 bg-red-600 text-white rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity focus:opacity-100"
+                    aria-label={`Remove photo ${index + 1}`}
+                  >
+                    <XCircleIcon className="w-5 h-5" />
+                  </button>
+                </div>
+              ))}
+              {images.length < MAX_PRODUCT_PHOTOS && (
+                <label className="cursor-pointer aspect-square flex flex-col items-center justify-center bg-gray-700/50 hover:bg-gray-700/80 text-gray-400 border-2 border-dashed border-gray-600 hover:border-gray-500 rounded-md transition-colors">
+                  <UploadIcon className="w-6 h-6 mb-1" />
+                  <span className="text-xs font-semibold">Upload</span>
+                  <input type="file" multiple accept="image/*" className="hidden" onChange={handlePhotoUpload} />
+                </label>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button type="button" onClick={onClose} className="px-4 py-2 rounded-md text-gray-300 hover:text-white transition-colors">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!name.trim() || images.length === 0}
+              className="px-5 py-2 rounded-md bg-blue-600 hover:bg-blue-500 text-white font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title={images.length === 0 ? 'Add at least one photo' : undefined}
+            >
+              {product ? 'Save Changes' : 'Add Product'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AddProductModal;
@@ -4,57 +4,64 @@
 */
 
 import React, { useState } from 'react';
+import type { StylePreset } from '../App';
 
 interface AdjustmentPanelProps {
-  onApplyAdjustment: (prompt: string) => void;
+  /** The library's adjustment presets. */
+  presets: StylePreset[];
+  onApplyAdjustment: (prompt: string, preset?: StylePreset) => void;
+  onManagePresets: () => void;
   isLoading: boolean;
 }
 
-const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, isLoading }) => {
-  const [selectedPresetPrompt, setSelectedPresetPrompt] = useState<string | null>(null);
+const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ presets, onApplyAdjustment, onManagePresets, isLoading }) => {
+  const [selectedPresetId, setSelectedPresetId] = useState<string | null>(null);
   const [customPrompt, setCustomPrompt] = useState('');
 
-  const presets = [
-    { name: 'Blur Background', prompt: 'Apply a realistic depth-of-field effect, making the background blurry while keeping the main subject in sharp focus.' },
-    { name: 'Enhance Details', prompt: 'Slightly enhance the sharpness and details of the image without making it look unnatural.' },
-    { name: 'Warmer Lighting', prompt: 'Adjust the color temperature to give the image warmer, golden-hour style lighting.' },
-    { name: 'Studio Light', prompt: 'Add dramatic, professional studio lighting to the main subject.' },
-  ];
+  const selectedPreset = presets.find(preset => preset.id === selectedPresetId);
+  const activePrompt = selectedPreset?.prompt || customPrompt;
 
-  const activePrompt = selectedPresetPrompt || customPrompt;
-
-  const handlePresetClick = (prompt: string) => {
-    setSelectedPresetPrompt(prompt);
+  const handlePresetClick = (id: string) => {
+    setSelectedPresetId(id);
     setCustomPrompt('');
   };
 
   const handleCustomChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setCustomPrompt(e.target.value);
-    setSelectedPresetPrompt(null);
+    setSelectedPresetId(null);
   };
 
   const handleApply = () => {
     if (activePrompt) {
-      onApplyAdjustment(activePrompt);
+      onApplyAdjustment(activePrompt, selectedPreset);
     }
   };
 
   return (
     <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
-      <h3 className="text-lg font-semibold text-center text-gray-300">Apply a Professional Adjustment</h3>
+      <div className="relative flex items-center justify-center">
+        <h3 className="text-lg font-semibold text-center text-gray-300">Apply a Professional Adjustment</h3>
+        <button onClick={onManagePresets} className="absolute right-0 text-xs text-blue-300 hover:text-blue-200 transition-colors">
+          Manage presets
+        </button>
+      </div>
       
       <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
         {presets.map(preset => (
           <button
-            key={preset.name}
-            onClick={() => handlePresetClick(preset.prompt)}
+            key={preset.id}
+            onClick={() => handlePresetClick(preset.id)}
+            title={preset.prompt}
             disabled={isLoading}
-            className={`w-full text-center bg-white/10 border border-transparent text-gray-200 font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/20 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed ${selectedPresetPrompt === preset.prompt ? 'ring-2 ring-offset-2 ring-offset-gray-800 ring-blue-500' : ''}`}
+            className={`w-full text-center bg-white/10 border border-transparent text-gray-200 font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/20 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed ${selectedPresetId === preset.id ? 'ring-2 ring-offset-2 ring-offset-gray-800 ring-blue-500' : ''}`}
           >
             {preset.name}
           </button>
         ))}
       </div>
+      {presets.length === 0 && (
+        <p className="text-sm text-gray-500 text-center">No adjustment presets in the library.</p>
+      )}
 
       <input
         type="text"
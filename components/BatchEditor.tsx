@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { MAX_BATCH_JOBS, type BatchInput } from '../utils/templateUtils';
+import { UploadIcon } from './icons';
+
+interface BatchEditorProps {
+  /** The template's variables, in order of appearance. */
+  variables: string[];
+  input: BatchInput;
+  onInputChange: (input: BatchInput) => void;
+  /** The expanded prompts, for the preview. */
+  prompts: string[];
+  error?: string;
+}
+
+const PREVIEW_COUNT = 3;
+
+/**
+ * Collects values for a template's variables, as one list per variable or as CSV rows,
+ * and previews the prompts they expand to.
+ */
+const BatchEditor: React.FC<BatchEditorProps> = ({ variables, input, onInputChange, prompts, error }) => {
+  const handleCsvUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      try {
+        onInputChange({ ...input, csv: await file.text() });
+      } catch (readError) {
+        console.error("Error reading CSV file:", readError);
+      }
+    }
+    e.target.value = '';
+  };
+
+  return (
+    <div className="flex flex-col gap-3 bg-gray-900/50 p-3 rounded-md animate-fade-in">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium text-gray-300">Batch values</span>
+        <div className="flex rounded-md overflow-hidden text-xs font-semibold" role="radiogroup" aria-label="Value source">
+          {(['lists', 'csv'] as const).map(mode => (
+            <button
+              type="button"
+              key={mode}
+              role="radio"
+              aria-checked={input.mode === mode}
+              onClick={() => onInputChange({ ...input, mode })}
+              className={`px-3 py-1 transition-colors ${input.mode === mode ? 'bg-blue-600 text-white' : 'bg-gray-700/50 hover:bg-gray-700 text-gray-300'}`}
+            >
+              {mode === 'lists' ? 'Lists' : 'CSV'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {input.mode === 'lists' ? (
+        <>
+          <p className="text-xs text-gray-400">One value per line. Every combination becomes a job.</p>
+          {variables.map(variable => (
+            <label key={variable} className="flex flex-col gap-1 text-xs text-gray-400">
+              {`{${variable}}`}
+              <textarea
+                value={input.lists[variable] ?? ''}
+                onChange={e => onInputChange({ ...input, lists: { ...input.lists, [variable]: e.target.value } })}
+                rows={2}
+                className="bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none resize-y"
+              />
+            </label>
+          ))}
+        </>
+      ) : (
+        <>
+          <p className="text-xs text-gray-400">
+            The header row names the variables ({variables.join(', ')}). Each row after it becomes a job.
+          </p>
+          <textarea
+            value={input.csv}
+            onChange={e => onInputChange({ ...input, csv: e.target.value })}
+            rows={4}
+            placeholder={variables.join(',')}
+            className="bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-2 text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:outline-none resize-y"
+            aria-label="CSV values"
+          />
+          <label className="self-start cursor-pointer flex items-center gap-1 text-xs text-gray-300 hover:text-white transition-colors">
+            <UploadIcon className="w-4 h-4" />
+            Load CSV file
+            <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleCsvUpload} />
+          </label>
+        </>
+      )}
+
+      {error ? (
+        <p className="text-xs text-yellow-300">{error}</p>
+      ) : (
+        <div className="flex flex-col gap-1">
+          <p className="text-xs text-gray-400">
+            {prompts.length} job{prompts.length === 1 ? '' : 's'} (limit {MAX_BATCH_JOBS})
+          </p>
+          <ul className="flex flex-col gap-1">
+            {prompts.slice(0, PREVIEW_COUNT).map((prompt, index) => (
+              <li key={index} className="text-xs text-gray-300 bg-gray-800/60 rounded px-2 py-1 truncate" title={prompt}>{prompt}</li>
+            ))}
+            {prompts.length > PREVIEW_COUNT && (
+              <li className="text-xs text-gray-500">and {prompts.length - PREVIEW_COUNT} more</li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchEditor;
@@ -0,0 +1,184 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { Character } from '../App';
+import { PlusIcon, TrashIcon, UploadIcon, UserCircleIcon, UserGroupIcon, XCircleIcon } from './icons';
+import { blobToDataUrl, downscaleImage } from '../utils/imageUtils';
+
+interface CharacterPanelProps {
+  characters: Character[];
+  selectedIds: string[];
+  onSelectedIdsChange: (ids: string[]) => void;
+  onSaveCharacter: (character: Character) => void;
+  onDeleteCharacter: (id: string) => void;
+}
+
+const MAX_CHARACTER_SHOTS = 3;
+/** Shots are stored and sent at no more than this size; identity does not need more detail. */
+const SHOT_MAX_DIMENSION = 1024;
+
+interface CharacterFormProps {
+  initial: Character | null;
+  onSave: (character: Character) => void;
+  onCancel: () => void;
+}
+
+const CharacterForm: React.FC<CharacterFormProps> = ({ initial, onSave, onCancel }) => {
+  const [name, setName] = useState(initial?.name ?? '');
+  const [description, setDescription] = useState(initial?.description ?? '');
+  const [images, setImages] = useState<string[]>(initial?.images ?? []);
+
+  const handleShotUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files ?? []).slice(0, MAX_CHARACTER_SHOTS - images.length);
+    try {
+      const shots = await Promise.all(files.map(async file => downscaleImage(await blobToDataUrl(file), SHOT_MAX_DIMENSION)));
+      setImages(prev => [...prev, ...shots].slice(0, MAX_CHARACTER_SHOTS));
+    } catch (error) {
+      console.error("Error reading files:", error);
+    }
+    e.target.value = '';
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave({
+      id: initial?.id ?? crypto.randomUUID(),
+      name: name.trim(),
+      description: description.trim(),
+      images,
+      createdAt: initial?.createdAt ?? Date.now(),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-3 bg-gray-900/50 p-3 rounded-md animate-fade-in">
+      <input
+        type="text"
+        value={name}
+        onChange={e => setName(e.target.value)}
+        placeholder="Name, as you will write it in prompts"
+        className="bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+        autoFocus
+      />
+      <textarea
+        value={description}
+        onChange={e => setDescription(e.target.value)}
+        placeholder="Appearance, clothing, defining features..."
+        rows={2}
+        className="bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-2 focus:ring-2 focus:ring-blue-500 focus:outline-none resize-none"
+      />
+      <div className="grid grid-cols-4 gap-2">
+        {images.map((src, index) => (
+          <div key={index} className="relative group aspect-square">
+            <img src={src} alt={`${name || 'Character'} shot ${index + 1}`} className="w-full h-full object-cover rounded-md" />
+            <button
+              type="button"
+              onClick={() => setImages(prev => prev.filter((_, i) => i !== index))}
+              className="absolute -top-1.5 -right-1.5 bg-red-600 text-white rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity focus:opacity-100"
+              aria-label={`Remove shot ${index + 1}`}
+            >
+              <XCircleIcon className="w-5 h-5" />
+            </button>
+          </div>
+        ))}
+        {images.length < MAX_CHARACTER_SHOTS && (
+          <label className="cursor-pointer aspect-square flex flex-col items-center justify-center bg-gray-700/50 hover:bg-gray-700/80 text-gray-400 border-2 border-dashed border-gray-600 hover:border-gray-500 rounded-md transition-colors">
+            <UploadIcon className="w-6 h-6 mb-1" />
+            <span className="text-xs font-semibold">Shot</span>
+            <input type="file" multiple accept="image/*" className="hidden" onChange={handleShotUpload} />
+          </label>
+        )}
+      </div>
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-3 py-1.5 rounded-md text-gray-300 hover:text-white transition-colors">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!name.trim()}
+          className="px-4 py-1.5 rounded-md bg-blue-600 hover:bg-blue-500 text-white font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const CharacterPanel: React.FC<CharacterPanelProps> = ({ characters, selectedIds, onSelectedIdsChange, onSaveCharacter, onDeleteCharacter }) => {
+  // null: no form open; 'new': creating; otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(null);
+
+  const toggleSelected = (id: string) => {
+    onSelectedIdsChange(selectedIds.includes(id) ? selectedIds.filter(selected => selected !== id) : [...selectedIds, id]);
+  };
+
+  const handleSave = (character: Character) => {
+    onSaveCharacter(character);
+    setEditing(null);
+  };
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-3 backdrop-blur-sm">
+      <div className="flex items-center gap-2">
+        <UserGroupIcon className="w-6 h-6 text-gray-400" />
+        <h3 className="text-lg font-semibold text-gray-200">Characters</h3>
+        <button
+          onClick={() => setEditing('new')}
+          disabled={editing !== null}
+          className="ml-auto flex items-center gap-1 text-sm text-blue-300 hover:text-blue-200 transition-colors disabled:opacity-50"
+        >
+          <PlusIcon className="w-4 h-4" />
+          New
+        </button>
+      </div>
+      <p className="text-xs text-gray-400 -mt-1">
+        Selected characters join every job. Others join any job whose prompt mentions their name.
+      </p>
+
+      {editing === 'new' && <CharacterForm initial={null} onSave={handleSave} onCancel={() => setEditing(null)} />}
+
+      {characters.length === 0 && editing === null && (
+        <p className="text-sm text-gray-500 text-center py-2">No characters yet.</p>
+      )}
+
+      <ul className="flex flex-col gap-2">
+        {characters.map(character => editing === character.id ? (
+          <li key={character.id}>
+            <CharacterForm initial={character} onSave={handleSave} onCancel={() => setEditing(null)} />
+          </li>
+        ) : (
+          <li
+            key={character.id}
+            className={`flex items-center gap-3 p-2 rounded-md border transition-colors ${selectedIds.includes(character.id) ? 'border-blue-500 bg-blue-900/20' : 'border-transparent bg-gray-900/40'}`}
+          >
+            <button onClick={() => toggleSelected(character.id)} className="flex items-center gap-3 flex-grow min-w-0 text-left" aria-pressed={selectedIds.includes(character.id)}>
+              {character.images[0] ? (
+                <img src={character.images[0]} alt={character.name} className="w-10 h-10 object-cover rounded-full flex-shrink-0" />
+              ) : (
+                <UserCircleIcon className="w-10 h-10 text-gray-500 flex-shrink-0" />
+              )}
+              <span className="min-w-0">
+                <span className="block font-semibold text-gray-200 truncate">{character.name}</span>
+                <span className="block text-xs text-gray-400 truncate">
+                  {character.images.length} shot{character.images.length === 1 ? '' : 's'}{character.description && ` · ${character.description}`}
+                </span>
+              </span>
+            </button>
+            <button onClick={() => setEditing(character.id)} disabled={editing !== null} className="text-xs text-gray-400 hover:text-white transition-colors disabled:opacity-50">
+              Edit
+            </button>
+            <button onClick={() => onDeleteCharacter(character.id)} className="text-gray-500 hover:text-red-400 transition-colors" aria-label={`Delete ${character.name}`}>
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default CharacterPanel;
@@ -2,3 +2,200 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React, { useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { getDebugRecords, loadDebugRecords, subscribeToDebugRecords, type ProviderCallRecord } from '../services/debugLog';
+import { getProvider } from '../services/imageProvider';
+import { SERVICE_ERROR_LABELS } from '../services/serviceErrors';
+import { formatBytes, formatDuration } from '../utils/formatUtils';
+import { XMarkIcon } from './icons';
+
+interface DebugModalProps {
+  /** The job id or edit trace whose provider calls are shown. */
+  traceId: string;
+  /** What the calls were made for, e.g. the job's prompt. */
+  title: string;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ProviderCallRecord['status'], string> = {
+  success: 'text-green-300 bg-green-900/40',
+  error: 'text-red-300 bg-red-900/40',
+  cancelled: 'text-gray-300 bg-gray-700',
+};
+
+const DetailRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="grid grid-cols-[8rem_1fr] gap-2 text-sm">
+    <span className="text-gray-400">{label}</span>
+    <span className="text-gray-200 min-w-0 break-words">{children}</span>
+  </div>
+);
+
+const JsonBlock: React.FC<{ value: unknown }> = ({ value }) => (
+  <pre className="bg-gray-950/60 border border-gray-700 rounded-md p-3 text-xs text-gray-300 overflow-auto max-h-72 whitespace-pre-wrap break-all">
+    {JSON.stringify(value, null, 2)}
+  </pre>
+);
+
+const CallDetails: React.FC<{ call: ProviderCallRecord }> = ({ call }) => (
+  <div className="flex flex-col gap-4">
+    <div className="flex flex-col gap-1.5">
+      <DetailRow label="Provider">{getProvider(call.provider)?.name ?? call.provider}</DetailRow>
+      <DetailRow label="Model">{call.model}</DetailRow>
+      <DetailRow label="Operation">{call.operation}</DetailRow>
+      <DetailRow label="Started">{new Date(call.startedAt).toLocaleString()}</DetailRow>
+      <DetailRow label="Latency">{formatDuration(call.durationMs)}</DetailRow>
+      {call.finishReason && <DetailRow label="Finish reason">{call.finishReason}</DetailRow>}
+      {call.blockReason && <DetailRow label="Block reason"><span className="text-red-300">{call.blockReason}</span></DetailRow>}
+      {call.error && (
+        <DetailRow label="Error">
+          <span className="text-red-300">
+            {call.errorKind && <span className="font-semibold mr-2">{SERVICE_ERROR_LABELS[call.errorKind]}</span>}
+            {call.error}
+          </span>
+        </DetailRow>
+      )}
+    </div>
+
+    <section className="flex flex-col gap-2">
+      <h4 className="text-xs font-semibold uppercase tracking-wider text-gray-400">Request parts</h4>
+      <ol className="flex flex-col gap-2">
+        {call.parts.map((part, index) => (
+          <li key={index} className="flex gap-3 items-start bg-gray-900/50 rounded-md p-2">
+            <span className="text-xs text-gray-500 w-5 flex-shrink-0">{index + 1}</span>
+            {part.type === 'text' ? (
+              <p className="text-sm text-gray-200 whitespace-pre-wrap break-words min-w-0">{part.text}</p>
+            ) : (
+              <div className="flex items-center gap-3">
+                {part.thumbnail && <img src={part.thumbnail} alt={`Part ${index + 1}`} className="w-16 h-16 object-contain rounded bg-gray-800" />}
+                <span className="text-xs text-gray-400">{part.mimeType} · {formatBytes(part.bytes)}</span>
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </section>
+
+    <section className="flex flex-col gap-2">
+      <h4 className="text-xs font-semibold uppercase tracking-wider text-gray-400">Config</h4>
+      <JsonBlock value={call.config} />
+    </section>
+
+    {call.safetyRatings !== undefined && (
+      <section className="flex flex-col gap-2">
+        <h4 className="text-xs font-semibold uppercase tracking-wider text-gray-400">Safety ratings</h4>
+        <JsonBlock value={call.safetyRatings} />
+      </section>
+    )}
+
+    <section className="flex flex-col gap-2">
+      <h4 className="text-xs font-semibold uppercase tracking-wider text-gray-400">Raw response</h4>
+      {call.response === undefined
+        ? <p className="text-sm text-gray-500">No response was received.</p>
+        : <JsonBlock value={call.response} />}
+    </section>
+  </div>
+);
+
+/**
+ * Lists the provider calls recorded for a job or edit, with the full request and response of the selected one.
+ */
+const DebugModal: React.FC<DebugModalProps> = ({ traceId, title, onClose }) => {
+  const records = useSyncExternalStore(subscribeToDebugRecords, getDebugRecords);
+  const calls = useMemo(() => records.filter(record => record.traceId === traceId), [records, traceId]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  // Follows the latest call until the user picks one
+  const selected = calls.find(call => call.id === selectedId) ?? calls[calls.length - 1];
+
+  useEffect(() => {
+    loadDebugRecords();
+  }, []);
+
+  // Captured first so Escape closes only this modal, not the one it was opened from
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        event.stopPropagation();
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [onClose]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify({ traceId, title, calls }, null, 2));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.error("Failed to copy debug records", e);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={e => e.target === e.currentTarget && onClose()}
+    >
+      <div
+        className="bg-gray-900 border border-gray-700 rounded-lg shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="debug-modal-title"
+      >
+        <div className="flex items-start justify-between gap-4 p-4 border-b border-gray-700">
+          <div className="min-w-0">
+            <h2 id="debug-modal-title" className="text-xl font-bold text-gray-100">Provider Calls</h2>
+            <p className="text-sm text-gray-400 truncate" title={title}>{title}</p>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <button
+              onClick={handleCopy}
+              disabled={calls.length === 0}
+              className="px-3 py-1.5 rounded-md bg-white/10 hover:bg-white/20 text-gray-200 text-sm font-semibold transition-colors disabled:opacity-50"
+            >
+              {copied ? 'Copied' : 'Copy as JSON'}
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Close">
+              <XMarkIcon className="w-7 h-7" />
+            </button>
+          </div>
+        </div>
+
+        {calls.length === 0 ? (
+          <p className="flex-grow flex items-center justify-center text-gray-500 p-6 text-center">
+            No provider calls were recorded for this yet. Only the most recent calls are kept.
+          </p>
+        ) : (
+          <div className="flex-grow grid grid-cols-[16rem_1fr] min-h-0">
+            <ul className="border-r border-gray-700 overflow-y-auto p-2 flex flex-col gap-1">
+              {calls.map((call, index) => (
+                <li key={call.id}>
+                  <button
+                    onClick={() => setSelectedId(call.id)}
+                    className={`w-full text-left p-2 rounded-md transition-colors ${call === selected ? 'bg-blue-900/40 border border-blue-500' : 'border border-transparent hover:bg-white/5'}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-semibold text-gray-200">#{index + 1} {call.operation}</span>
+                      <span className={`text-xs px-1.5 py-0.5 rounded ${STATUS_STYLES[call.status]}`}>{call.status}</span>
+                    </div>
+                    <p className="text-xs text-gray-400 truncate">{call.model}</p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(call.startedAt).toLocaleTimeString()} · {formatDuration(call.durationMs)}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="overflow-y-auto p-4">
+              {selected && <CallDetails call={selected} />}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DebugModal;
@@ -0,0 +1,185 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import type { ImageDescription, PromptInsertion } from '../App';
+import { describeImage } from '../services/geminiService';
+import { getActiveProvider, getProvider, type StyleBreakdown } from '../services/imageProvider';
+import { loadDescription, saveDescription } from '../services/descriptionStorage';
+import { hashImage } from '../utils/imageUtils';
+import { ArrowPathIcon, EyeIcon, XMarkIcon } from './icons';
+
+interface DescribeImageModalProps {
+  /** The image to describe, as a data URL or object URL. */
+  image: string;
+  /** Where the image came from, e.g. "Reference 2" or the image's prompt. */
+  title: string;
+  /** Puts text into the generation panel's prompt. */
+  onInsert: (insertion: PromptInsertion) => void;
+  onClose: () => void;
+}
+
+const STYLE_LABELS: Record<keyof StyleBreakdown, string> = {
+  medium: 'Medium',
+  lighting: 'Lighting',
+  palette: 'Palette',
+  composition: 'Composition',
+  mood: 'Mood',
+};
+
+const buttonClassName = "flex items-center justify-center gap-2 px-3 py-1.5 rounded-md bg-white/10 hover:bg-white/20 text-gray-200 text-sm font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+/**
+ * Asks a multimodal model what an image shows, how it is styled and what prompt would reproduce it,
+ * so its look can be carried into new generations. Descriptions are cached by the image's hash and reused while the same provider is active.
+ */
+const DescribeImageModal: React.FC<DescribeImageModalProps> = ({ image, title, onInsert, onClose }) => {
+  const [description, setDescription] = useState<ImageDescription | null>(null);
+  const [prompt, setPrompt] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Uses the cached description unless asked to describe the image again
+  const describe = async (refresh: boolean) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const hash = await hashImage(image);
+      let cached: ImageDescription | undefined;
+      if (!refresh) {
+        try {
+          cached = await loadDescription(hash, getActiveProvider().id);
+        } catch (e) {
+          console.error("Failed to load cached image description", e);
+        }
+      }
+      const next = cached ?? { ...await describeImage(image, { signal: controller.signal }), hash, createdAt: Date.now() };
+      if (controller.signal.aborted) return;
+      setDescription(next);
+      setPrompt(next.prompt);
+      if (!cached) {
+        saveDescription(next).catch(e => console.error("Failed to cache image description", e));
+      }
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      console.error("Failed to describe image", e);
+      setError(e instanceof Error ? e.message : 'Describing the image failed.');
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    describe(false);
+    return () => controllerRef.current?.abort();
+  }, [image]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const insert = (insertion: PromptInsertion) => {
+    onInsert(insertion);
+    onClose();
+  };
+
+  const styleText = description
+    ? (Object.keys(STYLE_LABELS) as (keyof StyleBreakdown)[]).map(aspect => description.style[aspect]).filter(Boolean).join(', ')
+    : '';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={e => e.target === e.currentTarget && onClose()}
+    >
+      <div
+        className="bg-gray-900 border border-gray-700 rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto flex flex-col gap-4 p-5"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="describe-dialog-title"
+      >
+        <div className="flex items-center gap-3">
+          <EyeIcon className="w-6 h-6 text-gray-400" />
+          <h2 id="describe-dialog-title" className="text-xl font-bold text-gray-100">Describe image</h2>
+          <span className="text-sm text-gray-400 truncate">{title}</span>
+          <button onClick={onClose} className="ml-auto text-gray-400 hover:text-white transition-colors" aria-label="Close">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-4">
+          <img src={image} alt={title} className="w-full sm:w-56 max-h-72 object-contain rounded-md bg-gray-950 self-start" />
+
+          <div className="flex-grow min-w-0 flex flex-col gap-3">
+            {error && <p className="text-sm bg-red-900/50 text-red-300 p-2 rounded-md">{error}</p>}
+
+            {!description && isLoading && (
+              <p className="flex items-center gap-2 text-sm text-gray-400">
+                <EyeIcon className="w-4 h-4 animate-pulse" />
+                Looking at the image...
+              </p>
+            )}
+
+            {description && (
+              <>
+                <p className="text-base text-gray-200">{description.caption}</p>
+                <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+                  {(Object.keys(STYLE_LABELS) as (keyof StyleBreakdown)[]).filter(aspect => description.style[aspect]).map(aspect => (
+                    <React.Fragment key={aspect}>
+                      <dt className="text-gray-400">{STYLE_LABELS[aspect]}</dt>
+                      <dd className="text-gray-200 break-words">{description.style[aspect]}</dd>
+                    </React.Fragment>
+                  ))}
+                </dl>
+                <label className="flex flex-col gap-1">
+                  <span className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Suggested prompt</span>
+                  <textarea
+                    value={prompt}
+                    onChange={e => setPrompt(e.target.value)}
+                    rows={4}
+                    className="bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none resize-none"
+                  />
+                </label>
+                <div className="flex flex-wrap items-center gap-2">
+                  <button
+                    onClick={() => insert({ text: prompt.trim(), mode: 'replace' })}
+                    disabled={!prompt.trim()}
+                    className="text-sm font-semibold px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Use as prompt
+                  </button>
+                  <button onClick={() => insert({ text: styleText, mode: 'append' })} disabled={!styleText} className={buttonClassName} title={styleText}>
+                    Add style to prompt
+                  </button>
+                  <button onClick={() => describe(true)} disabled={isLoading} className={buttonClassName}>
+                    <ArrowPathIcon className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+                    {isLoading ? 'Describing...' : 'Describe again'}
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Described by {getProvider(description.provider)?.name ?? description.provider} ({description.model}) on {new Date(description.createdAt).toLocaleString()}.
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DescribeImageModal;
@@ -2,3 +2,239 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React, { useEffect, useRef, useState } from 'react';
+import Spinner from './Spinner';
+
+/** A crop selection as fractions (0–1) of the image's width and height. */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type MaskTool = 'brush' | 'lasso' | 'erase';
+
+interface EditorCanvasProps {
+  src: string;
+  alt: string;
+  isLoading: boolean;
+  loadingMessage?: string;
+  isCropping: boolean;
+  /** Width / height to lock the crop selection to, in image pixels. Undefined for a free selection. */
+  aspect?: number;
+  crop: CropRect | null;
+  onCropChange: (crop: CropRect | null) => void;
+  isMasking: boolean;
+  maskTool: MaskTool;
+  /** Brush diameter in screen pixels. */
+  brushSize: number;
+  /** The painted mask as a PNG data URL, opaque where painted. Setting it to null clears the canvas. */
+  mask: string | null;
+  /** Receives null once everything painted has been erased. */
+  onMaskChange: (mask: string | null) => void;
+}
+
+/** Selections smaller than this fraction of the image are treated as a click and cleared. */
+const MIN_CROP_FRACTION = 0.01;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Whether any pixel of the mask is still painted, so an erased-away selection isn't sent for retouching
+const hasPaintedPixels = (canvas: HTMLCanvasElement) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx || canvas.width === 0 || canvas.height === 0) return false;
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return true;
+  }
+  return false;
+};
+
+const EditorCanvas: React.FC<EditorCanvasProps> = ({
+  src, alt, isLoading, loadingMessage, isCropping, aspect, crop, onCropChange, isMasking, maskTool, brushSize, mask, onMaskChange,
+}) => {
+  const imageRef = useRef<HTMLImageElement>(null);
+  const maskCanvasRef = useRef<HTMLCanvasElement>(null);
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+  const strokeRef = useRef<{ x: number; y: number }[] | null>(null);
+  const [lassoPoints, setLassoPoints] = useState<{ x: number; y: number }[]>([]);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    const canvas = maskCanvasRef.current;
+    if (mask === null && canvas) {
+      canvas.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    }
+  }, [mask, naturalSize]);
+
+  const toImagePoint = (event: React.PointerEvent) => {
+    const bounds = imageRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((event.clientX - bounds.left) / bounds.width, 0, 1),
+      y: clamp((event.clientY - bounds.top) / bounds.height, 0, 1),
+    };
+  };
+
+  // Builds the selection from the drag start to the pointer, honouring the aspect lock and keeping it inside the image
+  const getSelection = (start: { x: number; y: number }, end: { x: number; y: number }): CropRect => {
+    const dirX = end.x < start.x ? -1 : 1;
+    const dirY = end.y < start.y ? -1 : 1;
+    let width = Math.abs(end.x - start.x);
+    let height = Math.abs(end.y - start.y);
+    if (aspect && naturalSize) {
+      const heightPerWidth = naturalSize.width / (naturalSize.height * aspect);
+      height = width * heightPerWidth;
+      const maxHeight = dirY < 0 ? start.y : 1 - start.y;
+      if (height > maxHeight) {
+        height = maxHeight;
+        width = height / heightPerWidth;
+      }
+    }
+    return {
+      x: dirX < 0 ? start.x - width : start.x,
+      y: dirY < 0 ? start.y - height : start.y,
+      width,
+      height,
+    };
+  };
+
+  // Paints the segment between the last two brush points in image pixels; a single point paints a dot
+  const paintStroke = (points: { x: number; y: number }[]) => {
+    const canvas = maskCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const scale = canvas.width / imageRef.current!.getBoundingClientRect().width;
+    const from = points[Math.max(0, points.length - 2)];
+    const to = points[points.length - 1];
+    ctx.globalCompositeOperation = maskTool === 'erase' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = '#ef4444';
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x * canvas.width, from.y * canvas.height);
+    ctx.lineTo(to.x * canvas.width, to.y * canvas.height);
+    ctx.stroke();
+  };
+
+  const fillLasso = (points: { x: number; y: number }[]) => {
+    const canvas = maskCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || points.length < 3) return;
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.fillStyle = '#ef4444';
+    ctx.beginPath();
+    points.forEach((point, index) => index === 0
+      ? ctx.moveTo(point.x * canvas.width, point.y * canvas.height)
+      : ctx.lineTo(point.x * canvas.width, point.y * canvas.height));
+    ctx.closePath();
+    ctx.fill();
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if ((!isCropping && !isMasking) || isLoading) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toImagePoint(event);
+    if (isMasking) {
+      strokeRef.current = [point];
+      if (maskTool === 'lasso') {
+        setLassoPoints([point]);
+      } else {
+        paintStroke([point]);
+      }
+      return;
+    }
+    dragStartRef.current = point;
+    onCropChange(null);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (strokeRef.current) {
+      strokeRef.current.push(toImagePoint(event));
+      if (maskTool === 'lasso') {
+        setLassoPoints([...strokeRef.current]);
+      } else {
+        paintStroke(strokeRef.current);
+      }
+      return;
+    }
+    if (!dragStartRef.current) return;
+    onCropChange(getSelection(dragStartRef.current, toImagePoint(event)));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (strokeRef.current) {
+      if (maskTool === 'lasso') {
+        fillLasso(strokeRef.current);
+        setLassoPoints([]);
+      }
+      strokeRef.current = null;
+      const canvas = maskCanvasRef.current!;
+      onMaskChange(hasPaintedPixels(canvas) ? canvas.toDataURL('image/png') : null);
+      return;
+    }
+    if (!dragStartRef.current) return;
+    const selection = getSelection(dragStartRef.current, toImagePoint(event));
+    dragStartRef.current = null;
+    onCropChange(selection.width < MIN_CROP_FRACTION || selection.height < MIN_CROP_FRACTION ? null : selection);
+  };
+
+  return (
+    <div className="relative w-full h-full bg-gray-950 rounded-lg flex items-center justify-center p-4 overflow-hidden">
+      <div
+        className={`relative max-w-full max-h-full overflow-hidden touch-none select-none ${isCropping || isMasking ? 'cursor-crosshair' : ''}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        <img
+          ref={imageRef}
+          src={src}
+          alt={alt}
+          draggable={false}
+          onLoad={e => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          className="block max-w-full max-h-[calc(100vh-14rem)] object-contain"
+        />
+        {naturalSize && (
+          <canvas
+            ref={maskCanvasRef}
+            width={naturalSize.width}
+            height={naturalSize.height}
+            className={`absolute inset-0 w-full h-full pointer-events-none opacity-50 ${isMasking ? '' : 'hidden'}`}
+          />
+        )}
+        {lassoPoints.length > 1 && (
+          <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+            <polyline
+              points={lassoPoints.map(point => `${point.x},${point.y}`).join(' ')}
+              fill="rgba(239, 68, 68, 0.25)"
+              stroke="#ffffff"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+        )}
+        {isCropping && crop && (
+          <div
+            className="absolute border-2 border-white/90 shadow-[0_0_0_9999px_rgba(0,0,0,0.6)] pointer-events-none"
+            style={{
+              left: `${crop.x * 100}%`,
+              top: `${crop.y * 100}%`,
+              width: `${crop.width * 100}%`,
+              height: `${crop.height * 100}%`,
+            }}
+          />
+        )}
+      </div>
+      {isLoading && (
+        <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center gap-4">
+          <Spinner />
+          {loadingMessage && <p className="text-lg font-semibold text-gray-200">{loadingMessage}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EditorCanvas;
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import type { GalleryItem } from '../App';
+import { FILENAME_TOKENS, exportGalleryZip, formatFilename, loadExportOptions, saveExportOptions, type ExportOptions, type ManifestFormat } from '../services/galleryExport';
+import { downloadBlob } from '../utils/fileUtils';
+import { DownloadIcon, XMarkIcon } from './icons';
+
+interface ExportDialogProps {
+  items: GalleryItem[];
+  onClose: () => void;
+}
+
+const MANIFEST_LABELS: Record<ManifestFormat, string> = {
+  json: 'JSON manifest',
+  csv: 'CSV manifest',
+  none: 'No manifest',
+};
+
+const PREVIEW_COUNT = 3;
+
+/**
+ * Exports gallery images as a ZIP file, with a configurable file name pattern and a manifest of their settings.
+ */
+const ExportDialog: React.FC<ExportDialogProps> = ({ items, onClose }) => {
+  const [options, setOptions] = useState<ExportOptions>(loadExportOptions);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const patternRef = useRef<HTMLInputElement>(null);
+  const isExporting = progress !== null;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && !isExporting) {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, isExporting]);
+
+  const insertToken = (token: string) => {
+    const input = patternRef.current;
+    const start = input?.selectionStart ?? options.filenamePattern.length;
+    const end = input?.selectionEnd ?? start;
+    const text = `{${token}}`;
+    setOptions({ ...options, filenamePattern: options.filenamePattern.slice(0, start) + text + options.filenamePattern.slice(end) });
+    requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(start + text.length, start + text.length);
+    });
+  };
+
+  const handleExport = async () => {
+    setProgress(0);
+    setError(null);
+    saveExportOptions(options);
+    try {
+      const zip = await exportGalleryZip(items, options, setProgress);
+      const today = new Date().toISOString().slice(0, 10);
+      downloadBlob(zip, `gemini-studio-export-${today}.zip`);
+      onClose();
+    } catch (e) {
+      console.error("Failed to export gallery images", e);
+      setError(e instanceof Error ? e.message : 'Export failed.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={e => e.target === e.currentTarget && !isExporting && onClose()}
+    >
+      <div
+        className="bg-gray-900 border border-gray-700 rounded-lg shadow-2xl w-full max-w-lg flex flex-col gap-4 p-5"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="export-title"
+      >
+        <div className="flex items-center gap-3">
+          <DownloadIcon className="w-6 h-6 text-gray-400" />
+          <h2 id="export-title" className="text-xl font-bold text-gray-100">
+            Export {items.length} image{items.length === 1 ? '' : 's'}
+          </h2>
+          <button onClick={onClose} disabled={isExporting} className="ml-auto text-gray-400 hover:text-white transition-colors disabled:opacity-50" aria-label="Close">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <label className="flex flex-col gap-1 text-sm text-gray-300">
+          File names
+          <input
+            ref={patternRef}
+            type="text"
+            value={options.filenamePattern}
+            onChange={e => setOptions({ ...options, filenamePattern: e.target.value })}
+            className="bg-gray-800 border border-gray-600 text-gray-200 rounded-md px-2 py-1.5 text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          />
+        </label>
+        <div className="flex flex-wrap gap-1.5 -mt-2">
+          {Object.entries(FILENAME_TOKENS).map(([token, description]) => (
+            <button
+              key={token}
+              type="button"
+              onClick={() => insertToken(token)}
+              title={description}
+              className="text-xs font-mono px-2 py-0.5 rounded-full bg-gray-700/60 text-gray-300 hover:bg-gray-700 transition-colors"
+            >
+              {`{${token}}`}
+            </button>
+          ))}
+        </div>
+        <ul className="flex flex-col gap-1">
+          {items.slice(0, PREVIEW_COUNT).map((item, index) => (
+            <li key={item.id} className="text-xs text-gray-400 bg-gray-800/60 rounded px-2 py-1 truncate font-mono">
+              {formatFilename(options.filenamePattern, item, index + 1)}.…
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-300">
+          <select
+            value={options.manifest}
+            onChange={e => setOptions({ ...options, manifest: e.target.value as ManifestFormat })}
+            className="bg-gray-800 border border-gray-600 text-gray-200 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            aria-label="Manifest"
+          >
+            {(Object.keys(MANIFEST_LABELS) as ManifestFormat[]).map(format => (
+              <option key={format} value={format}>{MANIFEST_LABELS[format]}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2" title="Writes the prompt and settings into PNG text chunks or JPEG XMP metadata">
+            <input
+              type="checkbox"
+              checked={options.embedMetadata}
+              onChange={e => setOptions({ ...options, embedMetadata: e.target.checked })}
+              className="accent-blue-500"
+            />
+            Embed prompt and settings in files
+          </label>
+        </div>
+
+        {error && <p className="text-sm bg-red-900/50 text-red-300 p-2 rounded-md">{error}</p>}
+
+        <button
+          onClick={handleExport}
+          disabled={isExporting || items.length === 0}
+          className="w-full flex items-center justify-center gap-2 bg-gradient-to-br from-blue-600 to-cyan-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          <DownloadIcon className="w-5 h-5" />
+          {isExporting ? `Packing ${progress} of ${items.length}...` : 'Download ZIP'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
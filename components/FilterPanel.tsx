@@ -4,57 +4,64 @@
 */
 
 import React, { useState } from 'react';
+import type { StylePreset } from '../App';
 
 interface FilterPanelProps {
-  onApplyFilter: (prompt: string) => void;
+  /** The library's filter presets. */
+  presets: StylePreset[];
+  onApplyFilter: (prompt: string, preset?: StylePreset) => void;
+  onManagePresets: () => void;
   isLoading: boolean;
 }
 
-const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, isLoading }) => {
-  const [selectedPresetPrompt, setSelectedPresetPrompt] = useState<string | null>(null);
+const FilterPanel: React.FC<FilterPanelProps> = ({ presets, onApplyFilter, onManagePresets, isLoading }) => {
+  const [selectedPresetId, setSelectedPresetId] = useState<string | null>(null);
   const [customPrompt, setCustomPrompt] = useState('');
 
-  const presets = [
-    { name: 'Synthwave', prompt: 'Apply a vibrant 80s synthwave aesthetic with neon magenta and cyan glows, and subtle scan lines.' },
-    { name: 'Anime', prompt: 'Give the image a vibrant Japanese anime style, with bold outlines, cel-shading, and saturated colors.' },
-    { name: 'Lomo', prompt: 'Apply a Lomography-style cross-processing film effect with high-contrast, oversaturated colors, and dark vignetting.' },
-    { name: 'Glitch', prompt: 'Transform the image into a futuristic holographic projection with digital glitch effects and chromatic aberration.' },
-  ];
-  
-  const activePrompt = selectedPresetPrompt || customPrompt;
+  const selectedPreset = presets.find(preset => preset.id === selectedPresetId);
+  const activePrompt = selectedPreset?.prompt || customPrompt;
 
-  const handlePresetClick = (prompt: string) => {
-    setSelectedPresetPrompt(prompt);
+  const handlePresetClick = (id: string) => {
+    setSelectedPresetId(id);
     setCustomPrompt('');
   };
   
   const handleCustomChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setCustomPrompt(e.target.value);
-    setSelectedPresetPrompt(null);
+    setSelectedPresetId(null);
   };
 
   const handleApply = () => {
     if (activePrompt) {
-      onApplyFilter(activePrompt);
+      onApplyFilter(activePrompt, selectedPreset);
     }
   };
 
   return (
     <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
-      <h3 className="text-lg font-semibold text-center text-gray-300">Apply a Filter</h3>
+      <div className="relative flex items-center justify-center">
+        <h3 className="text-lg font-semibold text-center text-gray-300">Apply a Filter</h3>
+        <button onClick={onManagePresets} className="absolute right-0 text-xs text-blue-300 hover:text-blue-200 transition-colors">
+          Manage presets
+        </button>
+      </div>
       
       <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
         {presets.map(preset => (
           <button
-            key={preset.name}
-            onClick={() => handlePresetClick(preset.prompt)}
+            key={preset.id}
+            onClick={() => handlePresetClick(preset.id)}
+            title={preset.prompt}
             disabled={isLoading}
-            className={`w-full text-center bg-white/10 border border-transparent text-gray-200 font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/20 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed ${selectedPresetPrompt === preset.prompt ? 'ring-2 ring-offset-2 ring-offset-gray-800 ring-blue-500' : ''}`}
+            className={`w-full text-center bg-white/10 border border-transparent text-gray-200 font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/20 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed ${selectedPresetId === preset.id ? 'ring-2 ring-offset-2 ring-offset-gray-800 ring-blue-500' : ''}`}
           >
             {preset.name}
           </button>
         ))}
       </div>
+      {presets.length === 0 && (
+        <p className="text-sm text-gray-500 text-center">No filter presets in the library.</p>
+      )}
 
       <input
         type="text"
@@ -2,41 +2,300 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
-import type { GalleryItem } from '../App';
-import { PhotoIcon } from './icons';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { GalleryItem, GalleryOrganization } from '../App';
+import type { ProjectStorageUsage, StorageUsage } from '../services/galleryStorage';
+import { formatBytes } from '../utils/formatUtils';
+import { EMPTY_FILTERS, countActiveFilters, getFilterOptions, matchesFilters, type GalleryFilters } from '../utils/galleryFilters';
+import { packGrid } from '../utils/gridLayout';
+import { getCurrentVersions, getLineageKey } from '../utils/lineageUtils';
+import ExportDialog from './ExportDialog';
+import GalleryBulkBar from './GalleryBulkBar';
+import GalleryFilterBar from './GalleryFilterBar';
+import { CheckCircleIcon, HeartIcon, PhotoIcon, StarIcon, TrashIcon, XMarkIcon } from './icons';
 
 interface GalleryProps {
   gallery: GalleryItem[];
   onImageSelect: (item: GalleryItem) => void;
+  /** Applies an organization change to each item's lineage. */
+  onOrganizeItems: (items: GalleryItem[], update: (organization: GalleryOrganization) => GalleryOrganization) => void;
+  /** Moves each item's lineage to the trash. */
+  onDeleteItems: (items: GalleryItem[]) => void;
+  /** How many images are in the trash. */
+  trashCount: number;
+  onOpenTrash: () => void;
+  storageUsage: StorageUsage | null;
+  /** The part of the storage used by this gallery's project. */
+  projectUsage: ProjectStorageUsage | null;
+  storageNotice: string | null;
+  onDismissStorageNotice: () => void;
 }
 
-const Gallery: React.FC<GalleryProps> = ({ gallery, onImageSelect }) => {
+const StorageMeter: React.FC<{ usage: StorageUsage; projectUsage: ProjectStorageUsage }> = ({ usage, projectUsage }) => {
+  const percent = usage.usage !== undefined && usage.quota ? Math.min(100, (usage.usage / usage.quota) * 100) : null;
+  const details = [
+    projectUsage.trashBytes > 0 && `${formatBytes(projectUsage.trashBytes)} in the trash`,
+    usage.galleryBytes > projectUsage.galleryBytes && `${formatBytes(usage.galleryBytes)} across all projects`,
+  ].filter(Boolean);
+  return (
+    <div
+      className="ml-auto flex items-center gap-2 text-xs text-gray-400"
+      title={percent !== null ? `${formatBytes(usage.usage!)} of ${formatBytes(usage.quota!)} browser storage used` : undefined}
+    >
+      <span title={details.length > 0 ? details.join(', ') : undefined}>{formatBytes(projectUsage.galleryBytes)}</span>
+      {percent !== null && (
+        <div className="w-20 h-1.5 bg-gray-700 rounded-full overflow-hidden">
+          <div
+            className={`h-full ${percent > 90 ? 'bg-red-500' : percent > 70 ? 'bg-yellow-400' : 'bg-blue-500'}`}
+            style={{ width: `${Math.max(percent, 1)}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Splits the gallery into groups of items that came from the same job, placed where the group's
+ * newest item appears and ordered by variant. Ungrouped items stand alone.
+ */
+const groupVariants = (items: GalleryItem[]): GalleryItem[][] => {
+  const groups: GalleryItem[][] = [];
+  const byGroupId = new Map<string, GalleryItem[]>();
+  for (const item of items) {
+    const existing = item.groupId ? byGroupId.get(item.groupId) : undefined;
+    if (existing) {
+      existing.push(item);
+    } else {
+      const group = [item];
+      groups.push(group);
+      if (item.groupId) byGroupId.set(item.groupId, group);
+    }
+  }
+  for (const group of groups) {
+    group.sort((a, b) => (a.variantIndex ?? 0) - (b.variantIndex ?? 0));
+  }
+  return groups;
+};
+
+/** Tiles shrink to this size before a column is dropped. */
+const MIN_TILE_SIZE = 140;
+const MIN_COLUMNS = 2;
+const GAP = 16;
+/** Rows rendered beyond each edge of the viewport, so fast scrolling doesn't show blanks. */
+const OVERSCAN_ROWS = 2;
+
+interface GalleryTileProps {
+  item: GalleryItem;
+  versionCount: number;
+  isSelecting: boolean;
+  isSelected: boolean;
+  onSelect: (item: GalleryItem) => void;
+  onToggleSelected: (item: GalleryItem) => void;
+}
+
+const GalleryTile: React.FC<GalleryTileProps> = ({ item, versionCount, isSelecting, isSelected, onSelect, onToggleSelected }) => (
+  <div className={`group relative w-full h-full rounded-lg overflow-hidden shadow-lg animate-fade-in ${isSelected ? 'ring-2 ring-blue-500' : ''}`}>
+    <button 
+      className="block w-full h-full focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500"
+      onClick={e => isSelecting || e.metaKey || e.ctrlKey ? onToggleSelected(item) : onSelect(item)}
+    >
+      <img src={item.src} alt={item.prompt} loading="lazy" className="w-full h-full object-cover" />
+      {versionCount > 1 && (
+        <span className="absolute top-1 right-1 bg-black/70 text-gray-200 text-xs font-semibold px-1.5 py-0.5 rounded" title={`${versionCount} versions`}>
+          v{versionCount}
+        </span>
+      )}
+      {(item.favorite || item.rating) && (
+        <span className="absolute bottom-1 left-1 flex items-center gap-1 bg-black/70 text-xs font-semibold px-1.5 py-0.5 rounded">
+          {item.favorite && <HeartIcon className="w-3.5 h-3.5 text-pink-400" filled />}
+          {item.rating && (
+            <span className="flex items-center text-yellow-400" title={`${item.rating} star${item.rating === 1 ? '' : 's'}`}>
+              <StarIcon className="w-3.5 h-3.5" filled />{item.rating}
+            </span>
+          )}
+        </span>
+      )}
+      <div className="absolute inset-0 bg-black/70 opacity-0 group-hover:opacity-100 transition-opacity duration-300 p-2 text-xs text-gray-200 overflow-hidden flex items-end text-left">
+          <p className="line-clamp-4">{item.prompt}</p>
+      </div>
+    </button>
+    <button
+      onClick={() => onToggleSelected(item)}
+      className={`absolute top-1 left-1 rounded-full transition-opacity ${isSelected ? 'text-blue-400 opacity-100' : `text-gray-200 hover:text-white ${isSelecting ? 'opacity-100' : 'opacity-0 group-hover:opacity-100 focus:opacity-100'}`}`}
+      aria-label={isSelected ? 'Deselect image' : 'Select image'}
+      aria-pressed={isSelected}
+    >
+      <CheckCircleIcon className={`w-6 h-6 drop-shadow ${isSelected ? 'fill-gray-900' : 'fill-black/40'}`} />
+    </button>
+  </div>
+);
+
+const Gallery: React.FC<GalleryProps> = ({
+  gallery, onImageSelect, onOrganizeItems, onDeleteItems, trashCount, onOpenTrash, storageUsage, projectUsage, storageNotice, onDismissStorageNotice,
+}) => {
+  const [filters, setFilters] = useState<GalleryFilters>(EMPTY_FILTERS);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<ReadonlySet<string>>(new Set());
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState({ width: 0, height: 0, scrollTop: 0 });
+
+  const currentVersions = useMemo(() => getCurrentVersions(gallery), [gallery]);
+  const filterOptions = useMemo(() => getFilterOptions(currentVersions), [currentVersions]);
+  const visibleItems = useMemo(() => currentVersions.filter(item => matchesFilters(item, filters)), [currentVersions, filters]);
+  const versionCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const item of gallery) {
+      const key = getLineageKey(item);
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    return counts;
+  }, [gallery]);
+  // Only selections the filters still show are acted on
+  const selectedItems = visibleItems.filter(item => selectedIds.has(item.id));
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    // The content box excludes the padding that keeps tiles clear of the scrollbar
+    const observer = new ResizeObserver(([entry]) => setViewport(prev => ({ ...prev, width: entry.contentRect.width, height: entry.contentRect.height })));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const columnCount = Math.max(MIN_COLUMNS, Math.floor((viewport.width + GAP) / (MIN_TILE_SIZE + GAP)));
+  const tileSize = (viewport.width - GAP * (columnCount - 1)) / columnCount;
+  const rowHeight = tileSize + GAP;
+  const groups = useMemo(() => groupVariants(visibleItems), [visibleItems]);
+  const layout = useMemo(
+    () => packGrid(groups.map(group => group.length === 1 ? { columns: 1, rows: 1 } : { columns: 2, rows: Math.ceil(group.length / 2) }), columnCount),
+    [groups, columnCount]
+  );
+  const firstRow = Math.floor(viewport.scrollTop / rowHeight) - OVERSCAN_ROWS;
+  const lastRow = Math.ceil((viewport.scrollTop + viewport.height) / rowHeight) + OVERSCAN_ROWS;
+
+  const toggleSelected = (item: GalleryItem) => {
+    setIsSelecting(true);
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (!next.delete(item.id)) next.add(item.id);
+      return next;
+    });
+  };
+
+  const clearSelection = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  };
+
+  const handleAddTag = (tag: string) => onOrganizeItems(selectedItems, organization => ({
+    ...organization,
+    tags: organization.tags?.includes(tag) ? organization.tags : [...(organization.tags ?? []), tag],
+  }));
+
+  const renderTile = (item: GalleryItem) => (
+    <GalleryTile
+      key={item.id}
+      item={item}
+      versionCount={versionCounts.get(getLineageKey(item)) ?? 1}
+      isSelecting={isSelecting}
+      isSelected={selectedIds.has(item.id)}
+      onSelect={onImageSelect}
+      onToggleSelected={toggleSelected}
+    />
+  );
+
   return (
     <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-2 backdrop-blur-sm h-1/2 overflow-hidden">
       <div className="flex items-center gap-2 mb-2">
         <PhotoIcon className="w-6 h-6 text-gray-400" />
         <h3 className="text-lg font-semibold text-gray-200">Gallery</h3>
+        {currentVersions.length > 0 && !isSelecting && (
+          <button onClick={() => setIsSelecting(true)} className="text-xs text-gray-400 hover:text-white transition-colors">
+            Select
+          </button>
+        )}
+        {storageUsage && projectUsage && <StorageMeter usage={storageUsage} projectUsage={projectUsage} />}
+        <button
+          onClick={onOpenTrash}
+          className={`flex items-center gap-1 text-xs text-gray-400 hover:text-white transition-colors ${storageUsage ? '' : 'ml-auto'}`}
+          title="Trash"
+          aria-label={`Trash, ${trashCount} image${trashCount === 1 ? '' : 's'}`}
+        >
+          <TrashIcon className="w-4 h-4" />
+          {trashCount > 0 && trashCount}
+        </button>
       </div>
-       <div className="flex-grow overflow-y-auto pr-2">
-        {gallery.length === 0 ? (
+      {storageNotice && (
+        <div className="flex items-start gap-2 bg-yellow-900/40 border border-yellow-700 text-yellow-200 text-sm p-2 rounded-lg">
+          <p className="flex-grow">{storageNotice}</p>
+          <button onClick={onDismissStorageNotice} className="text-yellow-300 hover:text-white transition-colors" aria-label="Dismiss">
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+      {currentVersions.length > 0 && (
+        <GalleryFilterBar filters={filters} onFiltersChange={setFilters} options={filterOptions} />
+      )}
+      {isSelecting && (
+        <GalleryBulkBar
+          selectedCount={selectedItems.length}
+          visibleCount={visibleItems.length}
+          onSelectAll={() => setSelectedIds(new Set(visibleItems.map(item => item.id)))}
+          onClearSelection={clearSelection}
+          onAddTag={handleAddTag}
+          onSetFavorite={favorite => onOrganizeItems(selectedItems, organization => ({ ...organization, favorite }))}
+          onExport={() => setIsExportOpen(true)}
+          onDelete={() => onDeleteItems(selectedItems)}
+        />
+      )}
+      {isExportOpen && <ExportDialog items={selectedItems} onClose={() => setIsExportOpen(false)} />}
+       <div
+        ref={scrollRef}
+        className="flex-grow overflow-y-auto pr-2"
+        onScroll={e => setViewport(prev => ({ ...prev, scrollTop: e.currentTarget.scrollTop }))}
+      >
+        {currentVersions.length === 0 ? (
           <div className="flex items-center justify-center h-full">
             <p className="text-gray-400">Your generated images will appear here.</p>
           </div>
-        ) : (
-          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-            {gallery.map(item => (
-              <button 
-                key={item.id} 
-                className="group relative rounded-lg overflow-hidden shadow-lg animate-fade-in block w-full focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-blue-500"
-                onClick={() => onImageSelect(item)}
-              >
-                <img src={item.src} alt={item.prompt} className="w-full h-full object-cover aspect-square" />
-                <div className="absolute inset-0 bg-black/70 opacity-0 group-hover:opacity-100 transition-opacity duration-300 p-2 text-xs text-gray-200 overflow-hidden flex items-end text-left">
-                    <p className="line-clamp-4">{item.prompt}</p>
-                </div>
+        ) : visibleItems.length === 0 ? (
+          <div className="flex flex-col items-center justify-center gap-2 h-full">
+            <p className="text-gray-400">No images match your search.</p>
+            {(filters.query || countActiveFilters(filters) > 0) && (
+              <button onClick={() => setFilters(EMPTY_FILTERS)} className="text-sm text-blue-400 hover:text-blue-300 transition-colors">
+                Clear search and filters
               </button>
-            ))}
+            )}
+          </div>
+        ) : viewport.width > 0 && (
+          // Cells are placed up front so only the rows near the viewport need to be rendered
+          <div className="relative" style={{ height: layout.rowCount * rowHeight - GAP }}>
+            {layout.placements.map((placement, index) => {
+              if (placement.row + placement.rows <= firstRow || placement.row > lastRow) return null;
+              const group = groups[index];
+              const style: React.CSSProperties = {
+                position: 'absolute',
+                top: placement.row * rowHeight,
+                left: placement.column * (tileSize + GAP),
+                width: placement.columns * tileSize + (placement.columns - 1) * GAP,
+                height: placement.rows * tileSize + (placement.rows - 1) * GAP,
+              };
+              return group.length === 1 ? (
+                <div key={group[0].id} style={style}>{renderTile(group[0])}</div>
+              ) : (
+                <div key={group[0].groupId} style={style} className="bg-gray-900/50 rounded-lg p-2 flex flex-col gap-2 animate-fade-in">
+                  <div className="flex-grow min-h-0 grid grid-cols-2 auto-rows-fr gap-2">
+                    {group.map(renderTile)}
+                  </div>
+                  <p className="text-xs text-gray-400 truncate" title={group[0].prompt}>
+                    <span className="font-semibold text-blue-300 mr-2">{group.length} variants</span>
+                    {group[0].prompt}
+                  </p>
+                </div>
+              );
+            })}
           </div>
         )}
       </div>
@@ -44,4 +303,4 @@ const Gallery: React.FC<GalleryProps> = ({ gallery, onImageSelect }) => {
   );
 };
 
-export default Gallery;
\ No newline at end of file
+export default Gallery;
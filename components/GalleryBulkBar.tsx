@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { normalizeTag } from '../utils/galleryFilters';
+import { DownloadIcon, HeartIcon, TagIcon, TrashIcon, XMarkIcon } from './icons';
+
+interface GalleryBulkBarProps {
+  selectedCount: number;
+  /** How many images the current filters show. */
+  visibleCount: number;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onAddTag: (tag: string) => void;
+  onSetFavorite: (favorite: boolean) => void;
+  /** Opens the ZIP export for the selection. */
+  onExport: () => void;
+  onDelete: () => void;
+}
+
+const actionClassName = "flex items-center gap-1 px-2 py-1 rounded-md text-xs font-semibold bg-gray-700/50 hover:bg-gray-700 text-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+/**
+ * Actions for the selected gallery images.
+ */
+const GalleryBulkBar: React.FC<GalleryBulkBarProps> = ({
+  selectedCount, visibleCount, onSelectAll, onClearSelection, onAddTag, onSetFavorite, onExport, onDelete,
+}) => {
+  const [tagDraft, setTagDraft] = useState('');
+  const nothingSelected = selectedCount === 0;
+
+  const handleAddTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    const tag = normalizeTag(tagDraft);
+    if (!tag) return;
+    onAddTag(tag);
+    setTagDraft('');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 bg-blue-900/30 border border-blue-800 rounded-md p-2 animate-fade-in">
+      <span className="text-xs font-semibold text-blue-200">{selectedCount} selected</span>
+      {selectedCount < visibleCount && (
+        <button onClick={onSelectAll} className="text-xs text-blue-300 hover:text-white transition-colors">
+          Select all {visibleCount}
+        </button>
+      )}
+      <div className="flex flex-wrap items-center gap-2 ml-auto">
+        <form onSubmit={handleAddTag} className="flex items-center gap-1">
+          <input
+            type="text"
+            value={tagDraft}
+            onChange={e => setTagDraft(e.target.value)}
+            placeholder="Tag"
+            className="w-24 bg-gray-900 border border-gray-600 text-gray-200 rounded-md px-2 py-1 text-xs focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            aria-label="Tag to add to the selected images"
+          />
+          <button type="submit" disabled={nothingSelected || !normalizeTag(tagDraft)} className={actionClassName}>
+            <TagIcon className="w-4 h-4" />
+            Tag
+          </button>
+        </form>
+        <button onClick={() => onSetFavorite(true)} disabled={nothingSelected} className={actionClassName} title="Add to favorites">
+          <HeartIcon className="w-4 h-4 text-pink-400" filled />
+        </button>
+        <button onClick={() => onSetFavorite(false)} disabled={nothingSelected} className={actionClassName} title="Remove from favorites">
+          <HeartIcon className="w-4 h-4" />
+        </button>
+        <button onClick={onExport} disabled={nothingSelected} className={actionClassName}>
+          <DownloadIcon className="w-4 h-4" />
+          Export
+        </button>
+        <button onClick={onDelete} disabled={nothingSelected} className={`${actionClassName} hover:!bg-red-600`}>
+          <TrashIcon className="w-4 h-4" />
+          Delete
+        </button>
+        <button onClick={onClearSelection} className="p-1 text-gray-400 hover:text-white transition-colors" aria-label="Done selecting" title="Done selecting">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GalleryBulkBar;
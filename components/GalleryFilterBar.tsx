@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { AspectRatio } from '../services/imageProvider';
+import { EMPTY_FILTERS, countActiveFilters, getFilterOptions, type GalleryFilters } from '../utils/galleryFilters';
+import { FunnelIcon, HeartIcon, MagnifyingGlassIcon, XMarkIcon } from './icons';
+
+interface GalleryFilterBarProps {
+  filters: GalleryFilters;
+  onFiltersChange: (filters: GalleryFilters) => void;
+  options: ReturnType<typeof getFilterOptions>;
+}
+
+const selectClassName = "bg-gray-900 border border-gray-600 text-gray-200 rounded-md px-2 py-1 text-xs focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+/**
+ * Search box for the gallery, with a collapsible panel of filters.
+ */
+const GalleryFilterBar: React.FC<GalleryFilterBarProps> = ({ filters, onFiltersChange, options }) => {
+  const [showFilters, setShowFilters] = useState(false);
+  const activeCount = countActiveFilters(filters);
+  const update = (changes: Partial<GalleryFilters>) => onFiltersChange({ ...filters, ...changes });
+  const toggleTag = (tag: string) => update({
+    tags: filters.tags.includes(tag) ? filters.tags.filter(t => t !== tag) : [...filters.tags, tag],
+  });
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-grow">
+          <MagnifyingGlassIcon className="w-4 h-4 text-gray-500 absolute left-2 top-1/2 -translate-y-1/2 pointer-events-none" />
+          <input
+            type="search"
+            value={filters.query}
+            onChange={e => update({ query: e.target.value })}
+            placeholder="Search prompts and tags"
+            className="w-full bg-gray-900 border border-gray-600 text-gray-200 rounded-md pl-8 pr-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            aria-label="Search gallery"
+          />
+        </div>
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          aria-expanded={showFilters}
+          className={`flex items-center gap-1 px-2 py-1 rounded-md text-xs font-semibold transition-colors ${showFilters || activeCount > 0 ? 'bg-blue-600 text-white' : 'bg-gray-700/50 hover:bg-gray-700 text-gray-300'}`}
+        >
+          <FunnelIcon className="w-4 h-4" />
+          Filters{activeCount > 0 && ` (${activeCount})`}
+        </button>
+        <button
+          onClick={() => update({ favoritesOnly: !filters.favoritesOnly })}
+          aria-pressed={filters.favoritesOnly}
+          title={filters.favoritesOnly ? 'Show all images' : 'Show favorites only'}
+          className={`p-1 rounded-md transition-colors ${filters.favoritesOnly ? 'text-pink-400' : 'text-gray-400 hover:text-gray-200'}`}
+        >
+          <HeartIcon className="w-5 h-5" filled={filters.favoritesOnly} />
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="flex flex-col gap-2 bg-gray-900/50 p-2 rounded-md animate-fade-in">
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+            <label className="flex items-center gap-1">
+              From
+              <input type="date" value={filters.from} max={filters.to || undefined} onChange={e => update({ from: e.target.value })} className={selectClassName} />
+            </label>
+            <label className="flex items-center gap-1">
+              To
+              <input type="date" value={filters.to} min={filters.from || undefined} onChange={e => update({ to: e.target.value })} className={selectClassName} />
+            </label>
+            <select value={filters.aspectRatio} onChange={e => update({ aspectRatio: e.target.value as AspectRatio | '' })} className={selectClassName} aria-label="Aspect ratio">
+              <option value="">Any aspect ratio</option>
+              {options.aspectRatios.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+            </select>
+            <select value={filters.model} onChange={e => update({ model: e.target.value })} className={selectClassName} aria-label="Model">
+              <option value="">Any model</option>
+              {options.models.map(model => <option key={model} value={model}>{model}</option>)}
+            </select>
+            {options.templates.length > 0 && (
+              <select value={filters.template} onChange={e => update({ template: e.target.value })} className={selectClassName} aria-label="Template">
+                <option value="">Any template</option>
+                {options.templates.map(template => <option key={template} value={template}>{template}</option>)}
+              </select>
+            )}
+            <select value={filters.minRating} onChange={e => update({ minRating: Number(e.target.value) })} className={selectClassName} aria-label="Minimum rating">
+              <option value={0}>Any rating</option>
+              {[1, 2, 3, 4, 5].map(rating => <option key={rating} value={rating}>{'★'.repeat(rating)}{rating < 5 && ' & up'}</option>)}
+            </select>
+          </div>
+          {options.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1.5" aria-label="Tags">
+              {options.tags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => toggleTag(tag)}
+                  aria-pressed={filters.tags.includes(tag)}
+                  className={`text-xs px-2 py-0.5 rounded-full transition-colors ${filters.tags.includes(tag) ? 'bg-blue-600 text-white' : 'bg-gray-700/60 text-gray-300 hover:bg-gray-700'}`}
+                >
+                  {tag}
+                </button>
+              ))}
+            </div>
+          )}
+          {activeCount > 0 && (
+            <button
+              onClick={() => onFiltersChange({ ...EMPTY_FILTERS, query: filters.query })}
+              className="self-start flex items-center gap-1 text-xs text-gray-400 hover:text-white transition-colors"
+            >
+              <XMarkIcon className="w-3 h-3" />
+              Clear filters
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GalleryFilterBar;
@@ -2,14 +2,41 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState } from 'react';
-import type { AspectRatio } from '../services/geminiService';
-import { SparklesIcon } from './icons';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { GenerationSettings, ProjectDefaults, PromptInsertion, PromptTemplate, RemixRequest, StyleCategory, StylePreset, TemplateUsage } from '../App';
+import { enhancePrompt, type AspectRatio } from '../services/geminiService';
+import { MAX_SEED, MAX_VARIANTS, getActiveProvider, subscribeToProvider } from '../services/imageProvider';
+import { fillTemplate, getTemplateVariables, resolveBatchInput, type BatchInput } from '../utils/templateUtils';
+import { STYLE_CATEGORIES } from '../utils/styleUtils';
+import { getWordOverlap } from '../utils/textDiff';
+import BatchEditor from './BatchEditor';
+import PromptEnhancer from './PromptEnhancer';
+import TemplatePicker from './TemplatePicker';
+import { SparklesIcon, ArrowPathIcon } from './icons';
 
 interface GenerationPanelProps {
-  onAddToQueue: (prompt: string, aspectRatio: AspectRatio) => Promise<void>;
+  /** Queues a job. originalPrompt is what the user wrote, when the prompt is an enhanced version of it. */
+  onAddToQueue: (prompt: string, aspectRatio: AspectRatio, settings: GenerationSettings, originalPrompt?: string) => Promise<void>;
+  /** Queues one job per prompt expanded from a template. */
+  onAddBatchToQueue: (prompts: { prompt: string; template: TemplateUsage; originalPrompt?: string }[], aspectRatio: AspectRatio, settings: GenerationSettings) => Promise<void>;
+  templates: PromptTemplate[];
+  onSaveTemplate: (template: PromptTemplate) => void;
+  onDeleteTemplate: (id: string) => void;
+  stylePresets: StylePreset[];
+  onManageStyles: () => void;
   isQueueProcessing: boolean;
   hasReferenceImages: boolean;
+  /** When this changes, the form is repopulated from it. */
+  remixRequest?: RemixRequest | null;
+  /** Called once the remix request has been applied, so it is not applied again when the panel remounts. */
+  onRemixApplied: () => void;
+  /** When this changes, its text replaces the prompt or is added to it. */
+  promptInsertion?: PromptInsertion | null;
+  /** Called once the insertion has been applied, so it is not applied again when the panel remounts. */
+  onPromptInsertionApplied: () => void;
+  /** The open project's defaults. When they change, the settings (but not the prompt) are reset to them. */
+  defaults?: ProjectDefaults;
+  onSaveDefaults: (defaults: ProjectDefaults) => void;
 }
 
 const aspectRatios: { name: string; value: AspectRatio }[] = [
@@ -20,18 +47,229 @@ const aspectRatios: { name: string; value: AspectRatio }[] = [
   { name: 'Tall (3:4)', value: '3:4' },
 ];
 
-const GenerationPanel: React.FC<GenerationPanelProps> = ({ onAddToQueue, isQueueProcessing, hasReferenceImages }) => {
+const EMPTY_BATCH_INPUT: BatchInput = { mode: 'lists', lists: {}, csv: '' };
+
+/** Share of an accepted rewrite's words an edited prompt must keep to still count as enhanced from the user's idea. */
+const MIN_ENHANCED_OVERLAP = 0.5;
+
+/** How many rewrites "More alternatives" asks for. */
+const ALTERNATIVES_PER_REQUEST = 3;
+
+/** What a project without saved defaults starts from. */
+const INITIAL_DEFAULTS: ProjectDefaults = { aspectRatio: '1:1', variants: 1 };
+
+const GenerationPanel: React.FC<GenerationPanelProps> = ({
+  onAddToQueue,
+  onAddBatchToQueue,
+  templates,
+  onSaveTemplate,
+  onDeleteTemplate,
+  stylePresets,
+  onManageStyles,
+  isQueueProcessing,
+  hasReferenceImages,
+  remixRequest,
+  onRemixApplied,
+  promptInsertion,
+  onPromptInsertionApplied,
+  defaults = INITIAL_DEFAULTS,
+  onSaveDefaults,
+}) => {
   const [prompt, setPrompt] = useState('');
+  const [activeTemplateId, setActiveTemplateId] = useState<string | null>(null);
+  const [batchInput, setBatchInput] = useState<BatchInput>(EMPTY_BATCH_INPUT);
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>('1:1');
+  const [variants, setVariants] = useState(1);
+  const [seed, setSeed] = useState('');
+  const [negativePrompt, setNegativePrompt] = useState('');
+  const [styleId, setStyleId] = useState('');
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [provider, setProvider] = useState(getActiveProvider);
   const [isAdding, setIsAdding] = useState(false);
+  // The user's own prompt, once they have accepted an enhanced version of it
+  const [originalPrompt, setOriginalPrompt] = useState<string | null>(null);
+  // The rewrite that was accepted; edits that move too far from it drop the link to the original
+  const [acceptedPrompt, setAcceptedPrompt] = useState<string | null>(null);
+  const [enhancement, setEnhancement] = useState<{ original: string; suggestions: string[] } | null>(null);
+  const [isEnhancing, setIsEnhancing] = useState(false);
+  const [enhanceError, setEnhanceError] = useState<string | null>(null);
+  const enhanceControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => subscribeToProvider(setProvider), []);
+
+  useEffect(() => () => enhanceControllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    setAspectRatio(defaults.aspectRatio);
+    setVariants(defaults.variants);
+    setNegativePrompt(defaults.negativePrompt ?? '');
+    setStyleId(defaults.styleId ?? '');
+  }, [defaults]);
+
+  useEffect(() => {
+    if (!remixRequest) return;
+    const { settings, template } = remixRequest;
+    discardEnhancement();
+    if (template) {
+      setPrompt(template.text);
+      setActiveTemplateId(template.templateId ?? null);
+      setBatchInput({ mode: 'lists', lists: template.values, csv: '' });
+      setOriginalPrompt(null);
+    } else {
+      setPrompt(remixRequest.prompt);
+      setActiveTemplateId(null);
+      setOriginalPrompt(remixRequest.originalPrompt ?? null);
+      setAcceptedPrompt(remixRequest.prompt);
+    }
+    setAspectRatio(remixRequest.aspectRatio);
+    setVariants(settings.variants);
+    setSeed(settings.seed !== undefined ? String(settings.seed) : '');
+    setNegativePrompt(settings.negativePrompt ?? '');
+    setStyleId(settings.styleId ?? '');
+    setShowAdvanced(settings.seed !== undefined || !!settings.negativePrompt);
+    onRemixApplied();
+  }, [remixRequest]);
+
+  useEffect(() => {
+    if (!promptInsertion) return;
+    const { text, mode } = promptInsertion;
+    discardEnhancement();
+    if (mode === 'replace') {
+      setPrompt(text);
+      setOriginalPrompt(null);
+    } else {
+      setPrompt(prev => prev.trim() ? `${prev.trim().replace(/[.,;]+$/, '')}, ${text}` : text);
+    }
+    onPromptInsertionApplied();
+  }, [promptInsertion]);
+
+  const style = stylePresets.find(preset => preset.id === styleId);
+  // A style's reference image turns a text-only request into one with references
+  const usesReferences = hasReferenceImages || !!style?.referenceImage;
+  const capabilities = provider.capabilities[usesReferences ? 'edit' : 'generate'];
+  // The loaded template stays active only while the prompt still matches it
+  const activeTemplate = templates.find(template => template.id === activeTemplateId && template.text === prompt) ?? null;
+  // A prompt with {placeholders} is a template and is queued as a batch
+  const variables = useMemo(() => getTemplateVariables(prompt), [prompt]);
+  const batch = useMemo(
+    () => variables.length > 0 ? resolveBatchInput(variables, batchInput) : null,
+    [variables, batchInput]
+  );
+  const batchPrompts = useMemo(
+    () => batch?.valueSets.map(values => fillTemplate(prompt, values)) ?? [],
+    [batch, prompt]
+  );
+  const seedValue = seed.trim() ? Number(seed) : undefined;
+  const seedError = seedValue !== undefined && !(Number.isInteger(seedValue) && seedValue >= 0 && seedValue <= MAX_SEED)
+    ? `Seed must be a whole number from 0 to ${MAX_SEED}.`
+    : null;
+  const canSubmit = prompt.trim() && !isAdding && !batch?.error && !seedError;
+  // Stays open while the seed is invalid, so the reason queueing is blocked can be seen
+  const isAdvancedOpen = showAdvanced || !!seedError;
+  const currentDefaults: ProjectDefaults = {
+    aspectRatio,
+    variants,
+    negativePrompt: negativePrompt.trim() || undefined,
+    styleId: style?.id,
+  };
+  const matchesDefaults = (Object.keys(currentDefaults) as (keyof ProjectDefaults)[])
+    .every(key => currentDefaults[key] === defaults[key]);
+
+  const handleLoadTemplate = (template: PromptTemplate) => {
+    setPrompt(template.text);
+    setActiveTemplateId(template.id);
+    setOriginalPrompt(null);
+  };
+
+  const handlePromptChange = (value: string) => {
+    setPrompt(value);
+    if (!value.trim() || (acceptedPrompt !== null && getWordOverlap(acceptedPrompt, value) < MIN_ENHANCED_OVERLAP)) {
+      setOriginalPrompt(null);
+    }
+  };
+
+  // Asks for rewrites of a prompt; further requests for the same prompt add alternatives
+  const requestEnhancements = async (original: string, count: number) => {
+    enhanceControllerRef.current?.abort();
+    const controller = new AbortController();
+    enhanceControllerRef.current = controller;
+    setIsEnhancing(true);
+    setEnhanceError(null);
+    setEnhancement(prev => prev?.original === original ? prev : { original, suggestions: [] });
+    try {
+      const { prompts } = await enhancePrompt(original, {
+        alternatives: count,
+        aspectRatio,
+        hasReferenceImages: usesReferences,
+        signal: controller.signal,
+      });
+      setEnhancement(prev => prev?.original === original
+        ? { original, suggestions: [...prev.suggestions, ...prompts.filter(p => !prev.suggestions.includes(p))] }
+        : prev);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("Failed to enhance prompt", error);
+      setEnhanceError(error instanceof Error ? error.message : 'Prompt enhancement failed.');
+    } finally {
+      if (enhanceControllerRef.current === controller) {
+        enhanceControllerRef.current = null;
+        setIsEnhancing(false);
+      }
+    }
+  };
+
+  const discardEnhancement = () => {
+    enhanceControllerRef.current?.abort();
+    enhanceControllerRef.current = null;
+    setIsEnhancing(false);
+    setEnhanceError(null);
+    setEnhancement(null);
+  };
+
+  const handleAcceptEnhancement = (enhanced: string) => {
+    if (!enhancement) return;
+    // Enhancing an enhanced prompt still traces back to what the user first wrote
+    setOriginalPrompt(prev => prev ?? enhancement.original);
+    setAcceptedPrompt(enhanced);
+    setPrompt(enhanced);
+    discardEnhancement();
+  };
+
+  const handleRevertEnhancement = () => {
+    if (originalPrompt === null) return;
+    setPrompt(originalPrompt);
+    setOriginalPrompt(null);
+  };
+
+  const handleSaveTemplate = (template: PromptTemplate) => {
+    onSaveTemplate(template);
+    setActiveTemplateId(template.id);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (prompt.trim() && !isAdding) {
+    if (canSubmit) {
       setIsAdding(true);
+      const settings = {
+        variants,
+        seed: seedValue,
+        negativePrompt: negativePrompt.trim() || undefined,
+        styleId: style?.id,
+      };
       try {
-        await onAddToQueue(prompt, aspectRatio);
-        setPrompt('');
+        if (batch) {
+          await onAddBatchToQueue(batch.valueSets.map((values, index) => ({
+            prompt: batchPrompts[index],
+            template: { templateId: activeTemplate?.id, name: activeTemplate?.name, text: prompt, values },
+            originalPrompt: originalPrompt !== null ? fillTemplate(originalPrompt, values) : undefined,
+          })), aspectRatio, settings);
+          // Keep the template and its values so the batch can be tweaked and queued again
+        } else {
+          await onAddToQueue(prompt, aspectRatio, settings, originalPrompt ?? undefined);
+          setPrompt('');
+          setOriginalPrompt(null);
+          discardEnhancement();
+        }
       } catch (error) {
         console.error("Error adding to queue:", error);
       } finally {
@@ -42,11 +280,30 @@ const GenerationPanel: React.FC<GenerationPanelProps> = ({ onAddToQueue, isQueue
 
   return (
     <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 backdrop-blur-sm">
-      <h3 className="text-lg font-semibold text-gray-200">Generation</h3>
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-200">Generation</h3>
+        <button
+          type="button"
+          onClick={() => onSaveDefaults(currentDefaults)}
+          disabled={matchesDefaults}
+          className="text-xs text-blue-300 hover:text-blue-200 transition-colors disabled:text-gray-500 disabled:cursor-default"
+          title="New prompts in this project start with the current style, aspect ratio, variants and negative prompt"
+        >
+          {matchesDefaults ? 'Project defaults' : 'Save as project defaults'}
+        </button>
+      </div>
       <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+        <TemplatePicker
+          templates={templates}
+          activeTemplate={activeTemplate}
+          text={prompt}
+          onLoad={handleLoadTemplate}
+          onSave={handleSaveTemplate}
+          onDelete={onDeleteTemplate}
+        />
         <textarea
           value={prompt}
-          onChange={(e) => setPrompt(e.target.value)}
+          onChange={(e) => handlePromptChange(e.target.value)}
           placeholder={
             hasReferenceImages
               ? "Describe what to do with the reference images... (e.g., 'place the character from image 1 in the background of image 2')"
@@ -55,6 +312,91 @@ const GenerationPanel: React.FC<GenerationPanelProps> = ({ onAddToQueue, isQueue
           rows={5}
           className="bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-3 text-base focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full resize-none"
         />
+        <div className="flex items-center gap-2 -mt-2">
+          {originalPrompt !== null && (
+            <p className="text-xs text-gray-400 truncate" title={originalPrompt}>
+              Enhanced from: {originalPrompt}
+            </p>
+          )}
+          {originalPrompt !== null && (
+            <button type="button" onClick={handleRevertEnhancement} className="text-xs text-blue-300 hover:text-blue-200 transition-colors whitespace-nowrap">
+              Revert
+            </button>
+          )}
+          {originalPrompt !== null && (
+            <button
+              type="button"
+              onClick={() => setOriginalPrompt(null)}
+              className="text-xs text-gray-400 hover:text-gray-200 transition-colors whitespace-nowrap"
+              title="Queue this prompt as your own, without the link to your original idea"
+            >
+              Detach
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => requestEnhancements(prompt.trim(), 1)}
+            disabled={!prompt.trim() || isEnhancing}
+            className="ml-auto flex items-center gap-1 text-xs font-semibold text-purple-300 hover:text-purple-200 transition-colors whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Expand the prompt with subject, lighting, lens and composition details"
+          >
+            <SparklesIcon className="w-4 h-4" />
+            Enhance prompt
+          </button>
+        </div>
+        {enhancement && (
+          <PromptEnhancer
+            original={enhancement.original}
+            suggestions={enhancement.suggestions}
+            isLoading={isEnhancing}
+            error={enhanceError}
+            onAccept={handleAcceptEnhancement}
+            onRequestAlternatives={() => requestEnhancements(enhancement.original, ALTERNATIVES_PER_REQUEST)}
+            onDiscard={discardEnhancement}
+          />
+        )}
+        {variables.length > 0 ? (
+          <BatchEditor
+            variables={variables}
+            input={batchInput}
+            onInputChange={setBatchInput}
+            prompts={batchPrompts}
+            error={batch?.error}
+          />
+        ) : (
+          <p className="text-xs text-gray-500 -mt-2">Use {'{placeholders}'} to turn the prompt into a template and queue a batch.</p>
+        )}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label htmlFor="generation-style" className="text-sm font-medium text-gray-300">Style</label>
+            <button type="button" onClick={onManageStyles} className="text-xs text-blue-300 hover:text-blue-200 transition-colors">
+              Manage presets
+            </button>
+          </div>
+          <select
+            id="generation-style"
+            value={style ? styleId : ''}
+            onChange={(e) => setStyleId(e.target.value)}
+            className="w-full bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none transition"
+          >
+            <option value="">None</option>
+            {(Object.keys(STYLE_CATEGORIES) as StyleCategory[]).map(category => {
+              const inCategory = stylePresets.filter(preset => preset.category === category);
+              return inCategory.length > 0 && (
+                <optgroup key={category} label={STYLE_CATEGORIES[category]}>
+                  {inCategory.map(preset => (
+                    <option key={preset.id} value={preset.id}>{preset.name}{preset.referenceImage ? ' (with reference)' : ''}</option>
+                  ))}
+                </optgroup>
+              );
+            })}
+          </select>
+          {style?.prompt && (
+            <p className="text-xs text-gray-500 mt-1 truncate" title={style.prompt}>
+              {style.placement === 'prefix' ? 'Before' : 'After'} your prompt: {style.prompt}
+            </p>
+          )}
+        </div>
         <div>
           <label className="block text-sm font-medium text-gray-300 mb-2">Aspect Ratio</label>
           <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
@@ -74,17 +416,97 @@ const GenerationPanel: React.FC<GenerationPanelProps> = ({ onAddToQueue, isQueue
             ))}
           </div>
         </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Variants</label>
+          <div className="grid grid-cols-4 gap-2">
+            {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(count => (
+              <button
+                type="button"
+                key={count}
+                onClick={() => setVariants(count)}
+                className={`w-full text-center text-sm font-semibold py-2 px-2 rounded-md transition-all duration-200 ${
+                  variants === count
+                    ? 'bg-blue-600 text-white ring-2 ring-offset-2 ring-offset-gray-800 ring-blue-500'
+                    : 'bg-gray-700/50 hover:bg-gray-700 text-gray-300'
+                }`}
+              >
+                {count}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <button
+            type="button"
+            onClick={() => setShowAdvanced(prev => !prev)}
+            className="text-sm font-medium text-gray-400 hover:text-gray-200 transition-colors"
+            aria-expanded={isAdvancedOpen}
+          >
+            {isAdvancedOpen ? '▾' : '▸'} Advanced
+          </button>
+          {isAdvancedOpen && (
+            <div className="flex flex-col gap-3 mt-2 animate-fade-in">
+              <div>
+                <label htmlFor="generation-seed" className="block text-sm font-medium text-gray-300 mb-1">Seed</label>
+                <div className="flex gap-2">
+                  <input
+                    id="generation-seed"
+                    type="number"
+                    min={0}
+                    max={MAX_SEED}
+                    step={1}
+                    value={seed}
+                    onChange={(e) => setSeed(e.target.value)}
+                    placeholder="Random"
+                    className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none transition"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setSeed(String(Math.floor(Math.random() * (MAX_SEED + 1))))}
+                    className="bg-gray-700/50 hover:bg-gray-700 text-gray-300 rounded-lg px-3 transition-colors"
+                    aria-label="Pick a random seed"
+                    title="Pick a random seed"
+                  >
+                    <ArrowPathIcon className="w-4 h-4" />
+                  </button>
+                </div>
+                {seedError && <p className="text-xs text-red-400 mt-1">{seedError}</p>}
+                {!capabilities.seed && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {provider.name} ignores seeds {usesReferences ? 'with reference images' : 'without reference images'}.
+                  </p>
+                )}
+              </div>
+              <div>
+                <label htmlFor="generation-negative" className="block text-sm font-medium text-gray-300 mb-1">Negative prompt</label>
+                <input
+                  id="generation-negative"
+                  type="text"
+                  value={negativePrompt}
+                  onChange={(e) => setNegativePrompt(e.target.value)}
+                  placeholder="e.g., text, watermark, blurry"
+                  className="w-full bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none transition"
+                />
+                {!capabilities.negativePrompt && (
+                  <p className="text-xs text-gray-500 mt-1">{provider.name} ignores negative prompts for this request.</p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
         <button
           type="submit"
-          disabled={!prompt.trim() || isAdding}
+          disabled={!canSubmit}
           className="flex items-center justify-center w-full bg-gradient-to-br from-blue-600 to-cyan-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 disabled:from-gray-600 disabled:to-gray-500 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
         >
           <SparklesIcon className={`w-5 h-5 mr-2 ${isAdding ? 'animate-spin' : ''}`}/>
           {isAdding 
               ? 'Sending to Gemini...' 
-              : hasReferenceImages 
-                  ? 'Generate with References'
-                  : 'Add to Queue'
+              : batch && !batch.error
+                  ? `Add ${batchPrompts.length} Job${batchPrompts.length === 1 ? '' : 's'} to Queue`
+                  : usesReferences 
+                      ? 'Generate with References'
+                      : 'Add to Queue'
           }
         </button>
       </form>
@@ -2,15 +2,37 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
-import { SparklesIcon } from './icons';
+import React, { useEffect, useState } from 'react';
+import type { Project } from '../App';
+import ProjectSwitcher from './ProjectSwitcher';
+import { MagicWandIcon, SparklesIcon } from './icons';
+import { getActiveProvider, listProviders, setActiveProvider, subscribeToProvider, type ProviderId } from '../services/imageProvider';
+import type { SchedulerStatus } from '../services/queueScheduler';
 
 interface HeaderProps {
     queueSize: number;
-    isProcessing: boolean;
+    schedulerStatus: SchedulerStatus;
+    isEditorOpen: boolean;
+    onOpenEditor: () => void;
+    projects: Project[];
+    activeProjectId: string;
+    projectStats: Record<string, { imageCount: number; bytes?: number }>;
+    onSwitchProject: (id: string) => void;
+    onCreateProject: (name: string) => void;
+    onRenameProject: (id: string, name: string) => void;
+    onDeleteProject: (id: string) => void;
+    onOpenProject: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ queueSize, isProcessing }) => {
+const Header: React.FC<HeaderProps> = ({
+  queueSize, schedulerStatus, isEditorOpen, onOpenEditor,
+  projects, activeProjectId, projectStats, onSwitchProject, onCreateProject, onRenameProject, onDeleteProject, onOpenProject,
+}) => {
+  const isProcessing = schedulerStatus.activeJobs > 0;
+  const [providerId, setProviderId] = useState<ProviderId>(() => getActiveProvider().id);
+
+  useEffect(() => subscribeToProvider(provider => setProviderId(provider.id)), []);
+
   return (
     <header className="w-full py-3 px-6 border-b border-gray-700 bg-gray-800/50 backdrop-blur-sm sticky top-0 z-50 flex items-center justify-between">
       <div className="flex items-center gap-3">
@@ -20,12 +42,41 @@ const Header: React.FC<HeaderProps> = ({ queueSize, isProcessing }) => {
           </h1>
       </div>
       <div className="flex items-center gap-4 text-sm">
+        <ProjectSwitcher
+          projects={projects}
+          activeProjectId={activeProjectId}
+          stats={projectStats}
+          onSwitch={onSwitchProject}
+          onCreate={onCreateProject}
+          onRename={onRenameProject}
+          onDelete={onDeleteProject}
+          onOpenBundle={onOpenProject}
+        />
+        {!isEditorOpen && (
+            <button
+              onClick={onOpenEditor}
+              className="flex items-center gap-2 bg-white/10 hover:bg-white/20 text-gray-200 font-semibold px-3 py-1 rounded-md transition-colors"
+            >
+              <MagicWandIcon className="w-4 h-4" />
+              Photo Editor
+            </button>
+        )}
         <div className="flex items-center gap-2">
             <span className="relative flex h-3 w-3">
-              <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-green-400 opacity-75"></span>
-              <span className="relative inline-flex rounded-full h-3 w-3 bg-green-500"></span>
+              <span className={`animate-ping absolute inline-flex h-full w-full rounded-full opacity-75 ${providerId === 'mock' ? 'bg-purple-400' : 'bg-green-400'}`}></span>
+              <span className={`relative inline-flex rounded-full h-3 w-3 ${providerId === 'mock' ? 'bg-purple-500' : 'bg-green-500'}`}></span>
             </span>
-            <span className="text-gray-300">API: Ready</span>
+            <label htmlFor="provider-select" className="text-gray-300">Provider:</label>
+            <select
+              id="provider-select"
+              value={providerId}
+              onChange={(e) => setActiveProvider(e.target.value as ProviderId)}
+              className="bg-gray-800 border border-gray-600 text-gray-200 rounded-md px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            >
+              {listProviders().map(provider => (
+                <option key={provider.id} value={provider.id}>{provider.name}</option>
+              ))}
+            </select>
         </div>
          <div className="flex items-center gap-2">
             <span className={`relative flex h-3 w-3 ${isProcessing ? 'animate-pulse' : ''}`}>
@@ -33,6 +84,18 @@ const Header: React.FC<HeaderProps> = ({ queueSize, isProcessing }) => {
             </span>
             <span className="text-gray-300">Queue: {queueSize}</span>
         </div>
+        <div className="text-gray-300">
+            Workers: {schedulerStatus.activeJobs}/{schedulerStatus.concurrency}
+            {schedulerStatus.paused && <span className="text-green-300"> (paused)</span>}
+        </div>
+        {schedulerStatus.rateLimitedUntil && (
+            <div
+              className="text-orange-300 bg-orange-900/40 px-2 py-1 rounded-md"
+              title={`The requests-per-minute limit is reached. Jobs resume at ${new Date(schedulerStatus.rateLimitedUntil).toLocaleTimeString()}.`}
+            >
+              Rate limited
+            </div>
+        )}
       </div>
     </header>
   );
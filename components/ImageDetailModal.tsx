@@ -3,21 +3,71 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useEffect, useRef, useState } from 'react';
-import type { GalleryItem } from '../App';
-import { DownloadIcon, XMarkIcon, ArrowsPointingOutIcon } from './icons';
+import type { Derivation, GalleryItem, GalleryOrganization } from '../App';
+import { DownloadIcon, XMarkIcon, ArrowsPointingOutIcon, ArrowPathIcon, MagicWandIcon, CommandLineIcon, HeartIcon, TrashIcon, EyeIcon } from './icons';
 import { upscaleImage } from '../services/geminiService';
+import { REFERENCE_ROLES, getProvider } from '../services/imageProvider';
+import { formatDuration } from '../utils/formatUtils';
+import { IMAGE_FORMATS, dataUrlToBlob, processImage, type ImageFormat } from '../utils/imageUtils';
+import { downloadBlob } from '../utils/fileUtils';
+import { embedImageMetadata } from '../utils/imageMetadata';
+import { formatFilename, getEmbeddedMetadata, loadExportOptions } from '../services/galleryExport';
+import { buildLineageTree, describeVersion, getCreatedAt, getCurrentVersions, getVersions } from '../utils/lineageUtils';
+import { getProductLabel } from '../utils/productUtils';
+import LineageTree from './LineageTree';
 import Spinner from './Spinner';
+import StarRating from './StarRating';
+import TagEditor from './TagEditor';
 
 interface ImageDetailModalProps {
     item: GalleryItem;
+    /** The whole gallery, used to find the item's other versions. */
+    gallery: GalleryItem[];
     onClose: () => void;
-    onUpscale: (itemId: string, newSrc: string) => void;
+    onSelectVersion: (item: GalleryItem) => void;
+    onCreateVersion: (parent: GalleryItem, src: string, derivation: Omit<Derivation, 'createdAt'>) => GalleryItem;
+    onRevertToVersion: (item: GalleryItem) => void;
+    onRemix: (item: GalleryItem) => void;
+    /** Opens the describe dialog, which suggests a prompt that would reproduce the image. */
+    onDescribe: (item: GalleryItem) => void;
+    onEdit: (item: GalleryItem) => void;
+    /** Opens the debug inspector for the provider calls recorded under a trace id. */
+    onInspectCalls: (traceId: string) => void;
+    /** Changes the tags, favorite or rating of the item's lineage. */
+    onOrganize: (update: (organization: GalleryOrganization) => GalleryOrganization) => void;
+    /** Moves the item and its other versions to the trash. */
+    onDelete: (item: GalleryItem) => void;
 }
 
-const ImageDetailModal: React.FC<ImageDetailModalProps> = ({ item, onClose, onUpscale }) => {
+/** Longest-side limits offered for downloads; 0 keeps the original size. */
+const DOWNLOAD_SIZES = [0, 4096, 2048, 1024, 512];
+
+const MetadataRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+    <>
+        <dt className="text-gray-400">{label}</dt>
+        <dd className="text-gray-200 break-words">{children}</dd>
+    </>
+);
+
+const ImageDetailModal: React.FC<ImageDetailModalProps> = ({ item, gallery, onClose, onSelectVersion, onCreateVersion, onRevertToVersion, onRemix, onDescribe, onEdit, onInspectCalls, onOrganize, onDelete }) => {
+    const { metadata } = item;
+    // Versions made locally (crop, transform) have no calls of their own
+    const traceId = item.derivation ? item.derivation.traceId : metadata?.jobId;
     const modalRef = useRef<HTMLDivElement>(null);
     const [isUpscaling, setIsUpscaling] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [compareId, setCompareId] = useState<string | null>(null);
+    const [downloadFormat, setDownloadFormat] = useState<ImageFormat>('image/png');
+    const [downloadQuality, setDownloadQuality] = useState(0.92);
+    const [downloadSize, setDownloadSize] = useState(0);
+    const [isExporting, setIsExporting] = useState(false);
+
+    const versions = getVersions(gallery, item);
+    const current = getCurrentVersions(versions)[0] ?? item;
+    const lineage = versions.length > 1 ? buildLineageTree(gallery, item) : null;
+    const compareItem = versions.find(version => version.id === compareId && version.id !== item.id);
+    const versionNumber = (version: GalleryItem) => versions.indexOf(version) + 1;
+    const tagSuggestions = Array.from(new Set(gallery.flatMap(version => version.tags ?? []))).sort();
 
     useEffect(() => {
         const handleKeyDown = (event: KeyboardEvent) => {
@@ -44,8 +94,9 @@ const ImageDetailModal: React.FC<ImageDetailModalProps> = ({ item, onClose, onUp
         setIsUpscaling(true);
         setError(null);
         try {
-            const upscaledSrc = await upscaleImage(item.src);
-            onUpscale(item.id, upscaledSrc);
+            const traceId = crypto.randomUUID();
+            const result = await upscaleImage(item.src, { traceId });
+            onCreateVersion(item, result.images[0], { operation: 'upscale', provider: result.provider, model: result.model, traceId });
         } catch (e) {
             const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
             setError(`Upscale failed: ${errorMessage}`);
@@ -55,6 +106,29 @@ const ImageDetailModal: React.FC<ImageDetailModalProps> = ({ item, onClose, onUp
         }
     };
 
+    const handleDownloadClick = async () => {
+        setIsExporting(true);
+        setError(null);
+        try {
+            const src = await processImage(
+                item.src,
+                downloadSize ? [{ type: 'fit', maxDimension: downloadSize }] : [],
+                { format: downloadFormat, quality: downloadQuality }
+            );
+            const blob = dataUrlToBlob(src);
+            const data = embedImageMetadata(new Uint8Array(await blob.arrayBuffer()), blob.type, getEmbeddedMetadata(item));
+            const filename = formatFilename(loadExportOptions().filenamePattern, item, 1);
+            // The browser may not encode the requested format, so name the file after what was actually written
+            const extension = blob.type in IMAGE_FORMATS ? IMAGE_FORMATS[blob.type as ImageFormat].extension : 'png';
+            downloadBlob(new Blob([data as BlobPart], { type: blob.type }), `${filename}.${extension}`);
+        } catch (e) {
+            setError('Download failed: the image could not be converted.');
+            console.error("Failed to export image", e);
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
     return (
         <div 
             className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in"
@@ -68,12 +142,50 @@ const ImageDetailModal: React.FC<ImageDetailModalProps> = ({ item, onClose, onUp
                 aria-labelledby="image-modal-title"
                 tabIndex={-1}
             >
-                <div className="relative flex-grow h-1/2 md:h-full md:w-2/3 bg-gray-950 flex items-center justify-center p-2">
-                   <img 
-                     src={item.src} 
-                     alt={item.prompt} 
-                     className="max-w-full max-h-full object-contain"
-                   />
+                <div className="relative flex-grow h-1/2 md:h-full md:w-2/3 bg-gray-950 flex flex-col p-2 gap-2">
+                   {compareItem ? (
+                     <div className="flex-grow min-h-0 grid grid-cols-2 gap-2">
+                       {[compareItem, item].map(version => (
+                         <figure key={version.id} className="min-h-0 flex flex-col items-center justify-center gap-1">
+                           <img src={version.src} alt={describeVersion(version)} className="max-w-full min-h-0 flex-shrink object-contain" />
+                           <figcaption className="text-xs text-gray-400">v{versionNumber(version)} · {describeVersion(version)}</figcaption>
+                         </figure>
+                       ))}
+                     </div>
+                   ) : (
+                     <div className="flex-grow min-h-0 flex items-center justify-center">
+                       <img 
+                         src={item.src} 
+                         alt={item.prompt} 
+                         className="max-w-full max-h-full object-contain"
+                       />
+                     </div>
+                   )}
+                   {versions.length > 1 && (
+                     <ol className="flex-shrink-0 flex gap-2 overflow-x-auto pb-1" aria-label="Version timeline">
+                       {versions.map(version => (
+                         <li key={version.id} className="flex-shrink-0 flex flex-col items-center gap-1">
+                           <button
+                             onClick={() => onSelectVersion(version)}
+                             className={`relative w-16 h-16 rounded-md overflow-hidden ${version.id === item.id ? 'ring-2 ring-blue-500' : 'opacity-70 hover:opacity-100'}`}
+                             title={`${describeVersion(version)} · ${new Date(getCreatedAt(version)).toLocaleString()}`}
+                           >
+                             <img src={version.src} alt={describeVersion(version)} className="w-full h-full object-cover" />
+                             {version.id === current.id && <span className="absolute bottom-0 inset-x-0 bg-green-700/80 text-[10px] text-white text-center">Current</span>}
+                           </button>
+                           <span className="text-xs text-gray-400">v{versionNumber(version)}</span>
+                           {version.id !== item.id && (
+                             <button
+                               onClick={() => setCompareId(compareId === version.id ? null : version.id)}
+                               className={`text-xs ${compareId === version.id ? 'text-blue-300' : 'text-gray-500 hover:text-gray-300'}`}
+                             >
+                               {compareId === version.id ? 'Comparing' : 'Compare'}
+                             </button>
+                           )}
+                         </li>
+                       ))}
+                     </ol>
+                   )}
                    {isUpscaling && (
                         <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center gap-4">
                             <Spinner />
@@ -94,7 +206,111 @@ const ImageDetailModal: React.FC<ImageDetailModalProps> = ({ item, onClose, onUp
                     <div>
                         <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Prompt</h3>
                         <p className="text-base text-gray-300 mt-1 bg-gray-800/50 p-3 rounded-md max-h-80 overflow-y-auto">{item.prompt}</p>
+                        {metadata?.originalPrompt && (
+                            <p className="text-sm text-gray-400 mt-2">
+                                <span className="font-semibold text-purple-300">Enhanced from:</span> {metadata.originalPrompt}
+                            </p>
+                        )}
                     </div>
+
+                    <div className="flex flex-col gap-2 bg-gray-800/50 p-3 rounded-md">
+                        <div className="flex items-center justify-between">
+                            <StarRating rating={item.rating} onChange={rating => onOrganize(organization => ({ ...organization, rating }))} />
+                            <button
+                                onClick={() => onOrganize(organization => ({ ...organization, favorite: !organization.favorite }))}
+                                aria-pressed={!!item.favorite}
+                                className={`flex items-center gap-1 text-sm transition-colors ${item.favorite ? 'text-pink-400' : 'text-gray-400 hover:text-gray-200'}`}
+                            >
+                                <HeartIcon className="w-5 h-5" filled={item.favorite} />
+                                {item.favorite ? 'Favorite' : 'Add to favorites'}
+                            </button>
+                        </div>
+                        <TagEditor
+                            tags={item.tags ?? []}
+                            onChange={tags => onOrganize(organization => ({ ...organization, tags }))}
+                            suggestions={tagSuggestions}
+                        />
+                    </div>
+
+                    {lineage && (
+                        <div>
+                            <div className="flex items-center justify-between">
+                                <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Lineage</h3>
+                                {item.id !== current.id && (
+                                    <button
+                                        onClick={() => onRevertToVersion(item)}
+                                        className="text-xs font-semibold text-blue-300 hover:text-blue-200 transition-colors"
+                                    >
+                                        Make v{versionNumber(item)} current
+                                    </button>
+                                )}
+                            </div>
+                            <ul className="mt-1 bg-gray-800/50 p-2 rounded-md">
+                                <LineageTree node={lineage} selectedId={item.id} currentId={current.id} onSelect={onSelectVersion} />
+                            </ul>
+                        </div>
+                    )}
+
+                    {metadata && (
+                        <div>
+                            <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Settings</h3>
+                            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm mt-1 bg-gray-800/50 p-3 rounded-md">
+                                <MetadataRow label="Model">{metadata.model} ({getProvider(metadata.provider)?.name ?? metadata.provider})</MetadataRow>
+                                <MetadataRow label="Aspect ratio">{metadata.aspectRatio}</MetadataRow>
+                                {metadata.variants > 1 && (
+                                    <MetadataRow label="Variant">{(item.variantIndex ?? 0) + 1} of {metadata.variants}</MetadataRow>
+                                )}
+                                {metadata.seed !== undefined && <MetadataRow label="Seed">{metadata.seed}</MetadataRow>}
+                                {metadata.negativePrompt && <MetadataRow label="Negative">{metadata.negativePrompt}</MetadataRow>}
+                                {metadata.products && (
+                                    <MetadataRow label="Products">{metadata.products.map(getProductLabel).join(', ')}</MetadataRow>
+                                )}
+                                {metadata.characters && (
+                                    <MetadataRow label="Characters">{metadata.characters.map(character => character.name).join(', ')}</MetadataRow>
+                                )}
+                                {metadata.style && <MetadataRow label="Style">{metadata.style.name}</MetadataRow>}
+                                {metadata.template && (
+                                    <MetadataRow label="Template">
+                                        <span title={metadata.template.text}>{metadata.template.name ?? 'Unsaved template'}</span>
+                                        {Object.entries(metadata.template.values).map(([name, value]) => (
+                                            <span key={name} className="block text-xs text-gray-400">{name}: {value}</span>
+                                        ))}
+                                    </MetadataRow>
+                                )}
+                                <MetadataRow label="Created">{new Date(metadata.completedAt).toLocaleString()}</MetadataRow>
+                                {item.derivation && (
+                                    <MetadataRow label="Derived">
+                                        {describeVersion(item)}{item.derivation.model && ` with ${item.derivation.model}`} · {new Date(item.derivation.createdAt).toLocaleString()}
+                                    </MetadataRow>
+                                )}
+                                <MetadataRow label="Duration">{formatDuration(metadata.completedAt - metadata.startedAt)}</MetadataRow>
+                                {metadata.queuedAt !== undefined && (
+                                    <MetadataRow label="Waited">{formatDuration(metadata.startedAt - metadata.queuedAt)} in queue</MetadataRow>
+                                )}
+                            </dl>
+                        </div>
+                    )}
+
+                    {metadata && metadata.referenceImages.length > 0 && (
+                        <div>
+                            <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">References</h3>
+                            <div className="grid grid-cols-4 gap-2 mt-1">
+                                {metadata.referenceImages.map((reference, index) => (
+                                    <figure key={index} className="flex flex-col gap-1">
+                                        <img src={reference.src} alt={`Reference ${index + 1}`} className="w-full aspect-square object-cover rounded-md bg-gray-800" />
+                                        <figcaption className="text-xs text-gray-400 text-center">{index + 1} · {REFERENCE_ROLES[reference.role].label}</figcaption>
+                                    </figure>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {metadata?.modelText && (
+                        <div>
+                            <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Model response</h3>
+                            <p className="text-sm text-gray-300 mt-1 bg-gray-800/50 p-3 rounded-md max-h-40 overflow-y-auto whitespace-pre-wrap">{metadata.modelText}</p>
+                        </div>
+                    )}
                     
                     {error && (
                         <div className="bg-red-900/50 border border-red-700 text-red-300 text-sm p-3 rounded-lg">
@@ -103,6 +319,28 @@ const ImageDetailModal: React.FC<ImageDetailModalProps> = ({ item, onClose, onUp
                     )}
                     
                     <div className="mt-auto pt-4 space-y-3">
+                        <button
+                            onClick={() => onRemix(item)}
+                            className="w-full flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out"
+                        >
+                           <ArrowPathIcon className="w-5 h-5" />
+                           Remix
+                        </button>
+                        <button
+                            onClick={() => onDescribe(item)}
+                            className="w-full flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out"
+                        >
+                           <EyeIcon className="w-5 h-5" />
+                           Describe
+                        </button>
+                        <button
+                            onClick={() => onEdit(item)}
+                            disabled={isUpscaling}
+                            className="w-full flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out disabled:bg-gray-800 disabled:cursor-not-allowed"
+                        >
+                           <MagicWandIcon className="w-5 h-5" />
+                           Edit
+                        </button>
                         <button
                             onClick={handleUpscaleClick}
                             disabled={isUpscaling}
@@ -111,14 +349,68 @@ const ImageDetailModal: React.FC<ImageDetailModalProps> = ({ item, onClose, onUp
                            <ArrowsPointingOutIcon className={`w-5 h-5 ${isUpscaling ? 'animate-pulse' : ''}`}/>
                            {isUpscaling ? 'Upscaling...' : 'Upscale Image (4x)'}
                         </button>
-                        <a
-                            href={item.src}
-                            download={`gemini-studio-pro-${item.id}.png`}
-                            className="w-full flex items-center justify-center gap-2 bg-gradient-to-br from-blue-600 to-cyan-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95"
+                        <div className="flex items-center gap-2 text-sm">
+                            <select
+                                value={downloadFormat}
+                                onChange={e => setDownloadFormat(e.target.value as ImageFormat)}
+                                className="bg-gray-800 border border-gray-600 text-gray-200 rounded-md px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                                aria-label="Download format"
+                            >
+                                {(Object.keys(IMAGE_FORMATS) as ImageFormat[]).map(format => (
+                                    <option key={format} value={format}>{IMAGE_FORMATS[format].label}</option>
+                                ))}
+                            </select>
+                            <select
+                                value={downloadSize}
+                                onChange={e => setDownloadSize(Number(e.target.value))}
+                                className="bg-gray-800 border border-gray-600 text-gray-200 rounded-md px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                                aria-label="Download size"
+                            >
+                                {DOWNLOAD_SIZES.map(size => (
+                                    <option key={size} value={size}>{size ? `Max ${size}px` : 'Original size'}</option>
+                                ))}
+                            </select>
+                            {IMAGE_FORMATS[downloadFormat].lossy && (
+                                <label className="flex items-center gap-2 text-gray-400 flex-grow">
+                                    <input
+                                        type="range"
+                                        min={0.5}
+                                        max={1}
+                                        step={0.01}
+                                        value={downloadQuality}
+                                        onChange={e => setDownloadQuality(Number(e.target.value))}
+                                        className="flex-grow accent-blue-500"
+                                        aria-label="Quality"
+                                    />
+                                    {Math.round(downloadQuality * 100)}%
+                                </label>
+                            )}
+                        </div>
+                        <button
+                            onClick={handleDownloadClick}
+                            disabled={isExporting}
+                            className="w-full flex items-center justify-center gap-2 bg-gradient-to-br from-blue-600 to-cyan-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 disabled:opacity-60 disabled:cursor-not-allowed"
                         >
                            <DownloadIcon className="w-5 h-5" />
-                           Download Image
-                        </a>
+                           {isExporting ? 'Preparing...' : 'Download Image'}
+                        </button>
+                        {traceId && (
+                            <button
+                                onClick={() => onInspectCalls(traceId)}
+                                className="w-full flex items-center justify-center gap-2 text-sm text-gray-400 hover:text-white transition-colors"
+                            >
+                                <CommandLineIcon className="w-4 h-4" />
+                                Inspect provider calls
+                            </button>
+                        )}
+                        <button
+                            onClick={() => onDelete(item)}
+                            disabled={isUpscaling}
+                            className="w-full flex items-center justify-center gap-2 text-sm text-gray-400 hover:text-red-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <TrashIcon className="w-4 h-4" />
+                            {versions.length > 1 ? `Delete all ${versions.length} versions` : 'Delete image'}
+                        </button>
                     </div>
                 </div>
             </div>
@@ -0,0 +1,221 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import type { Derivation, GalleryItem, StylePreset } from '../App';
+import { editImage, inpaintImage } from '../services/geminiService';
+import { classifyError } from '../services/serviceErrors';
+import { loadImage, processImage, type ImageOperation } from '../utils/imageUtils';
+import EditorCanvas, { type CropRect, type MaskTool } from './EditorCanvas';
+import StartScreen from './StartScreen';
+import Toolbar, { type EditorTool } from './Toolbar';
+import ToolOptions from './ToolOptions';
+
+interface ImageEditorProps {
+  /** The version being edited, or null to show the upload screen. */
+  item: GalleryItem | null;
+  /** The version the current one was derived from, if it is still in the gallery. */
+  parent: GalleryItem | null;
+  onUpload: (file: File) => void;
+  onCreateVersion: (parent: GalleryItem, src: string, derivation: Omit<Derivation, 'createdAt'>) => void;
+  onUndo: (parent: GalleryItem) => void;
+  onClose: () => void;
+  stylePresets: StylePreset[];
+  onManageStyles: () => void;
+}
+
+const LOADING_MESSAGES: Record<EditorTool, string> = {
+  retouch: 'Retouching selection...',
+  adjust: 'Applying adjustment...',
+  filter: 'Applying filter...',
+  crop: 'Processing...',
+};
+
+const ImageEditor: React.FC<ImageEditorProps> = ({ item, parent, onUpload, onCreateVersion, onUndo, onClose, stylePresets, onManageStyles }) => {
+  const [tool, setTool] = useState<EditorTool>('adjust');
+  const [crop, setCrop] = useState<CropRect | null>(null);
+  const [aspect, setAspect] = useState<number | undefined>(undefined);
+  const [mask, setMask] = useState<string | null>(null);
+  const [maskTool, setMaskTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // A new version invalidates any selection made on the previous one
+  useEffect(() => {
+    setCrop(null);
+    setMask(null);
+  }, [item?.id]);
+
+  // Abandon an in-flight edit if the editor closes
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const runEdit = async (operation: () => Promise<void>, failureMessage: string) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsLoading(true);
+    setError(null);
+    try {
+      await operation();
+    } catch (e) {
+      const serviceError = classifyError(e, failureMessage);
+      if (serviceError.kind !== 'cancelled') {
+        setError(serviceError.message);
+        console.error(failureMessage, e);
+      }
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  };
+
+  // A preset's reference image, if any, is sent along as a style to match
+  const applyPromptEdit = (operation: 'adjust' | 'filter', instruction: string, preset?: StylePreset) => {
+    if (!item) return;
+    runEdit(async () => {
+      const signal = abortControllerRef.current!.signal;
+      const traceId = crypto.randomUUID();
+      const referenceImages = preset?.referenceImage ? [{ src: preset.referenceImage, role: 'style' as const }] : [];
+      const result = await editImage(item.src, instruction, { signal, traceId, referenceImages });
+      if (signal.aborted) return;
+      onCreateVersion(item, result.images[0], { operation, instruction, provider: result.provider, model: result.model, traceId });
+    }, `Failed to apply ${operation === 'adjust' ? 'adjustment' : 'filter'}`);
+  };
+
+  const handleApplyRetouch = (instruction: string) => {
+    if (!item || !mask) return;
+    runEdit(async () => {
+      const signal = abortControllerRef.current!.signal;
+      const traceId = crypto.randomUUID();
+      const result = await inpaintImage(item.src, mask, instruction, { signal, traceId });
+      if (signal.aborted) return;
+      onCreateVersion(item, result.images[0], { operation: 'inpaint', instruction, provider: result.provider, model: result.model, traceId });
+    }, 'Failed to retouch selection');
+  };
+
+  const handleApplyCrop = () => {
+    if (!item || !crop) return;
+    runEdit(async () => {
+      const { naturalWidth, naturalHeight } = await loadImage(item.src);
+      const rect = {
+        x: Math.round(crop.x * naturalWidth),
+        y: Math.round(crop.y * naturalHeight),
+        width: Math.max(1, Math.round(crop.width * naturalWidth)),
+        height: Math.max(1, Math.round(crop.height * naturalHeight)),
+      };
+      const src = await processImage(item.src, [{ type: 'crop', rect }]);
+      onCreateVersion(item, src, { operation: 'crop', instruction: `${rect.width}×${rect.height} from (${rect.x}, ${rect.y})` });
+    }, 'Failed to crop image');
+  };
+
+  const handleTransform = (operation: Extract<ImageOperation, { type: 'rotate' | 'flip' }>) => {
+    if (!item) return;
+    runEdit(async () => {
+      const src = await processImage(item.src, [operation]);
+      const instruction = operation.type === 'rotate' ? `Rotate ${operation.degrees}°` : `Flip ${operation.axis}`;
+      onCreateVersion(item, src, { operation: 'transform', instruction });
+    }, 'Failed to transform image');
+  };
+
+  const handleSetAspect = (value: number | undefined) => {
+    setAspect(value);
+    setCrop(null);
+  };
+
+  const handleToolChange = (next: EditorTool) => {
+    setTool(next);
+    setCrop(null);
+  };
+
+  const handleFileSelect = (files: FileList | null) => {
+    const file = Array.from<File>(files ?? []).find(candidate => candidate.type.startsWith('image/'));
+    if (file) {
+      onUpload(file);
+    }
+  };
+
+  if (!item) {
+    return (
+      <div className="flex-grow overflow-y-auto p-4 flex flex-col">
+        <div className="flex justify-end">
+          <button onClick={onClose} className="text-sm text-gray-400 hover:text-white transition-colors">Back to studio</button>
+        </div>
+        <div className="flex-grow flex items-center">
+          <StartScreen onFileSelect={handleFileSelect} />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-grow flex flex-col gap-4 p-4 overflow-hidden">
+      <Toolbar
+        activeTool={tool}
+        onToolChange={handleToolChange}
+        canUndo={parent !== null}
+        onUndo={() => parent && onUndo(parent)}
+        onClose={onClose}
+        isLoading={isLoading}
+      />
+      <div className="flex-grow flex flex-col md:flex-row gap-4 overflow-hidden">
+        <div className="flex-grow min-h-0">
+          <EditorCanvas
+            src={item.src}
+            alt={item.prompt}
+            isLoading={isLoading}
+            loadingMessage={LOADING_MESSAGES[tool]}
+            isCropping={tool === 'crop'}
+            aspect={aspect}
+            crop={crop}
+            onCropChange={setCrop}
+            isMasking={tool === 'retouch'}
+            maskTool={maskTool}
+            brushSize={brushSize}
+            mask={mask}
+            onMaskChange={setMask}
+          />
+        </div>
+        <aside className="w-full md:max-w-md flex flex-col gap-4 overflow-y-auto">
+          <ToolOptions
+            tool={tool}
+            isLoading={isLoading}
+            isCropping={crop !== null}
+            stylePresets={stylePresets}
+            onManageStyles={onManageStyles}
+            onApplyAdjustment={(prompt, preset) => applyPromptEdit('adjust', prompt, preset)}
+            onApplyFilter={(prompt, preset) => applyPromptEdit('filter', prompt, preset)}
+            onApplyCrop={handleApplyCrop}
+            onSetAspect={handleSetAspect}
+            onTransform={handleTransform}
+            onApplyRetouch={handleApplyRetouch}
+            maskTool={maskTool}
+            onMaskToolChange={setMaskTool}
+            brushSize={brushSize}
+            onBrushSizeChange={setBrushSize}
+            hasMask={mask !== null}
+            onClearMask={() => setMask(null)}
+          />
+          {isLoading && tool !== 'crop' && (
+            <button
+              onClick={() => abortControllerRef.current?.abort()}
+              className="w-full bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+          {error && (
+            <div className="bg-red-900/50 border border-red-700 text-red-300 text-sm p-3 rounded-lg">
+              {error}
+            </div>
+          )}
+        </aside>
+      </div>
+    </div>
+  );
+};
+
+export default ImageEditor;
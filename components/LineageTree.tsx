@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import type { GalleryItem } from '../App';
+import { describeVersion, type LineageNode } from '../utils/lineageUtils';
+
+interface LineageTreeProps {
+  node: LineageNode;
+  selectedId: string;
+  currentId: string;
+  onSelect: (item: GalleryItem) => void;
+}
+
+const LineageTree: React.FC<LineageTreeProps> = ({ node, selectedId, currentId, onSelect }) => {
+  const { item, children } = node;
+  const isSelected = item.id === selectedId;
+  return (
+    <li>
+      <button
+        onClick={() => onSelect(item)}
+        className={`w-full flex items-center gap-2 p-1 rounded-md text-left transition-colors ${isSelected ? 'bg-blue-600/30 ring-1 ring-blue-500' : 'hover:bg-gray-700/50'}`}
+        aria-current={isSelected}
+      >
+        <img src={item.src} alt={describeVersion(item)} className="w-8 h-8 object-cover rounded bg-gray-800 flex-shrink-0" />
+        <span className="flex-grow min-w-0">
+          <span className="block text-sm text-gray-200 truncate">
+            {describeVersion(item)}
+            {item.derivation?.instruction && <span className="text-gray-400">: {item.derivation.instruction}</span>}
+          </span>
+          {item.derivation?.model && <span className="block text-xs text-gray-500 truncate">{item.derivation.model}</span>}
+        </span>
+        {item.id === currentId && <span className="text-xs font-semibold text-green-300 flex-shrink-0">Current</span>}
+      </button>
+      {children.length > 0 && (
+        <ul className="ml-4 pl-2 border-l border-gray-700 mt-1 space-y-1">
+          {children.map(child => (
+            <LineageTree key={child.item.id} node={child} selectedId={selectedId} currentId={currentId} onSelect={onSelect} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+export default LineageTree;
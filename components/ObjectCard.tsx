@@ -2,3 +2,60 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React from 'react';
+import { CheckCircleIcon, PhotoIcon, TrashIcon } from './icons';
+
+interface ObjectCardProps {
+  title: string;
+  subtitle?: string;
+  imageSrc?: string;
+  /** Shown as a badge on the image, e.g. the number of photos. */
+  badge?: string;
+  selected: boolean;
+  onToggle: () => void;
+  onEdit?: () => void;
+  onDelete?: () => void;
+}
+
+/**
+ * A selectable card for a catalog object, such as a product.
+ */
+const ObjectCard: React.FC<ObjectCardProps> = ({ title, subtitle, imageSrc, badge, selected, onToggle, onEdit, onDelete }) => {
+  return (
+    <div className={`relative group rounded-lg overflow-hidden border-2 bg-gray-900/50 transition-colors ${selected ? 'border-blue-500' : 'border-transparent hover:border-gray-600'}`}>
+      <button onClick={onToggle} className="w-full text-left" aria-pressed={selected}>
+        <div className="relative aspect-square bg-gray-800">
+          {imageSrc ? (
+            <img src={imageSrc} alt={title} className="w-full h-full object-cover" />
+          ) : (
+            <div className="w-full h-full flex items-center justify-center">
+              <PhotoIcon className="w-8 h-8 text-gray-600" />
+            </div>
+          )}
+          {selected && <CheckCircleIcon className="absolute top-1 left-1 w-6 h-6 text-blue-400 bg-gray-900/80 rounded-full" />}
+          {badge && <span className="absolute bottom-1 right-1 bg-black/70 text-gray-200 text-xs px-1.5 rounded">{badge}</span>}
+        </div>
+        <div className="p-2">
+          <p className="text-sm font-semibold text-gray-200 truncate" title={title}>{title}</p>
+          {subtitle && <p className="text-xs text-gray-400 truncate" title={subtitle}>{subtitle}</p>}
+        </div>
+      </button>
+      {(onEdit || onDelete) && (
+        <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+          {onEdit && (
+            <button onClick={onEdit} className="bg-gray-900/80 text-gray-200 hover:text-white text-xs px-2 py-0.5 rounded">
+              Edit
+            </button>
+          )}
+          {onDelete && (
+            <button onClick={onDelete} className="bg-gray-900/80 text-gray-300 hover:text-red-400 p-1 rounded" aria-label={`Delete ${title}`}>
+              <TrashIcon className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ObjectCard;
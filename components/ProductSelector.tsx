@@ -2,3 +2,97 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React, { useState } from 'react';
+import type { Product } from '../App';
+import AddProductModal from './AddProductModal';
+import ObjectCard from './ObjectCard';
+import { PlusIcon, QueueListIcon } from './icons';
+
+interface ProductSelectorProps {
+  products: Product[];
+  selectedIds: string[];
+  onSelectedIdsChange: (ids: string[]) => void;
+  onSaveProduct: (product: Product) => void;
+  onDeleteProduct: (id: string) => void;
+}
+
+const ProductSelector: React.FC<ProductSelectorProps> = ({ products, selectedIds, onSelectedIdsChange, onSaveProduct, onDeleteProduct }) => {
+  // undefined: modal closed; null: adding; otherwise the product being edited
+  const [editing, setEditing] = useState<Product | null | undefined>(undefined);
+  const [filter, setFilter] = useState('');
+
+  const query = filter.trim().toLowerCase();
+  const visible = query
+    ? products.filter(product => `${product.name} ${product.sku}`.toLowerCase().includes(query))
+    : products;
+
+  const toggleSelected = (id: string) => {
+    onSelectedIdsChange(selectedIds.includes(id) ? selectedIds.filter(selected => selected !== id) : [...selectedIds, id]);
+  };
+
+  const handleSave = (product: Product) => {
+    onSaveProduct(product);
+    setEditing(undefined);
+  };
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-3 backdrop-blur-sm">
+      <div className="flex items-center gap-2">
+        <QueueListIcon className="w-6 h-6 text-gray-400" />
+        <h3 className="text-lg font-semibold text-gray-200">Products</h3>
+        {selectedIds.length > 0 && (
+          <button onClick={() => onSelectedIdsChange([])} className="text-xs text-gray-400 hover:text-white transition-colors">
+            {selectedIds.length} selected · Clear
+          </button>
+        )}
+        <button
+          onClick={() => setEditing(null)}
+          className="ml-auto flex items-center gap-1 text-sm text-blue-300 hover:text-blue-200 transition-colors"
+        >
+          <PlusIcon className="w-4 h-4" />
+          Add
+        </button>
+      </div>
+
+      {products.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-2">Add products to feature them in generated shots.</p>
+      ) : (
+        <>
+          {products.length > 6 && (
+            <input
+              type="search"
+              value={filter}
+              onChange={e => setFilter(e.target.value)}
+              placeholder="Filter by name or SKU"
+              className="bg-gray-800 border border-gray-600 text-gray-200 text-sm rounded-md p-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            />
+          )}
+          <div className="grid grid-cols-3 gap-2 max-h-72 overflow-y-auto pr-1">
+            {visible.map(product => (
+              <ObjectCard
+                key={product.id}
+                title={product.name}
+                subtitle={product.sku || product.notes}
+                imageSrc={product.images[0]}
+                badge={product.images.length > 1 ? `${product.images.length} photos` : undefined}
+                selected={selectedIds.includes(product.id)}
+                onToggle={() => toggleSelected(product.id)}
+                onEdit={() => setEditing(product)}
+                onDelete={() => onDeleteProduct(product.id)}
+              />
+            ))}
+          </div>
+          {selectedIds.length > 0 && (
+            <p className="text-xs text-gray-400">Selected products and their notes are added to every job you queue.</p>
+          )}
+        </>
+      )}
+
+      {editing !== undefined && (
+        <AddProductModal product={editing} onSave={handleSave} onClose={() => setEditing(undefined)} />
+      )}
+    </div>
+  );
+};
+
+export default ProductSelector;
@@ -0,0 +1,253 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { exportProjectBundle, readProjectBundle, releaseProjectBundle, type ProjectBundle, type ProjectSettings } from '../services/projectBundle';
+import { downloadBlob } from '../utils/fileUtils';
+import { CONFLICT_POLICIES, PROJECT_CONTENT_LABELS, mergeProject, type ConflictPolicy, type ImportSummary, type ProjectContents } from '../utils/projectUtils';
+import { DownloadIcon, FolderIcon, UploadIcon, XMarkIcon } from './icons';
+
+interface ProjectDialogProps {
+  /** The open project's name, used to name the bundle. */
+  projectName: string;
+  /** The open project's gallery and the shared libraries. */
+  contents: ProjectContents;
+  /** Ids of images in other projects, which an import copies into this one under new ids. */
+  otherProjectImageIds: ReadonlySet<string>;
+  settings: ProjectSettings;
+  /** Saves an imported bundle's contents, and its settings if asked to. Returns what was imported. */
+  onImport: (bundle: ProjectBundle, policy: ConflictPolicy, applySettings: boolean) => ImportSummary;
+  onClose: () => void;
+}
+
+const describeSummary = (summary: ImportSummary) =>
+  (Object.keys(PROJECT_CONTENT_LABELS) as (keyof ImportSummary)[])
+    .filter(kind => summary[kind].added + summary[kind].updated + summary[kind].unchanged > 0)
+    .map(kind => ({ kind, label: PROJECT_CONTENT_LABELS[kind], ...summary[kind] }));
+
+const describeCopied = (count: number) =>
+  `${count} image${count === 1 ? ' is' : 's are'} also in another project and ${count === 1 ? 'is' : 'are'} added here as ${count === 1 ? 'a copy' : 'copies'}.`;
+
+const countContents = (contents: ProjectContents) =>
+  (Object.keys(PROJECT_CONTENT_LABELS) as (keyof ProjectContents)[])
+    .map(kind => ({ label: PROJECT_CONTENT_LABELS[kind], count: kind === 'gallery' ? contents.gallery.filter(item => !item.deletedAt).length : contents[kind].length }))
+    .filter(({ count }) => count > 0)
+    .map(({ label, count }) => `${count} ${label.toLowerCase()}`)
+    .join(', ');
+
+const buttonClassName = "flex items-center justify-center gap-2 px-3 py-1.5 rounded-md bg-white/10 hover:bg-white/20 text-gray-200 text-sm font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+/**
+ * Exports the project as a single bundle file, and imports bundles exported elsewhere,
+ * so work can be handed between teammates and backed up.
+ */
+const ProjectDialog: React.FC<ProjectDialogProps> = ({ projectName, contents, otherProjectImageIds, settings, onImport, onClose }) => {
+  const [name, setName] = useState(projectName);
+  const [includeSettings, setIncludeSettings] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [pending, setPending] = useState<ProjectBundle | null>(null);
+  const [policy, setPolicy] = useState<ConflictPolicy>('keep-both');
+  const [applySettings, setApplySettings] = useState(false);
+  const [notice, setNotice] = useState<{ message: string; isError: boolean } | null>(null);
+  const [result, setResult] = useState<ImportSummary | null>(null);
+  // A bundle that is read but never imported still holds object URLs for its images
+  const pendingRef = useRef<ProjectBundle | null>(null);
+  pendingRef.current = pending;
+
+  useEffect(() => () => {
+    if (pendingRef.current) releaseProjectBundle(pendingRef.current);
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && !isExporting) {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, isExporting]);
+
+  const discardPending = () => {
+    if (pending) releaseProjectBundle(pending);
+    setPending(null);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setNotice(null);
+    try {
+      const bundle = await exportProjectBundle(name.trim() || 'Untitled project', contents, includeSettings ? settings : {});
+      const filename = name.replace(/[\\/:*?"<>|]+/g, '').trim() || 'project';
+      downloadBlob(bundle, `${filename}.project.zip`);
+    } catch (e) {
+      console.error("Failed to export project bundle", e);
+      setNotice({ message: e instanceof Error ? e.message : 'Export failed.', isError: true });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    discardPending();
+    setResult(null);
+    setNotice(null);
+    setIsReading(true);
+    try {
+      const bundle = await readProjectBundle(file);
+      setPending(bundle);
+      setApplySettings(false);
+    } catch (error) {
+      console.error("Failed to read project bundle", error);
+      setNotice({ message: error instanceof SyntaxError ? 'The bundle\'s project file is not valid JSON.' : error instanceof Error ? error.message : 'Import failed.', isError: true });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleImport = () => {
+    if (!pending) return;
+    setResult(onImport(pending, policy, applySettings));
+    // The app now owns the bundle's images
+    setPending(null);
+  };
+
+  const preview = pending ? mergeProject(contents, pending.contents, policy, otherProjectImageIds).summary : null;
+  const hasConflicts = preview !== null && (['characters', 'products', 'templates', 'stylePresets'] as const).some(kind =>
+    pending!.contents[kind].some(entry => contents[kind].some(existing => existing.id === entry.id))
+  );
+  const bundleHasSettings = !!pending && Object.values(pending.settings).some(value => value !== undefined);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={e => e.target === e.currentTarget && !isExporting && onClose()}
+    >
+      <div
+        className="bg-gray-900 border border-gray-700 rounded-lg shadow-2xl w-full max-w-xl max-h-[90vh] overflow-y-auto flex flex-col gap-5 p-5"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="project-dialog-title"
+      >
+        <div className="flex items-center gap-3">
+          <FolderIcon className="w-6 h-6 text-gray-400" />
+          <h2 id="project-dialog-title" className="text-xl font-bold text-gray-100">Project</h2>
+          <button onClick={onClose} disabled={isExporting} className="ml-auto text-gray-400 hover:text-white transition-colors disabled:opacity-50" aria-label="Close">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        {notice && (
+          <p className={`text-sm p-2 rounded-md ${notice.isError ? 'bg-red-900/50 text-red-300' : 'bg-blue-900/40 text-blue-200'}`}>{notice.message}</p>
+        )}
+
+        <section className="flex flex-col gap-2">
+          <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Export</h3>
+          <p className="text-sm text-gray-400">
+            Saves this project's gallery, the libraries and settings as one file that can be imported in another browser.
+            {countContents(contents) && <> Includes {countContents(contents)}.</>}
+          </p>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-md px-2 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              aria-label="Project name"
+            />
+            <button onClick={handleExport} disabled={isExporting} className={buttonClassName}>
+              <DownloadIcon className="w-4 h-4" />
+              {isExporting ? 'Packing...' : 'Export bundle'}
+            </button>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input type="checkbox" checked={includeSettings} onChange={e => setIncludeSettings(e.target.checked)} className="accent-blue-500" />
+            Include project defaults and queue, export and trash settings
+          </label>
+        </section>
+
+        <section className="flex flex-col gap-2">
+          <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Import</h3>
+          <p className="text-sm text-gray-400">Images are added to {projectName}; library entries are shared by every project.</p>
+          <label className={`${buttonClassName} self-start cursor-pointer`}>
+            <UploadIcon className="w-4 h-4" />
+            {isReading ? 'Reading...' : 'Choose bundle'}
+            <input type="file" accept=".zip,application/zip" className="hidden" onChange={handleFileChange} disabled={isReading} />
+          </label>
+
+          {pending && preview && (
+            <div className="flex flex-col gap-3 bg-gray-800/50 p-3 rounded-md animate-fade-in">
+              <p className="text-sm text-gray-200">
+                <span className="font-semibold">{pending.name || 'Unnamed project'}</span>
+                {pending.exportedAt > 0 && <span className="text-gray-400">, exported {new Date(pending.exportedAt).toLocaleString()}</span>}
+              </p>
+              <table className="text-sm text-gray-300">
+                <thead>
+                  <tr className="text-xs text-gray-400 text-left">
+                    <th className="font-normal"></th>
+                    <th className="font-normal px-2">New</th>
+                    <th className="font-normal px-2">Updated</th>
+                    <th className="font-normal px-2">Unchanged</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {describeSummary(preview).map(row => (
+                    <tr key={row.kind}>
+                      <td>{row.label}</td>
+                      <td className="px-2">{row.added}</td>
+                      <td className="px-2">{row.updated}</td>
+                      <td className="px-2">{row.unchanged}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-400">Images you already have keep their place; their tags are combined with the imported ones.</p>
+              {!!preview.gallery.copied && <p className="text-xs text-gray-400">{describeCopied(preview.gallery.copied)}</p>}
+              {hasConflicts && (
+                <label className="flex items-center gap-2 text-sm text-gray-300">
+                  When a library entry differs from mine
+                  <select
+                    value={policy}
+                    onChange={e => setPolicy(e.target.value as ConflictPolicy)}
+                    className="bg-gray-800 border border-gray-600 text-gray-200 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                  >
+                    {(Object.keys(CONFLICT_POLICIES) as ConflictPolicy[]).map(option => (
+                      <option key={option} value={option}>{CONFLICT_POLICIES[option]}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              {bundleHasSettings && (
+                <label className="flex items-center gap-2 text-sm text-gray-300">
+                  <input type="checkbox" checked={applySettings} onChange={e => setApplySettings(e.target.checked)} className="accent-blue-500" />
+                  Replace my settings with the bundle's
+                </label>
+              )}
+              <div className="flex gap-2">
+                <button onClick={handleImport} className="px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-500 text-white text-sm font-semibold transition-colors">Import</button>
+                <button onClick={discardPending} className={buttonClassName}>Cancel</button>
+              </div>
+            </div>
+          )}
+
+          {result && (
+            <p className="text-sm bg-blue-900/40 text-blue-200 p-2 rounded-md">
+              Imported {describeSummary(result)
+                .filter(row => row.added + row.updated > 0)
+                .map(row => `${row.added + row.updated} ${row.label.toLowerCase()}`)
+                .join(', ') || 'nothing new'}.
+              {!!result.gallery.copied && <> {describeCopied(result.gallery.copied)}</>}
+            </p>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectDialog;
@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import type { Project } from '../App';
+import { formatBytes } from '../utils/formatUtils';
+import { ChevronDownIcon, FolderIcon, PencilIcon, PlusIcon, TrashIcon } from './icons';
+
+interface ProjectSwitcherProps {
+  projects: Project[];
+  activeProjectId: string;
+  /** Gallery images and stored bytes of each project, by project id. Bytes are unset until storage has been measured. */
+  stats: Record<string, { imageCount: number; bytes?: number }>;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  /** Opens the bundle import and export for the open project. */
+  onOpenBundle: () => void;
+}
+
+const describeStats = (stats?: { imageCount: number; bytes?: number }) => {
+  const count = stats?.imageCount ?? 0;
+  const images = `${count} image${count === 1 ? '' : 's'}`;
+  return stats?.bytes !== undefined ? `${images} · ${formatBytes(stats.bytes)}` : images;
+};
+
+/**
+ * The header's project menu: switches between projects, creates, renames and deletes them,
+ * and shows how much each one stores.
+ */
+const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({ projects, activeProjectId, stats, onSwitch, onCreate, onRename, onDelete, onOpenBundle }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeProject = projects.find(project => project.id === activeProjectId);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+    window.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    onCreate(name);
+    setNewName('');
+    setIsOpen(false);
+  };
+
+  const startRenaming = (project: Project) => {
+    setRenamingId(project.id);
+    setRenameDraft(project.name);
+  };
+
+  const finishRenaming = () => {
+    const name = renameDraft.trim();
+    if (renamingId && name) onRename(renamingId, name);
+    setRenamingId(null);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-2 bg-white/10 hover:bg-white/20 text-gray-200 font-semibold px-3 py-1 rounded-md transition-colors max-w-[14rem]"
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+        title="Switch project"
+      >
+        <FolderIcon className="w-4 h-4 flex-shrink-0" />
+        <span className="truncate">{activeProject?.name ?? 'Project'}</span>
+        <ChevronDownIcon className="w-3 h-3 flex-shrink-0" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-80 bg-gray-900 border border-gray-700 rounded-lg shadow-2xl p-2 flex flex-col gap-1 animate-fade-in">
+          <ul className="flex flex-col gap-1 max-h-72 overflow-y-auto">
+            {projects.map(project => (
+              <li
+                key={project.id}
+                className={`group flex items-center gap-2 rounded-md px-2 py-1.5 ${project.id === activeProjectId ? 'bg-blue-900/40' : 'hover:bg-gray-800'}`}
+              >
+                {renamingId === project.id ? (
+                  <input
+                    type="text"
+                    value={renameDraft}
+                    onChange={e => setRenameDraft(e.target.value)}
+                    onBlur={finishRenaming}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') finishRenaming();
+                      else if (e.key === 'Escape') {
+                        e.stopPropagation();
+                        setRenamingId(null);
+                      }
+                    }}
+                    className="flex-grow min-w-0 bg-gray-800 border border-gray-600 text-gray-200 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                    aria-label="Project name"
+                    autoFocus
+                  />
+                ) : (
+                  <button
+                    onClick={() => {
+                      onSwitch(project.id);
+                      setIsOpen(false);
+                    }}
+                    className="flex-grow min-w-0 flex flex-col text-left"
+                    aria-current={project.id === activeProjectId}
+                  >
+                    <span className="text-sm text-gray-100 truncate">{project.name}</span>
+                    <span className="text-xs text-gray-400">{describeStats(stats[project.id])}</span>
+                  </button>
+                )}
+                <button
+                  onClick={() => startRenaming(project)}
+                  className="text-gray-500 hover:text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                  aria-label={`Rename ${project.name}`}
+                  title="Rename"
+                >
+                  <PencilIcon className="w-4 h-4" />
+                </button>
+                {projects.length > 1 && (
+                  <button
+                    onClick={() => onDelete(project.id)}
+                    className="text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                    aria-label={`Delete ${project.name}`}
+                    title="Delete project"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+          <form onSubmit={handleCreate} className="flex items-center gap-2 border-t border-gray-700 pt-2 mt-1">
+            <input
+              type="text"
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              placeholder="New project name"
+              className="flex-grow min-w-0 bg-gray-800 border border-gray-600 text-gray-200 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            />
+            <button
+              type="submit"
+              disabled={!newName.trim()}
+              className="flex items-center gap-1 text-sm font-semibold text-blue-300 hover:text-white transition-colors disabled:opacity-50"
+            >
+              <PlusIcon className="w-4 h-4" />
+              Create
+            </button>
+          </form>
+          <button
+            onClick={() => {
+              onOpenBundle();
+              setIsOpen(false);
+            }}
+            className="text-left text-sm text-gray-300 hover:text-white hover:bg-gray-800 rounded-md px-2 py-1.5 transition-colors"
+          >
+            Import or export a project bundle...
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectSwitcher;
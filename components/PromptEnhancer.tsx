@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { diffWords } from '../utils/textDiff';
+import { SparklesIcon, XMarkIcon } from './icons';
+
+interface PromptEnhancerProps {
+  /** The prompt that was enhanced. */
+  original: string;
+  /** The rewrites received so far; alternatives are appended. */
+  suggestions: string[];
+  isLoading: boolean;
+  error: string | null;
+  onAccept: (prompt: string) => void;
+  onRequestAlternatives: () => void;
+  onDiscard: () => void;
+}
+
+const actionClassName = "text-sm font-semibold px-3 py-1.5 rounded-md bg-gray-700/50 hover:bg-gray-700 text-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+/**
+ * Shows enhanced rewrites of a prompt as changes against the original, to be accepted as they are,
+ * edited first, or traded for more alternatives.
+ */
+const PromptEnhancer: React.FC<PromptEnhancerProps> = ({ original, suggestions, isLoading, error, onAccept, onRequestAlternatives, onDiscard }) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [isEditing, setIsEditing] = useState(false);
+  // The user's edits to each suggestion, by index
+  const [edits, setEdits] = useState<Record<number, string>>({});
+  const current = Math.min(selectedIndex, suggestions.length - 1);
+  const suggestion = edits[current] ?? suggestions[current] ?? '';
+
+  const selectSuggestion = (index: number) => {
+    setSelectedIndex(index);
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="flex flex-col gap-2 bg-gray-900/60 border border-purple-800/60 rounded-lg p-3 animate-fade-in">
+      <div className="flex items-center gap-2">
+        <SparklesIcon className={`w-4 h-4 text-purple-300 ${isLoading ? 'animate-spin' : ''}`} />
+        <span className="text-sm font-semibold text-gray-200">Enhanced prompt</span>
+        {suggestions.length > 1 && (
+          <div className="flex items-center gap-1" role="tablist" aria-label="Alternatives">
+            {suggestions.map((_, index) => (
+              <button
+                type="button"
+                key={index}
+                role="tab"
+                aria-selected={index === selectedIndex}
+                onClick={() => selectSuggestion(index)}
+                className={`w-6 h-6 text-xs font-semibold rounded-full transition-colors ${index === selectedIndex ? 'bg-purple-600 text-white' : 'bg-gray-700/60 text-gray-300 hover:bg-gray-700'}`}
+              >
+                {index + 1}
+              </button>
+            ))}
+          </div>
+        )}
+        <button type="button" onClick={onDiscard} className="ml-auto text-gray-400 hover:text-white transition-colors" aria-label="Discard enhancement">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      {suggestions.length === 0 ? (
+        isLoading && <p className="text-sm text-gray-400">Writing a more detailed prompt...</p>
+      ) : isEditing ? (
+        <textarea
+          value={suggestion}
+          onChange={e => setEdits(prev => ({ ...prev, [current]: e.target.value }))}
+          rows={5}
+          className="bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none resize-none"
+          aria-label="Edit the enhanced prompt"
+          autoFocus
+        />
+      ) : (
+        <p className="text-sm text-gray-300 leading-relaxed max-h-48 overflow-y-auto">
+          {diffWords(original, suggestion).map((segment, position) =>
+            segment.type === 'added' ? (
+              <ins key={position} className="no-underline text-green-300 bg-green-900/40 rounded-sm">{segment.text}</ins>
+            ) : segment.type === 'removed' ? (
+              <del key={position} className="text-red-300/80 bg-red-900/30 rounded-sm">{segment.text}</del>
+            ) : (
+              <span key={position}>{segment.text}</span>
+            )
+          )}
+        </p>
+      )}
+
+      {error && <p className="text-sm bg-red-900/50 text-red-300 p-2 rounded-md">{error}</p>}
+
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={() => onAccept(suggestion.trim())}
+            disabled={!suggestion.trim()}
+            className="text-sm font-semibold px-3 py-1.5 rounded-md bg-purple-600 hover:bg-purple-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Use this prompt
+          </button>
+          <button type="button" onClick={() => setIsEditing(prev => !prev)} className={actionClassName}>
+            {isEditing ? 'Show changes' : 'Edit'}
+          </button>
+          <button type="button" onClick={onRequestAlternatives} disabled={isLoading} className={actionClassName}>
+            {isLoading ? 'Writing alternatives...' : 'More alternatives'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptEnhancer;
@@ -2,13 +2,27 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, { useState } from 'react';
 import type { Job } from '../App';
 import Spinner from './Spinner';
-import { ClockIcon, XCircleIcon, QueueListIcon } from './icons';
+import { ClockIcon, XCircleIcon, QueueListIcon, PauseCircleIcon, ArrowPathIcon, TrashIcon, Cog6ToothIcon, PlayIcon, PauseIcon, ArrowUpIcon, Bars2Icon, XMarkIcon, CommandLineIcon } from './icons';
+import { listProviders } from '../services/imageProvider';
+import { SERVICE_ERROR_LABELS } from '../services/serviceErrors';
+import type { ProviderLimits, SchedulerSettings, SchedulerStatus } from '../services/queueScheduler';
 
 interface QueuePanelProps {
   queue: Job[];
+  schedulerStatus: SchedulerStatus;
+  schedulerSettings: SchedulerSettings;
+  onSchedulerSettingsChange: (settings: SchedulerSettings) => void;
+  onResumeJobs: (jobIds: string[]) => void;
+  onRetryJob: (jobId: string) => void;
+  onRequeueJob: (jobId: string, prompt: string) => void;
+  onCancelJob: (jobId: string) => void;
+  onReorderJob: (jobId: string, toIndex: number) => void;
+  onClearFailedJobs: () => void;
+  onTogglePause: () => void;
+  onInspectJob: (jobId: string) => void;
 }
 
 const JobStatusIcon: React.FC<{ status: Job['status'] }> = ({ status }) => {
@@ -19,45 +33,318 @@ const JobStatusIcon: React.FC<{ status: Job['status'] }> = ({ status }) => {
             return <ClockIcon className="w-5 h-5 text-yellow-400" />;
         case 'failed':
             return <XCircleIcon className="w-5 h-5 text-red-400" />;
+        case 'interrupted':
+            return <PauseCircleIcon className="w-5 h-5 text-orange-400" />;
         default:
             return null;
     }
 }
 
 
-const QueuePanel: React.FC<QueuePanelProps> = ({ queue }) => {
+const FailedJobDetails: React.FC<{ job: Job; onRetry: () => void; onRequeue: (prompt: string) => void; onDiscard: () => void }> = ({ job, onRetry, onRequeue, onDiscard }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editedPrompt, setEditedPrompt] = useState(job.prompt);
+
+  return (
+    <div className="mt-1 pl-8 flex flex-col gap-2">
+      <p className="text-xs text-red-400" title={job.error}>
+        {job.errorKind && (
+          <span className="font-semibold bg-red-900/50 px-1.5 py-0.5 rounded mr-2">{SERVICE_ERROR_LABELS[job.errorKind]}</span>
+        )}
+        <strong>Failed:</strong> {job.error}
+      </p>
+      {isEditing ? (
+        <div className="flex flex-col gap-2">
+          <textarea
+            value={editedPrompt}
+            onChange={(e) => setEditedPrompt(e.target.value)}
+            rows={3}
+            className="bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full resize-none"
+          />
+          <div className="flex items-center gap-3 text-xs">
+            <button
+              onClick={() => onRequeue(editedPrompt)}
+              disabled={!editedPrompt.trim()}
+              className="font-semibold text-blue-300 hover:text-white transition-colors disabled:opacity-50"
+            >
+              Requeue
+            </button>
+            <button onClick={() => setIsEditing(false)} className="text-gray-400 hover:text-white transition-colors">
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center gap-3 text-xs">
+          <button onClick={onRetry} className="flex items-center gap-1 text-gray-300 hover:text-white transition-colors">
+            <ArrowPathIcon className="w-3.5 h-3.5" /> Retry
+          </button>
+          <button onClick={() => setIsEditing(true)} className="text-gray-300 hover:text-white transition-colors">
+            Edit &amp; requeue
+          </button>
+          <button onClick={onDiscard} className="flex items-center gap-1 text-gray-400 hover:text-red-300 transition-colors">
+            <TrashIcon className="w-3.5 h-3.5" /> Discard
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const NumberSetting: React.FC<{ label: string; value: number; min: number; max: number; onChange: (value: number) => void; title?: string }> = ({ label, value, min, max, onChange, title }) => (
+  <label className="flex items-center justify-between gap-2 text-xs text-gray-300" title={title}>
+    {label}
+    <input
+      type="number"
+      min={min}
+      max={max}
+      value={value}
+      onChange={(e) => {
+        const next = Number(e.target.value);
+        if (Number.isFinite(next)) onChange(Math.min(max, Math.max(min, Math.round(next))));
+      }}
+      className="w-16 bg-gray-800 border border-gray-600 text-gray-200 rounded-md px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+    />
+  </label>
+);
+
+const SchedulerSettingsForm: React.FC<{ settings: SchedulerSettings; onChange: (settings: SchedulerSettings) => void }> = ({ settings, onChange }) => {
+  const updateProvider = (id: keyof SchedulerSettings['providers'], limits: Partial<ProviderLimits>) => {
+    onChange({ ...settings, providers: { ...settings.providers, [id]: { ...settings.providers[id], ...limits } } });
+  };
+
+  return (
+    <div className="bg-gray-900/50 p-3 rounded-lg grid grid-cols-1 sm:grid-cols-3 gap-3 animate-fade-in">
+      <NumberSetting
+        label="Workers"
+        value={settings.concurrency}
+        min={1}
+        max={8}
+        onChange={(concurrency) => onChange({ ...settings, concurrency })}
+      />
+      <NumberSetting
+        label="Max attempts"
+        title="Attempts per job before a network or quota failure is final"
+        value={settings.maxAttempts}
+        min={1}
+        max={10}
+        onChange={(maxAttempts) => onChange({ ...settings, maxAttempts })}
+      />
+      {listProviders().map(provider => (
+        <div key={provider.id} className="flex flex-col gap-1">
+          <p className="text-xs font-semibold text-gray-400">{provider.name}</p>
+          <NumberSetting
+            label="Max parallel"
+            value={settings.providers[provider.id].maxConcurrent}
+            min={1}
+            max={8}
+            onChange={(maxConcurrent) => updateProvider(provider.id, { maxConcurrent })}
+          />
+          <NumberSetting
+            label="Requests/min"
+            title="0 means unlimited"
+            value={settings.providers[provider.id].requestsPerMinute}
+            min={0}
+            max={600}
+            onChange={(requestsPerMinute) => updateProvider(provider.id, { requestsPerMinute })}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const QueuePanel: React.FC<QueuePanelProps> = ({
+  queue,
+  schedulerStatus,
+  schedulerSettings,
+  onSchedulerSettingsChange,
+  onResumeJobs,
+  onRetryJob,
+  onRequeueJob,
+  onCancelJob,
+  onReorderJob,
+  onClearFailedJobs,
+  onTogglePause,
+  onInspectJob,
+}) => {
+  const [showSettings, setShowSettings] = useState(false);
+  const [draggedJobId, setDraggedJobId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const interruptedIds = queue.filter(job => job.status === 'interrupted').map(job => job.id);
+  const failedCount = queue.filter(job => job.status === 'failed').length;
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, index: number) => {
+    if (!draggedJobId) return;
+    e.preventDefault();
+    const { top, height } = e.currentTarget.getBoundingClientRect();
+    setDropIndex(e.clientY < top + height / 2 ? index : index + 1);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    if (draggedJobId && dropIndex !== null) {
+      const fromIndex = queue.findIndex(job => job.id === draggedJobId);
+      // The target index is computed with the dragged job still in the list
+      onReorderJob(draggedJobId, dropIndex > fromIndex ? dropIndex - 1 : dropIndex);
+    }
+    setDraggedJobId(null);
+    setDropIndex(null);
+  };
+
   return (
     <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-2 backdrop-blur-sm h-1/2 overflow-hidden">
       <div className="flex items-center gap-2 mb-2">
         <QueueListIcon className="w-6 h-6 text-gray-400" />
         <h3 className="text-lg font-semibold text-gray-200">Queue</h3>
+        <span className="text-xs text-gray-400">
+          {schedulerStatus.activeJobs}/{schedulerStatus.concurrency} workers busy
+          {schedulerStatus.paused && <span className="text-green-300"> · paused</span>}
+          {schedulerStatus.rateLimitedUntil && (
+            <span className="text-orange-300"> · rate limited until {new Date(schedulerStatus.rateLimitedUntil).toLocaleTimeString()}</span>
+          )}
+        </span>
+        <div className="ml-auto flex items-center gap-2">
+          {interruptedIds.length > 0 && (
+            <button
+              onClick={() => onResumeJobs(interruptedIds)}
+              className="flex items-center gap-1 text-xs font-semibold text-orange-300 bg-orange-900/40 hover:bg-orange-900/70 px-2 py-1 rounded-md transition-colors"
+            >
+              <ArrowPathIcon className="w-4 h-4" />
+              Resume {interruptedIds.length} interrupted
+            </button>
+          )}
+          {failedCount > 0 && (
+            <button
+              onClick={onClearFailedJobs}
+              className="flex items-center gap-1 text-xs font-semibold text-red-300 bg-red-900/40 hover:bg-red-900/70 px-2 py-1 rounded-md transition-colors"
+            >
+              <TrashIcon className="w-4 h-4" />
+              Clear {failedCount} failed
+            </button>
+          )}
+          <button
+            onClick={onTogglePause}
+            className={`flex items-center gap-1 text-xs font-semibold px-2 py-1 rounded-md transition-colors ${
+              schedulerStatus.paused ? 'text-green-300 bg-green-900/40 hover:bg-green-900/70' : 'text-gray-300 bg-gray-700/50 hover:bg-gray-700'
+            }`}
+          >
+            {schedulerStatus.paused ? <PlayIcon className="w-4 h-4" /> : <PauseIcon className="w-4 h-4" />}
+            {schedulerStatus.paused ? 'Resume' : 'Pause'}
+          </button>
+          <button
+            onClick={() => setShowSettings(prev => !prev)}
+            className="text-gray-400 hover:text-white transition-colors"
+          aria-label="Queue settings"
+          aria-expanded={showSettings}
+        >
+            <Cog6ToothIcon className="w-5 h-5" />
+          </button>
+        </div>
       </div>
+      {showSettings && <SchedulerSettingsForm settings={schedulerSettings} onChange={onSchedulerSettingsChange} />}
       <div className="flex-grow overflow-y-auto pr-2 space-y-2">
         {queue.length === 0 && (
           <div className="flex items-center justify-center h-full">
             <p className="text-gray-400">The generation queue is empty.</p>
           </div>
         )}
-        {queue.map(job => {
+        {queue.map((job, index) => {
           return (
-            <div key={job.id} className="bg-gray-900/50 p-3 rounded-lg animate-fade-in">
-              <div className="flex items-center justify-between">
+            <div
+              key={job.id}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                setDraggedJobId(job.id);
+              }}
+              onDragEnd={() => {
+                setDraggedJobId(null);
+                setDropIndex(null);
+              }}
+              onDragOver={(e) => handleDragOver(e, index)}
+              onDrop={handleDrop}
+              className={`group bg-gray-900/50 p-3 rounded-lg animate-fade-in border-y-2 transition-opacity ${
+                draggedJobId === job.id ? 'opacity-40' : ''
+              } ${
+                dropIndex === index ? 'border-t-blue-500' : 'border-t-transparent'
+              } ${
+                dropIndex === index + 1 && index === queue.length - 1 ? 'border-b-blue-500' : 'border-b-transparent'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
                  <div className="flex items-center gap-3 overflow-hidden">
+                    <Bars2Icon className="w-4 h-4 text-gray-600 cursor-grab flex-shrink-0" />
                     <JobStatusIcon status={job.status} />
-                    <p className="text-sm text-gray-200 truncate" title={job.prompt}>
+                    <p className="text-sm text-gray-200 truncate" title={job.originalPrompt ? `${job.prompt}\n\nEnhanced from: ${job.originalPrompt}` : job.prompt}>
                         {job.referenceImages.length > 0 && 
                             <span className="font-semibold text-blue-300 mr-2">[{job.referenceImages.length} Ref]</span>
                         }
+                        {job.originalPrompt && <span className="font-semibold text-purple-300 mr-2">[Enhanced]</span>}
                         {job.prompt}
                     </p>
                 </div>
-                <span className="text-xs text-gray-400 bg-gray-700 px-2 py-1 rounded-full whitespace-nowrap">{job.aspectRatio}</span>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {index > 0 && (
+                    <button
+                      onClick={() => onReorderJob(job.id, 0)}
+                      className="text-gray-500 hover:text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                      aria-label="Move to top"
+                      title="Move to top"
+                    >
+                      <ArrowUpIcon className="w-4 h-4" />
+                    </button>
+                  )}
+                  {(job.status === 'processing' || (job.attempts ?? 0) > 0) && (
+                    <button
+                      onClick={() => onInspectJob(job.id)}
+                      className="text-gray-500 hover:text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                      aria-label="Inspect provider calls"
+                      title="Inspect provider calls"
+                    >
+                      <CommandLineIcon className="w-4 h-4" />
+                    </button>
+                  )}
+                  {(job.status === 'pending' || job.status === 'processing') && (
+                    <button
+                      onClick={() => onCancelJob(job.id)}
+                      className="text-gray-500 hover:text-red-300 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                      aria-label="Cancel job"
+                      title={job.status === 'processing' ? 'Cancel and abort the request' : 'Cancel'}
+                    >
+                      <XMarkIcon className="w-4 h-4" />
+                    </button>
+                  )}
+                  {job.variants > 1 && (
+                    <span className="text-xs text-gray-400 bg-gray-700 px-2 py-1 rounded-full whitespace-nowrap" title={`${job.variants} variants`}>×{job.variants}</span>
+                  )}
+                  <span className="text-xs text-gray-400 bg-gray-700 px-2 py-1 rounded-full whitespace-nowrap">{job.aspectRatio}</span>
+                </div>
               </div>
               {job.status === 'failed' && (
-                <p className="text-xs text-red-400 mt-1 pl-8" title={job.error}>
-                    <strong>Failed:</strong> {job.error}
+                <FailedJobDetails
+                  job={job}
+                  onRetry={() => onRetryJob(job.id)}
+                  onRequeue={(prompt) => onRequeueJob(job.id, prompt)}
+                  onDiscard={() => onCancelJob(job.id)}
+                />
+              )}
+              {job.status === 'pending' && job.retryAt && (
+                <p className="text-xs text-yellow-300 mt-1 pl-8" title={job.error}>
+                    {job.errorKind && SERVICE_ERROR_LABELS[job.errorKind]} error. Retrying at {new Date(job.retryAt).toLocaleTimeString()} (attempt {(job.attempts ?? 0) + 1} of {schedulerSettings.maxAttempts}).
                 </p>
               )}
+              {job.status === 'interrupted' && (
+                <div className="flex items-center gap-3 text-xs mt-1 pl-8">
+                  <p className="text-orange-300">Interrupted by a reload.</p>
+                  <button onClick={() => onResumeJobs([job.id])} className="flex items-center gap-1 text-gray-300 hover:text-white transition-colors">
+                    <ArrowPathIcon className="w-3.5 h-3.5" /> Resume
+                  </button>
+                  <button onClick={() => onCancelJob(job.id)} className="flex items-center gap-1 text-gray-400 hover:text-red-300 transition-colors">
+                    <TrashIcon className="w-3.5 h-3.5" /> Discard
+                  </button>
+                </div>
+              )}
             </div>
           );
         })}
@@ -3,20 +3,23 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
-import { PhotoIcon, PlusIcon, XCircleIcon, UploadIcon } from './icons';
+import { EyeIcon, PhotoIcon, PlusIcon, XCircleIcon, UploadIcon } from './icons';
+import { REFERENCE_ROLES, type ReferenceImage, type ReferenceRole } from '../services/imageProvider';
 
 interface ReferenceImagePanelProps {
-  images: string[];
-  onImagesChange: (images: string[]) => void;
+  images: ReferenceImage[];
+  onImagesChange: (images: ReferenceImage[]) => void;
+  /** Opens the describe dialog for a reference, by its position. */
+  onDescribe: (index: number) => void;
 }
 
 const MAX_IMAGES = 4;
 
-const ReferenceImagePanel: React.FC<ReferenceImagePanelProps> = ({ images, onImagesChange }) => {
+const ReferenceImagePanel: React.FC<ReferenceImagePanelProps> = ({ images, onImagesChange, onDescribe }) => {
 
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files) return;
-    const files = Array.from(e.target.files).slice(0, MAX_IMAGES - images.length);
+    const files = Array.from<File>(e.target.files).slice(0, MAX_IMAGES - images.length);
     
     const base64Promises = files.map(file => {
       return new Promise<string>((resolve, reject) => {
@@ -29,7 +32,7 @@ const ReferenceImagePanel: React.FC<ReferenceImagePanelProps> = ({ images, onIma
 
     try {
       const newImages = await Promise.all(base64Promises);
-      onImagesChange([...images, ...newImages]);
+      onImagesChange([...images, ...newImages.map((src): ReferenceImage => ({ src, role: 'subject' }))]);
     } catch (error) {
       console.error("Error reading files:", error);
     }
@@ -40,6 +43,10 @@ const ReferenceImagePanel: React.FC<ReferenceImagePanelProps> = ({ images, onIma
     onImagesChange(images.filter((_, i) => i !== index));
   };
 
+  const handleRoleChange = (index: number, role: ReferenceRole) => {
+    onImagesChange(images.map((image, i) => i === index ? { ...image, role } : image));
+  };
+
   return (
     <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 backdrop-blur-sm">
       <div className="flex items-center gap-2">
@@ -49,16 +56,38 @@ const ReferenceImagePanel: React.FC<ReferenceImagePanelProps> = ({ images, onIma
       </div>
 
       <div className="grid grid-cols-4 gap-3">
-        {images.map((src, index) => (
-          <div key={index} className="relative group aspect-square">
-            <img src={src} alt={`Reference ${index + 1}`} className="w-full h-full object-cover rounded-md bg-gray-900/50" />
-            <button
-              onClick={() => handleRemoveImage(index)}
-              className="absolute -top-1.5 -right-1.5 bg-red-600 text-white rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity focus:opacity-100"
-              aria-label={`Remove image ${index + 1}`}
+        {images.map((image, index) => (
+          <div key={index} className="flex flex-col gap-1">
+            <div className="relative group aspect-square">
+              <img src={image.src} alt={`Reference ${index + 1}`} className="w-full h-full object-cover rounded-md bg-gray-900/50" />
+              <span className="absolute top-1 left-1 bg-black/70 text-white text-xs font-bold rounded px-1.5">{index + 1}</span>
+              <button
+                onClick={() => handleRemoveImage(index)}
+                className="absolute -top-1.5 -right-1.5 bg-red-600 text-white rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity focus:opacity-100"
+                aria-label={`Remove image ${index + 1}`}
+              >
+                <XCircleIcon className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => onDescribe(index)}
+                className="absolute bottom-1 right-1 bg-black/70 hover:bg-black/90 text-white rounded p-0.5 opacity-0 group-hover:opacity-100 transition-opacity focus:opacity-100"
+                aria-label={`Describe image ${index + 1}`}
+                title="Describe this image and suggest a prompt"
+              >
+                <EyeIcon className="w-4 h-4" />
+              </button>
+            </div>
+            <select
+              value={image.role}
+              onChange={(e) => handleRoleChange(index, e.target.value as ReferenceRole)}
+              className="w-full bg-gray-800 border border-gray-600 text-gray-200 text-xs rounded-md px-1 py-1 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              aria-label={`Role of image ${index + 1}`}
+              title={REFERENCE_ROLES[image.role].instruction}
             >
-              <XCircleIcon className="w-5 h-5" />
-            </button>
+              {(Object.keys(REFERENCE_ROLES) as ReferenceRole[]).map(role => (
+                <option key={role} value={role}>{REFERENCE_ROLES[role].label}</option>
+              ))}
+            </select>
           </div>
         ))}
         {images.length < MAX_IMAGES && (
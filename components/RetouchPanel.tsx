@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import type { MaskTool } from './EditorCanvas';
+
+interface RetouchPanelProps {
+  onApplyRetouch: (prompt: string) => void;
+  maskTool: MaskTool;
+  onMaskToolChange: (tool: MaskTool) => void;
+  brushSize: number;
+  onBrushSizeChange: (size: number) => void;
+  hasMask: boolean;
+  onClearMask: () => void;
+  isLoading: boolean;
+}
+
+const MASK_TOOLS: { id: MaskTool; label: string }[] = [
+  { id: 'brush', label: 'Brush' },
+  { id: 'lasso', label: 'Lasso' },
+  { id: 'erase', label: 'Erase' },
+];
+
+const RetouchPanel: React.FC<RetouchPanelProps> = ({ onApplyRetouch, maskTool, onMaskToolChange, brushSize, onBrushSizeChange, hasMask, onClearMask, isLoading }) => {
+  const [prompt, setPrompt] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (prompt.trim() && hasMask) {
+      onApplyRetouch(prompt.trim());
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+      <h3 className="text-lg font-semibold text-center text-gray-300">Retouch a Region</h3>
+      <p className="text-sm text-gray-400 text-center -mt-2">Paint over the area to change. Everything outside it stays exactly as it is.</p>
+
+      <div className="flex items-center gap-2">
+        {MASK_TOOLS.map(({ id, label }) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => onMaskToolChange(id)}
+            disabled={isLoading}
+            className={`flex-1 px-3 py-2 rounded-md font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+              maskTool === id
+              ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20'
+              : 'bg-white/10 hover:bg-white/20 text-gray-200'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={onClearMask}
+          disabled={isLoading || !hasMask}
+          className="px-3 py-2 rounded-md text-gray-300 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Clear
+        </button>
+      </div>
+
+      {maskTool !== 'lasso' && (
+        <label className="flex items-center gap-3 text-sm text-gray-400">
+          Brush size
+          <input
+            type="range"
+            min={5}
+            max={120}
+            value={brushSize}
+            onChange={e => onBrushSizeChange(Number(e.target.value))}
+            className="flex-grow accent-blue-500"
+            disabled={isLoading}
+          />
+          <span className="w-10 text-right text-gray-300">{brushSize}px</span>
+        </label>
+      )}
+
+      <input
+        type="text"
+        value={prompt}
+        onChange={e => setPrompt(e.target.value)}
+        placeholder="Describe the change (e.g., 'replace with a potted plant')"
+        className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-4 focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60 text-base"
+        disabled={isLoading}
+      />
+
+      <button
+        type="submit"
+        className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+        disabled={isLoading || !hasMask || !prompt.trim()}
+      >
+        {hasMask ? 'Apply to Selection' : 'Paint a selection first'}
+      </button>
+    </form>
+  );
+};
+
+export default RetouchPanel;
@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { StarIcon } from './icons';
+
+interface StarRatingProps {
+  /** From 1 to 5, or undefined when unrated. */
+  rating?: number;
+  /** Called with the new rating; clicking the current rating clears it. */
+  onChange: (rating: number | undefined) => void;
+}
+
+const STARS = [1, 2, 3, 4, 5];
+
+const StarRating: React.FC<StarRatingProps> = ({ rating = 0, onChange }) => (
+  <div className="flex items-center" role="radiogroup" aria-label="Rating">
+    {STARS.map(star => (
+      <button
+        key={star}
+        type="button"
+        role="radio"
+        aria-checked={rating === star}
+        aria-label={`${star} star${star === 1 ? '' : 's'}`}
+        title={rating === star ? 'Clear rating' : `Rate ${star} star${star === 1 ? '' : 's'}`}
+        onClick={() => onChange(rating === star ? undefined : star)}
+        className="p-0.5 text-yellow-400 hover:scale-110 transition-transform"
+      >
+        <StarIcon className="w-5 h-5" filled={star <= rating} />
+      </button>
+    ))}
+  </div>
+);
+
+export default StarRating;
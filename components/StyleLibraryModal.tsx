@@ -0,0 +1,286 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import type { StyleCategory, StylePreset } from '../App';
+import { PaletteIcon, PlusIcon, TrashIcon, UploadIcon, XCircleIcon, XMarkIcon } from './icons';
+import { blobToDataUrl, downscaleImage } from '../utils/imageUtils';
+import { downloadBlob } from '../utils/fileUtils';
+import { STYLE_CATEGORIES, exportStylePresets, importStylePresets, type PortableStylePreset } from '../utils/styleUtils';
+
+interface StyleLibraryModalProps {
+  presets: StylePreset[];
+  onSave: (preset: StylePreset) => void;
+  onDelete: (id: string) => void;
+  onImport: (presets: PortableStylePreset[]) => void;
+  onClose: () => void;
+}
+
+/** Reference images are stored and sent at no more than this size; a style needs little detail. */
+const REFERENCE_MAX_DIMENSION = 1024;
+
+interface StylePresetFormProps {
+  initial: StylePreset | null;
+  onSave: (preset: StylePreset) => void;
+  onCancel: () => void;
+}
+
+const StylePresetForm: React.FC<StylePresetFormProps> = ({ initial, onSave, onCancel }) => {
+  const [name, setName] = useState(initial?.name ?? '');
+  const [prompt, setPrompt] = useState(initial?.prompt ?? '');
+  const [category, setCategory] = useState<StyleCategory>(initial?.category ?? 'style');
+  const [placement, setPlacement] = useState<StylePreset['placement']>(initial?.placement ?? 'suffix');
+  const [referenceImage, setReferenceImage] = useState(initial?.referenceImage);
+
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      try {
+        setReferenceImage(await downscaleImage(await blobToDataUrl(file), REFERENCE_MAX_DIMENSION));
+      } catch (error) {
+        console.error("Error reading file:", error);
+      }
+    }
+    e.target.value = '';
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || (!prompt.trim() && !referenceImage)) return;
+    onSave({
+      id: initial?.id ?? crypto.randomUUID(),
+      name: name.trim(),
+      prompt: prompt.trim(),
+      category,
+      placement,
+      referenceImage,
+      createdAt: initial?.createdAt ?? Date.now(),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-3 animate-fade-in">
+      <h3 className="text-lg font-semibold text-gray-200">{initial ? 'Edit Preset' : 'New Preset'}</h3>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="flex flex-col gap-1 text-sm text-gray-400">
+          Name
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="e.g. Brand catalog look"
+            className="bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            autoFocus
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-400">
+          Category
+          <select
+            value={category}
+            onChange={e => setCategory(e.target.value as StyleCategory)}
+            className="bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          >
+            {(Object.keys(STYLE_CATEGORIES) as StyleCategory[]).map(value => (
+              <option key={value} value={value}>{STYLE_CATEGORIES[value]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <label className="flex flex-col gap-1 text-sm text-gray-400">
+        Prompt fragment
+        <textarea
+          value={prompt}
+          onChange={e => setPrompt(e.target.value)}
+          placeholder="e.g. soft window light, muted pastel palette, shot on medium format film"
+          rows={3}
+          className="bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-2 focus:ring-2 focus:ring-blue-500 focus:outline-none resize-none"
+        />
+      </label>
+      <fieldset className="flex items-center gap-4 text-sm text-gray-400">
+        <legend className="sr-only">Placement in generation prompts</legend>
+        In generation prompts, add it
+        {(['prefix', 'suffix'] as const).map(value => (
+          <label key={value} className="flex items-center gap-1 text-gray-300">
+            <input type="radio" name="placement" checked={placement === value} onChange={() => setPlacement(value)} className="accent-blue-500" />
+            {value === 'prefix' ? 'before' : 'after'}
+          </label>
+        ))}
+      </fieldset>
+      <div className="flex flex-col gap-1">
+        <span className="text-sm text-gray-400">Style reference (optional)</span>
+        {referenceImage ? (
+          <div className="relative group w-24 h-24">
+            <img src={referenceImage} alt="Style reference" className="w-full h-full object-cover rounded-md bg-gray-800" />
+            <button
+              type="button"
+              onClick={() => setReferenceImage(undefined)}
+              className="absolute -top-1.5 -right-1.5 bg-red-600 text-white rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity focus:opacity-100"
+              aria-label="Remove style reference"
+            >
+              <XCircleIcon className="w-5 h-5" />
+            </button>
+          </div>
+        ) : (
+          <label className="cursor-pointer w-24 h-24 flex flex-col items-center justify-center bg-gray-700/50 hover:bg-gray-700/80 text-gray-400 border-2 border-dashed border-gray-600 hover:border-gray-500 rounded-md transition-colors">
+            <UploadIcon className="w-6 h-6 mb-1" />
+            <span className="text-xs font-semibold">Upload</span>
+            <input type="file" accept="image/*" className="hidden" onChange={handleImageUpload} />
+          </label>
+        )}
+      </div>
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-4 py-2 rounded-md text-gray-300 hover:text-white transition-colors">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!name.trim() || (!prompt.trim() && !referenceImage)}
+          className="px-5 py-2 rounded-md bg-blue-600 hover:bg-blue-500 text-white font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {initial ? 'Save Changes' : 'Add Preset'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+/**
+ * Manages the style preset library and shares it as JSON files.
+ */
+const StyleLibraryModal: React.FC<StyleLibraryModalProps> = ({ presets, onSave, onDelete, onImport, onClose }) => {
+  // undefined: no form open; null: adding; otherwise the preset being edited
+  const [editing, setEditing] = useState<StylePreset | null | undefined>(undefined);
+  const [notice, setNotice] = useState<{ message: string; isError: boolean } | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleSave = (preset: StylePreset) => {
+    onSave(preset);
+    setEditing(undefined);
+  };
+
+  const handleExport = async () => {
+    try {
+      const json = await exportStylePresets(presets);
+      downloadBlob(new Blob([json], { type: 'application/json' }), 'style-presets.json');
+    } catch (e) {
+      console.error("Failed to export style presets", e);
+      setNotice({ message: 'Export failed.', isError: true });
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = importStylePresets(await file.text());
+      onImport(imported);
+      setNotice({ message: `Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}. Presets with the same name and category were updated.`, isError: false });
+    } catch (error) {
+      console.error("Failed to import style presets", error);
+      setNotice({ message: error instanceof SyntaxError ? 'The file is not valid JSON.' : error instanceof Error ? error.message : 'Import failed.', isError: true });
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={e => e.target === e.currentTarget && onClose()}
+    >
+      <div
+        className="bg-gray-900 border border-gray-700 rounded-lg shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="style-library-title"
+      >
+        <div className="flex items-center gap-3 p-4 border-b border-gray-700">
+          <PaletteIcon className="w-6 h-6 text-gray-400" />
+          <h2 id="style-library-title" className="text-2xl font-bold text-gray-100">Style Presets</h2>
+          <div className="ml-auto flex items-center gap-2">
+            <label className="cursor-pointer px-3 py-1.5 rounded-md bg-white/10 hover:bg-white/20 text-gray-200 text-sm font-semibold transition-colors">
+              Import
+              <input type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+            </label>
+            <button
+              onClick={handleExport}
+              disabled={presets.length === 0}
+              className="px-3 py-1.5 rounded-md bg-white/10 hover:bg-white/20 text-gray-200 text-sm font-semibold transition-colors disabled:opacity-50"
+            >
+              Export
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Close">
+              <XMarkIcon className="w-7 h-7" />
+            </button>
+          </div>
+        </div>
+
+        {notice && (
+          <p className={`mx-4 mt-3 text-sm p-2 rounded-md ${notice.isError ? 'bg-red-900/50 text-red-300' : 'bg-blue-900/40 text-blue-200'}`}>
+            {notice.message}
+          </p>
+        )}
+
+        <div className="flex-grow overflow-y-auto p-4 grid md:grid-cols-2 gap-6">
+          <div className="flex flex-col gap-4">
+            <button
+              onClick={() => setEditing(null)}
+              className="self-start flex items-center gap-1 text-sm text-blue-300 hover:text-blue-200 transition-colors"
+            >
+              <PlusIcon className="w-4 h-4" />
+              New preset
+            </button>
+            {presets.length === 0 && <p className="text-sm text-gray-500">The library is empty. Add a preset or import a file.</p>}
+            {(Object.keys(STYLE_CATEGORIES) as StyleCategory[]).map(category => {
+              const inCategory = presets.filter(preset => preset.category === category);
+              if (inCategory.length === 0) return null;
+              return (
+                <section key={category} className="flex flex-col gap-2">
+                  <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-400">{STYLE_CATEGORIES[category]}</h3>
+                  <ul className="flex flex-col gap-1">
+                    {inCategory.map(preset => (
+                      <li
+                        key={preset.id}
+                        className={`flex items-center gap-3 p-2 rounded-md border transition-colors ${editing?.id === preset.id ? 'border-blue-500 bg-blue-900/20' : 'border-transparent bg-gray-800/50'}`}
+                      >
+                        {preset.referenceImage && <img src={preset.referenceImage} alt="" className="w-10 h-10 object-cover rounded flex-shrink-0" />}
+                        <button onClick={() => setEditing(preset)} className="flex-grow min-w-0 text-left">
+                          <span className="block font-semibold text-gray-200 truncate">{preset.name}</span>
+                          <span className="block text-xs text-gray-400 truncate" title={preset.prompt}>{preset.prompt}</span>
+                        </button>
+                        <button onClick={() => onDelete(preset.id)} className="text-gray-500 hover:text-red-400 transition-colors" aria-label={`Delete ${preset.name}`}>
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              );
+            })}
+          </div>
+          <div>
+            {editing !== undefined ? (
+              <StylePresetForm key={editing?.id ?? 'new'} initial={editing} onSave={handleSave} onCancel={() => setEditing(undefined)} />
+            ) : (
+              <p className="text-sm text-gray-500">
+                Style presets add a prompt fragment, and optionally a reference image to match, to new generations.
+                Adjustment and filter presets also appear in the photo editor. Export the library to share your house styles with the team.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StyleLibraryModal;
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useId, useState } from 'react';
+import { normalizeTag } from '../utils/galleryFilters';
+import { XMarkIcon } from './icons';
+
+interface TagEditorProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  /** Tags already used elsewhere in the gallery, offered as completions. */
+  suggestions: string[];
+}
+
+/**
+ * Shows an image's tags as removable chips, with an input that adds a tag on Enter.
+ */
+const TagEditor: React.FC<TagEditorProps> = ({ tags, onChange, suggestions }) => {
+  const [draft, setDraft] = useState('');
+  const listId = useId();
+
+  const addTag = () => {
+    const tag = normalizeTag(draft);
+    if (tag && !tags.includes(tag)) {
+      onChange([...tags, tag]);
+    }
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag();
+    } else if (e.key === 'Backspace' && draft === '' && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center gap-1 bg-blue-900/50 text-blue-200 text-xs px-2 py-0.5 rounded-full">
+          {tag}
+          <button
+            type="button"
+            onClick={() => onChange(tags.filter(t => t !== tag))}
+            className="text-blue-300 hover:text-white transition-colors"
+            aria-label={`Remove tag ${tag}`}
+          >
+            <XMarkIcon className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={addTag}
+        list={listId}
+        placeholder={tags.length === 0 ? 'Add tags' : 'Add tag'}
+        className="flex-grow min-w-[6rem] bg-transparent text-xs text-gray-200 placeholder-gray-500 focus:outline-none py-0.5"
+        aria-label="Add tag"
+      />
+      <datalist id={listId}>
+        {suggestions.filter(tag => !tags.includes(tag)).map(tag => <option key={tag} value={tag} />)}
+      </datalist>
+    </div>
+  );
+};
+
+export default TagEditor;
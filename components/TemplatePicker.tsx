@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { PromptTemplate } from '../App';
+import { TrashIcon } from './icons';
+
+interface TemplatePickerProps {
+  templates: PromptTemplate[];
+  /** The saved template currently loaded into the prompt, if any. */
+  activeTemplate: PromptTemplate | null;
+  /** The prompt text that Save would store. */
+  text: string;
+  onLoad: (template: PromptTemplate) => void;
+  onSave: (template: PromptTemplate) => void;
+  onDelete: (id: string) => void;
+}
+
+/**
+ * Loads, saves and deletes prompt templates. Saving under the loaded template's name updates it;
+ * any other name saves a new template.
+ */
+const TemplatePicker: React.FC<TemplatePickerProps> = ({ templates, activeTemplate, text, onLoad, onSave, onDelete }) => {
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState('');
+
+  const startSaving = () => {
+    setName(activeTemplate?.name ?? '');
+    setIsNaming(true);
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const existing = activeTemplate?.name === trimmed ? activeTemplate : undefined;
+    onSave({
+      id: existing?.id ?? crypto.randomUUID(),
+      name: trimmed,
+      text,
+      createdAt: existing?.createdAt ?? Date.now(),
+    });
+    setIsNaming(false);
+  };
+
+  if (isNaming) {
+    return (
+      <div className="flex items-center gap-2 animate-fade-in">
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleSave();
+            } else if (e.key === 'Escape') {
+              setIsNaming(false);
+            }
+          }}
+          placeholder="Template name"
+          className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          autoFocus
+        />
+        <button type="button" onClick={handleSave} disabled={!name.trim()} className="text-sm font-semibold text-blue-300 hover:text-white transition-colors disabled:opacity-50">
+          Save
+        </button>
+        <button type="button" onClick={() => setIsNaming(false)} className="text-sm text-gray-400 hover:text-white transition-colors">
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={activeTemplate?.id ?? ''}
+        onChange={e => {
+          const template = templates.find(t => t.id === e.target.value);
+          if (template) onLoad(template);
+        }}
+        disabled={templates.length === 0}
+        className="flex-grow min-w-0 bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50"
+        aria-label="Prompt template"
+      >
+        <option value="">{templates.length === 0 ? 'No saved templates' : 'Load a template...'}</option>
+        {templates.map(template => (
+          <option key={template.id} value={template.id}>{template.name}</option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={startSaving}
+        disabled={!text.trim()}
+        className="text-sm text-blue-300 hover:text-blue-200 transition-colors whitespace-nowrap disabled:opacity-50"
+        title="Save the prompt as a template"
+      >
+        Save as template
+      </button>
+      {activeTemplate && (
+        <button
+          type="button"
+          onClick={() => onDelete(activeTemplate.id)}
+          className="text-gray-500 hover:text-red-400 transition-colors"
+          aria-label={`Delete template ${activeTemplate.name}`}
+        >
+          <TrashIcon className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TemplatePicker;
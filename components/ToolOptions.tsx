@@ -2,3 +2,96 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React from 'react';
+import AdjustmentPanel from './AdjustmentPanel';
+import CropPanel from './CropPanel';
+import FilterPanel from './FilterPanel';
+import RetouchPanel from './RetouchPanel';
+import type { StylePreset } from '../App';
+import type { MaskTool } from './EditorCanvas';
+import type { EditorTool } from './Toolbar';
+import type { ImageOperation } from '../utils/imageUtils';
+
+type TransformOperation = Extract<ImageOperation, { type: 'rotate' | 'flip' }>;
+
+interface ToolOptionsProps {
+  tool: EditorTool;
+  isLoading: boolean;
+  isCropping: boolean;
+  stylePresets: StylePreset[];
+  onManageStyles: () => void;
+  onApplyAdjustment: (prompt: string, preset?: StylePreset) => void;
+  onApplyFilter: (prompt: string, preset?: StylePreset) => void;
+  onApplyCrop: () => void;
+  onSetAspect: (aspect: number | undefined) => void;
+  onTransform: (operation: TransformOperation) => void;
+  onApplyRetouch: (prompt: string) => void;
+  maskTool: MaskTool;
+  onMaskToolChange: (tool: MaskTool) => void;
+  brushSize: number;
+  onBrushSizeChange: (size: number) => void;
+  hasMask: boolean;
+  onClearMask: () => void;
+}
+
+const TRANSFORMS: { label: string; operation: TransformOperation }[] = [
+  { label: 'Rotate left', operation: { type: 'rotate', degrees: 270 } },
+  { label: 'Rotate right', operation: { type: 'rotate', degrees: 90 } },
+  { label: 'Flip horizontal', operation: { type: 'flip', axis: 'horizontal' } },
+  { label: 'Flip vertical', operation: { type: 'flip', axis: 'vertical' } },
+];
+
+const TransformControls: React.FC<{ onTransform: (operation: TransformOperation) => void; isLoading: boolean }> = ({ onTransform, isLoading }) => (
+  <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col items-center gap-3 animate-fade-in backdrop-blur-sm">
+    <h3 className="text-lg font-semibold text-gray-300">Rotate & Flip</h3>
+    <div className="grid grid-cols-2 gap-2 w-full">
+      {TRANSFORMS.map(({ label, operation }) => (
+        <button
+          key={label}
+          onClick={() => onTransform(operation)}
+          disabled={isLoading}
+          className="bg-white/10 hover:bg-white/20 text-gray-200 font-semibold py-2 px-3 rounded-md transition-all duration-200 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+/**
+ * Shows the options panel for the active editor tool.
+ */
+const ToolOptions: React.FC<ToolOptionsProps> = ({ tool, isLoading, isCropping, stylePresets, onManageStyles, onApplyAdjustment, onApplyFilter, onApplyCrop, onSetAspect, onTransform, ...retouch }) => {
+  switch (tool) {
+    case 'retouch':
+      return <RetouchPanel isLoading={isLoading} {...retouch} />;
+    case 'adjust':
+      return (
+        <AdjustmentPanel
+          presets={stylePresets.filter(preset => preset.category === 'adjustment')}
+          onApplyAdjustment={onApplyAdjustment}
+          onManagePresets={onManageStyles}
+          isLoading={isLoading}
+        />
+      );
+    case 'filter':
+      return (
+        <FilterPanel
+          presets={stylePresets.filter(preset => preset.category === 'filter')}
+          onApplyFilter={onApplyFilter}
+          onManagePresets={onManageStyles}
+          isLoading={isLoading}
+        />
+      );
+    case 'crop':
+      return (
+        <>
+          <CropPanel onApplyCrop={onApplyCrop} onSetAspect={onSetAspect} isLoading={isLoading} isCropping={isCropping} />
+          <TransformControls onTransform={onTransform} isLoading={isLoading} />
+        </>
+      );
+  }
+};
+
+export default ToolOptions;
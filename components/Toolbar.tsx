@@ -2,3 +2,65 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React from 'react';
+import { ArrowUturnLeftIcon, MagicWandIcon, PaletteIcon, ScissorsIcon, SunIcon, XMarkIcon } from './icons';
+
+export type EditorTool = 'retouch' | 'adjust' | 'filter' | 'crop';
+
+interface ToolbarProps {
+  activeTool: EditorTool;
+  onToolChange: (tool: EditorTool) => void;
+  canUndo: boolean;
+  onUndo: () => void;
+  onClose: () => void;
+  isLoading: boolean;
+}
+
+const TOOLS: { id: EditorTool; label: string; icon: React.FC<{ className?: string }> }[] = [
+  { id: 'retouch', label: 'Retouch', icon: MagicWandIcon },
+  { id: 'adjust', label: 'Adjust', icon: SunIcon },
+  { id: 'filter', label: 'Filters', icon: PaletteIcon },
+  { id: 'crop', label: 'Crop', icon: ScissorsIcon },
+];
+
+const Toolbar: React.FC<ToolbarProps> = ({ activeTool, onToolChange, canUndo, onUndo, onClose, isLoading }) => {
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-2 flex items-center gap-2 backdrop-blur-sm">
+      <div className="flex items-center gap-1" role="tablist" aria-label="Editing tools">
+        {TOOLS.map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            role="tab"
+            aria-selected={activeTool === id}
+            onClick={() => onToolChange(id)}
+            disabled={isLoading}
+            className={`flex items-center gap-2 px-4 py-2 rounded-md font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+              activeTool === id
+              ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20'
+              : 'bg-white/10 hover:bg-white/20 text-gray-200'
+            }`}
+          >
+            <Icon className="w-5 h-5" />
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="ml-auto flex items-center gap-1">
+        <button
+          onClick={onUndo}
+          disabled={isLoading || !canUndo}
+          className="flex items-center gap-2 px-3 py-2 rounded-md text-gray-200 bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Go back to the previous version"
+        >
+          <ArrowUturnLeftIcon className="w-5 h-5" />
+          Undo
+        </button>
+        <button onClick={onClose} className="p-2 text-gray-400 hover:text-white transition-colors" aria-label="Close editor">
+          <XMarkIcon className="w-6 h-6" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Toolbar;
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect } from 'react';
+import type { GalleryItem } from '../App';
+import { TRASH_RETENTION_OPTIONS, getPurgeTime } from '../services/galleryStorage';
+import { formatBytes } from '../utils/formatUtils';
+import { getCurrentVersions, getLineageKey } from '../utils/lineageUtils';
+import { ArrowUturnLeftIcon, TrashIcon, XMarkIcon } from './icons';
+
+interface TrashModalProps {
+  /** Every trashed item, including earlier versions. */
+  trash: GalleryItem[];
+  /** Bytes that emptying the trash would free, if known. */
+  trashBytes?: number;
+  retentionDays: number;
+  onRetentionChange: (days: number) => void;
+  /** Restores each item's lineage to the gallery. */
+  onRestore: (items: GalleryItem[]) => void;
+  /** Permanently deletes each item's lineage. */
+  onPurge: (items: GalleryItem[]) => void;
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const describePurge = (purgeAt: number) => {
+  const days = Math.ceil((purgeAt - Date.now()) / DAY_MS);
+  return days <= 1 ? 'Deleted permanently within a day' : `Deleted permanently in ${days} days`;
+};
+
+/**
+ * Lists deleted images, which can be restored until they are purged after the retention period.
+ */
+const TrashModal: React.FC<TrashModalProps> = ({ trash, trashBytes, retentionDays, onRetentionChange, onRestore, onPurge, onClose }) => {
+  const items = getCurrentVersions(trash);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={e => e.target === e.currentTarget && onClose()}
+    >
+      <div
+        className="bg-gray-900 border border-gray-700 rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="trash-title"
+      >
+        <div className="flex items-center gap-3 p-4 border-b border-gray-700">
+          <TrashIcon className="w-6 h-6 text-gray-400" />
+          <h2 id="trash-title" className="text-2xl font-bold text-gray-100">Trash</h2>
+          <div className="ml-auto flex items-center gap-2">
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              Keep for
+              <select
+                value={retentionDays}
+                onChange={e => onRetentionChange(Number(e.target.value))}
+                className="bg-gray-800 border border-gray-600 text-gray-200 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              >
+                {TRASH_RETENTION_OPTIONS.map(days => (
+                  <option key={days} value={days}>{days} day{days === 1 ? '' : 's'}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={() => onRestore(items)}
+              disabled={items.length === 0}
+              className="px-3 py-1.5 rounded-md bg-white/10 hover:bg-white/20 text-gray-200 text-sm font-semibold transition-colors disabled:opacity-50"
+            >
+              Restore all
+            </button>
+            <button
+              onClick={() => onPurge(items)}
+              disabled={items.length === 0}
+              className="px-3 py-1.5 rounded-md bg-red-600/80 hover:bg-red-600 text-white text-sm font-semibold transition-colors disabled:opacity-50"
+              title={trashBytes ? `Frees ${formatBytes(trashBytes)}` : undefined}
+            >
+              Empty trash
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Close">
+              <XMarkIcon className="w-7 h-7" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-4">
+          {items.length === 0 ? (
+            <p className="text-sm text-gray-500">The trash is empty. Deleted images stay here for {retentionDays} day{retentionDays === 1 ? '' : 's'} before they are removed for good.</p>
+          ) : (
+            <ul className="flex flex-col gap-2">
+              {items.map(item => {
+                const versionCount = trash.filter(version => getLineageKey(version) === getLineageKey(item)).length;
+                return (
+                  <li key={item.id} className="flex items-center gap-3 p-2 rounded-md bg-gray-800/50">
+                    <img src={item.src} alt={item.prompt} className="w-14 h-14 object-cover rounded flex-shrink-0" />
+                    <div className="flex-grow min-w-0">
+                      <p className="text-sm text-gray-200 truncate" title={item.prompt}>{item.prompt}</p>
+                      <p className="text-xs text-gray-400">
+                        {versionCount > 1 && `${versionCount} versions · `}
+                        Deleted {new Date(item.deletedAt ?? 0).toLocaleString()} · {describePurge(getPurgeTime(item, retentionDays))}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => onRestore([item])}
+                      className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-semibold text-blue-300 hover:text-white hover:bg-white/10 transition-colors"
+                    >
+                      <ArrowUturnLeftIcon className="w-4 h-4" />
+                      Restore
+                    </button>
+                    <button onClick={() => onPurge([item])} className="text-gray-500 hover:text-red-400 transition-colors" aria-label="Delete permanently" title="Delete permanently">
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrashModal;
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect } from 'react';
+import { ArrowUturnLeftIcon, XMarkIcon } from './icons';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  /** Called when the toast times out or is closed without undoing. */
+  onDismiss: () => void;
+  durationMs?: number;
+}
+
+/**
+ * A notice with an Undo button that disappears after a few seconds.
+ * Remount it (with a new key) to restart the timer for a new action.
+ */
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss, durationMs = 8000 }) => {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, durationMs);
+    return () => clearTimeout(timer);
+  }, [onDismiss, durationMs]);
+
+  return (
+    <div
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-4 bg-gray-800 border border-gray-600 text-gray-200 text-sm pl-4 pr-2 py-2 rounded-lg shadow-2xl animate-fade-in"
+      role="status"
+    >
+      <span>{message}</span>
+      <button
+        onClick={onUndo}
+        className="flex items-center gap-1 px-2 py-1 rounded-md font-semibold text-blue-300 hover:text-white hover:bg-white/10 transition-colors"
+      >
+        <ArrowUturnLeftIcon className="w-4 h-4" />
+        Undo
+      </button>
+      <button onClick={onDismiss} className="text-gray-400 hover:text-white transition-colors" aria-label="Dismiss">
+        <XMarkIcon className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default UndoToast;
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Character } from '../App';
+import { STORES, promisifyRequest, runTransaction } from './db';
+import { dataUrlToBlob, ensureDataUrl } from '../utils/imageUtils';
+
+interface CharacterRecord extends Omit<Character, 'images'> {
+    images: Blob[];
+}
+
+/**
+ * Loads the character library, oldest first. Reference shots are returned as object URLs.
+ */
+export const loadCharacters = async (): Promise<Character[]> => {
+    const records = await runTransaction(STORES.characters, 'readonly', tx =>
+        promisifyRequest(tx.objectStore(STORES.characters).getAll() as IDBRequest<CharacterRecord[]>)
+    );
+    return records
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .map(({ images, ...character }) => ({
+            ...character,
+            images: images.map(blob => URL.createObjectURL(blob)),
+        }));
+};
+
+/**
+ * Saves a character, replacing any existing one with the same id.
+ * @param character The character. Its shots may be data URLs or object URLs.
+ */
+export const saveCharacter = async (character: Character) => {
+    const images = await Promise.all(character.images.map(async src => dataUrlToBlob(await ensureDataUrl(src))));
+    await runTransaction(STORES.characters, 'readwrite', tx => {
+        tx.objectStore(STORES.characters).put({ ...character, images } satisfies CharacterRecord);
+    });
+};
+
+/**
+ * Deletes a character from the library.
+ * @param id The character id.
+ */
+export const deleteCharacter = (id: string) =>
+    runTransaction(STORES.characters, 'readwrite', tx => {
+        tx.objectStore(STORES.characters).delete(id);
+    });
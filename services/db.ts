@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DEFAULT_PROJECT_ID, DEFAULT_PROJECT_NAME, createProject } from '../utils/projectUtils';
+import { DEFAULT_STYLE_PRESETS } from '../utils/styleUtils';
+
+const DB_NAME = 'gemini-studio';
+const DB_VERSION = 9;
+
+export const STORES = {
+    /** Image bytes as Blobs, keyed by gallery item id. */
+    images: 'images',
+    /** Lightweight gallery metadata, keyed by id. */
+    gallery: 'gallery',
+    /** Generation jobs, keyed by id, with their queue position. */
+    queue: 'queue',
+    /** Saved characters with their reference shots as Blobs, keyed by id. */
+    characters: 'characters',
+    /** The product catalog with product photos as Blobs, keyed by id. */
+    products: 'products',
+    /** Recorded provider calls for the debug inspector, keyed by id. */
+    debug: 'debug',
+    /** Saved prompt templates, keyed by id. */
+    templates: 'templates',
+    /** The style preset library with reference images as Blobs, keyed by id. */
+    styles: 'styles',
+    /** Projects with their working references and default settings, keyed by id. */
+    projects: 'projects',
+    /** Image descriptions from the describe action, keyed by the image's hash. */
+    descriptions: 'descriptions',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Creates any object stores that do not exist yet, seeding those that start with content.
+ * Runs whenever DB_VERSION is bumped.
+ */
+const upgrade = (db: IDBDatabase) => {
+    if (!db.objectStoreNames.contains(STORES.images)) {
+        db.createObjectStore(STORES.images);
+    }
+    if (!db.objectStoreNames.contains(STORES.gallery)) {
+        db.createObjectStore(STORES.gallery, { keyPath: 'id' });
+    }
+    if (!db.objectStoreNames.contains(STORES.queue)) {
+        db.createObjectStore(STORES.queue, { keyPath: 'id' });
+    }
+    if (!db.objectStoreNames.contains(STORES.characters)) {
+        db.createObjectStore(STORES.characters, { keyPath: 'id' });
+    }
+    if (!db.objectStoreNames.contains(STORES.products)) {
+        db.createObjectStore(STORES.products, { keyPath: 'id' });
+    }
+    if (!db.objectStoreNames.contains(STORES.debug)) {
+        db.createObjectStore(STORES.debug, { keyPath: 'id' });
+    }
+    if (!db.objectStoreNames.contains(STORES.templates)) {
+        db.createObjectStore(STORES.templates, { keyPath: 'id' });
+    }
+    if (!db.objectStoreNames.contains(STORES.styles)) {
+        const styles = db.createObjectStore(STORES.styles, { keyPath: 'id' });
+        DEFAULT_STYLE_PRESETS.forEach(preset => styles.put(preset));
+    }
+    if (!db.objectStoreNames.contains(STORES.projects)) {
+        // Everything saved so far belongs to the default project
+        const projects = db.createObjectStore(STORES.projects, { keyPath: 'id' });
+        projects.put(createProject(DEFAULT_PROJECT_NAME, DEFAULT_PROJECT_ID));
+    }
+    if (!db.objectStoreNames.contains(STORES.descriptions)) {
+        db.createObjectStore(STORES.descriptions, { keyPath: 'hash' });
+    }
+};
+
+/**
+ * Opens (and on first use creates or upgrades) the application database.
+ * The connection is shared across callers.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => upgrade(request.result);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+/**
+ * Wraps an IDBRequest in a promise.
+ */
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * Runs a callback inside a transaction and resolves with its result once the transaction commits.
+ * A failure anywhere in the transaction (including quota errors) rejects the returned promise.
+ * @param storeNames The stores the transaction spans.
+ * @param mode 'readonly' or 'readwrite'.
+ * @param callback Receives the transaction; may issue any number of requests.
+ */
+export const runTransaction = async <T>(
+    storeNames: StoreName | StoreName[],
+    mode: IDBTransactionMode,
+    callback: (tx: IDBTransaction) => T | Promise<T>
+): Promise<T> => {
+    const db = await openDatabase();
+    const tx = db.transaction(storeNames, mode);
+    const done = new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+    });
+    const result = await callback(tx);
+    await done;
+    return result;
+};
+
+/**
+ * Whether an error means the browser refused to store more data.
+ */
+export const isQuotaExceededError = (error: unknown) =>
+    error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
@@ -0,0 +1,201 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { STORES, promisifyRequest, runTransaction } from './db';
+import type { ProviderId } from './imageProvider';
+import { classifyError, type ServiceErrorKind } from './serviceErrors';
+import { processImage } from '../utils/imageUtils';
+
+export type ProviderOperation = 'generate' | 'edit' | 'upscale' | 'inpaint' | 'enhance' | 'describe';
+
+/** A request part as recorded: text verbatim, images as a size and a small thumbnail. */
+export type DebugPart =
+    | { type: 'text'; text: string }
+    | { type: 'image'; mimeType: string; bytes: number; thumbnail?: string };
+
+/** What the provider sent back, as far as it is known. */
+export interface ResponseDetails {
+    /** The raw response with image bytes removed. */
+    response?: unknown;
+    finishReason?: string;
+    safetyRatings?: unknown;
+    blockReason?: string;
+}
+
+export interface ProviderCallRecord extends ResponseDetails {
+    id: string;
+    /** Groups the calls made for one job or one edit; retries share it. */
+    traceId?: string;
+    provider: ProviderId;
+    operation: ProviderOperation;
+    model: string;
+    parts: DebugPart[];
+    /** Request configuration, without the abort signal. */
+    config: Record<string, unknown>;
+    startedAt: number;
+    durationMs: number;
+    status: 'success' | 'error' | 'cancelled';
+    error?: string;
+    errorKind?: ServiceErrorKind;
+}
+
+/** A request part in the Gemini API's shape, which every provider records in. */
+export type RequestPart = { text: string } | { inlineData: { mimeType: string; data: string } };
+
+export interface CallDetails {
+    traceId?: string;
+    provider: ProviderId;
+    operation: ProviderOperation;
+    model: string;
+    parts: RequestPart[];
+    config: Record<string, unknown>;
+}
+
+/** Only the most recent calls are kept; older ones are dropped from memory and storage. */
+const MAX_RECORDS = 200;
+const THUMBNAIL_SIZE = 96;
+/** Fields of a raw response that hold base64 image bytes, which are replaced by their length. */
+const IMAGE_DATA_FIELDS = new Set(['imageBytes', 'bytesBase64Encoded']);
+
+let records: ProviderCallRecord[] = [];
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+/**
+ * Deep-copies a response into plain JSON, replacing image bytes with a note of their size. Text is kept whole.
+ */
+const stripImageData = (value: unknown): unknown => {
+    const isImageData = (key: string, parentKey: string | undefined) =>
+        IMAGE_DATA_FIELDS.has(key) || (key === 'data' && parentKey === 'inlineData');
+    const strip = (node: unknown, parentKey?: string): unknown => {
+        if (Array.isArray(node)) {
+            return node.map(child => strip(child));
+        }
+        if (node && typeof node === 'object') {
+            return Object.fromEntries(Object.entries(node).map(([key, child]) => [
+                key,
+                typeof child === 'string' && isImageData(key, parentKey) ? `<${child.length} characters omitted>` : strip(child, key),
+            ]));
+        }
+        return node;
+    };
+    try {
+        return strip(JSON.parse(JSON.stringify(value)));
+    } catch {
+        return String(value);
+    }
+};
+
+const toDebugPart = async (part: RequestPart): Promise<DebugPart> => {
+    if ('text' in part) {
+        return { type: 'text', text: part.text };
+    }
+    const { mimeType, data } = part.inlineData;
+    const src = `data:${mimeType};base64,${data}`;
+    const thumbnail = await processImage(src, [{ type: 'fit', maxDimension: THUMBNAIL_SIZE }], { format: 'image/jpeg', quality: 0.7 })
+        .catch(() => undefined);
+    return { type: 'image', mimeType, bytes: Math.floor(data.length * 3 / 4), thumbnail };
+};
+
+const persistRecord = (record: ProviderCallRecord, dropped: ProviderCallRecord[]) =>
+    runTransaction(STORES.debug, 'readwrite', tx => {
+        const store = tx.objectStore(STORES.debug);
+        store.put(record);
+        dropped.forEach(old => store.delete(old.id));
+    });
+
+type CallOutcome = ResponseDetails & Pick<ProviderCallRecord, 'startedAt' | 'durationMs' | 'status' | 'error' | 'errorKind'>;
+
+const addRecord = async (details: CallDetails, outcome: CallOutcome) => {
+    const record: ProviderCallRecord = {
+        ...details,
+        ...outcome,
+        id: crypto.randomUUID(),
+        parts: await Promise.all(details.parts.map(toDebugPart)),
+        response: outcome.response === undefined ? undefined : stripImageData(outcome.response),
+    };
+    const next = [...records, record].sort((a, b) => a.startedAt - b.startedAt);
+    const dropped = next.slice(0, Math.max(0, next.length - MAX_RECORDS));
+    records = next.slice(dropped.length);
+    notify();
+    await persistRecord(record, dropped);
+};
+
+/**
+ * Runs a provider call and records it for the debug inspector, whether it succeeds or fails.
+ * Recording happens in the background and never affects the call's outcome.
+ * @param details What is being sent.
+ * @param run Performs the call. It should pass the raw response to capture as soon as it arrives,
+ *   so it is recorded even if later processing of it throws.
+ */
+export const traceProviderCall = async <T>(details: CallDetails, run: (capture: (response: ResponseDetails) => void) => Promise<T>): Promise<T> => {
+    const startedAt = Date.now();
+    let captured: ResponseDetails = {};
+    const record = (outcome: Pick<ProviderCallRecord, 'status' | 'error' | 'errorKind'>) => {
+        addRecord(details, { ...captured, ...outcome, startedAt, durationMs: Date.now() - startedAt })
+            .catch(e => console.error("Failed to record provider call", e));
+    };
+    try {
+        const result = await run(response => { captured = response; });
+        record({ status: 'success' });
+        return result;
+    } catch (error) {
+        const serviceError = classifyError(error);
+        record({
+            status: serviceError.kind === 'cancelled' ? 'cancelled' : 'error',
+            error: serviceError.message,
+            errorKind: serviceError.kind,
+        });
+        throw error;
+    }
+};
+
+/**
+ * Loads calls recorded in earlier sessions. Safe to call repeatedly; only the first call reads storage.
+ */
+export const loadDebugRecords = () => {
+    if (!loadPromise) {
+        loadPromise = runTransaction(STORES.debug, 'readonly', tx =>
+            promisifyRequest(tx.objectStore(STORES.debug).getAll() as IDBRequest<ProviderCallRecord[]>)
+        ).then(saved => {
+            const ids = new Set(records.map(record => record.id));
+            records = [...saved.filter(record => !ids.has(record.id)), ...records].sort((a, b) => a.startedAt - b.startedAt);
+            notify();
+        }).catch(e => {
+            loadPromise = null;
+            console.error("Failed to load debug records from IndexedDB", e);
+        });
+    }
+    return loadPromise;
+};
+
+/**
+ * All recorded calls, oldest first. The array is replaced, never mutated, when records change.
+ */
+export const getDebugRecords = () => records;
+
+/**
+ * Registers a listener for changes to the recorded calls.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToDebugRecords = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+/**
+ * Deletes every recorded call.
+ */
+export const clearDebugRecords = async () => {
+    records = [];
+    notify();
+    await runTransaction(STORES.debug, 'readwrite', tx => {
+        tx.objectStore(STORES.debug).clear();
+    });
+};
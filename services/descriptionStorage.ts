@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageDescription } from '../App';
+import { STORES, promisifyRequest, runTransaction } from './db';
+import type { ProviderId } from './imageProvider';
+
+/**
+ * Looks up the cached description of an image. Only the latest description of each image is kept,
+ * so one written by a different provider counts as missing.
+ * @param hash The image's hash, from hashImage.
+ * @param provider The provider whose description is wanted.
+ * @returns The description, or undefined if the provider has not described the image.
+ */
+export const loadDescription = async (hash: string, provider: ProviderId) => {
+    const description = await runTransaction(STORES.descriptions, 'readonly', tx =>
+        promisifyRequest(tx.objectStore(STORES.descriptions).get(hash) as IDBRequest<ImageDescription | undefined>)
+    );
+    return description?.provider === provider ? description : undefined;
+};
+
+/**
+ * Caches an image description, replacing any earlier one for the same image.
+ * @param description The description.
+ */
+export const saveDescription = (description: ImageDescription) =>
+    runTransaction(STORES.descriptions, 'readwrite', tx => {
+        tx.objectStore(STORES.descriptions).put(description);
+    });
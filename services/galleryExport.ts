@@ -0,0 +1,233 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GalleryItem } from '../App';
+import { SOFTWARE_NAME, embedImageMetadata, type EmbeddedMetadata } from '../utils/imageMetadata';
+import { IMAGE_FORMATS, type ImageFormat } from '../utils/imageUtils';
+import { getCreatedAt } from '../utils/lineageUtils';
+import { getProductLabel } from '../utils/productUtils';
+import { createZip, type ZipEntry } from '../utils/zipUtils';
+
+export type ManifestFormat = 'json' | 'csv' | 'none';
+
+export interface ExportOptions {
+    /** The file name for each image, without extension. Tokens in braces are filled in; see FILENAME_TOKENS. */
+    filenamePattern: string;
+    manifest: ManifestFormat;
+    /** Whether to write the prompt and settings into each image file. */
+    embedMetadata: boolean;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+    filenamePattern: '{date}-{prompt}',
+    manifest: 'json',
+    embedMetadata: true,
+};
+
+export const FILENAME_TOKENS: Record<string, string> = {
+    date: 'Creation date',
+    time: 'Creation time',
+    prompt: 'Start of the prompt',
+    tags: 'Tags',
+    model: 'Model',
+    rating: 'Star rating',
+    index: 'Position in the export',
+    id: 'Image id',
+};
+
+/** One image's record in the export manifest, and the details embedded in its file. */
+export interface ManifestEntry {
+    file?: string;
+    id: string;
+    prompt: string;
+    /** What the user wrote, when the prompt is an enhanced rewrite of it. */
+    originalPrompt?: string;
+    /** ISO timestamp, if known. */
+    createdAt?: string;
+    provider?: string;
+    model?: string;
+    aspectRatio?: string;
+    seed?: number;
+    negativePrompt?: string;
+    style?: string;
+    template?: string;
+    characters?: string[];
+    products?: string[];
+    tags: string[];
+    favorite: boolean;
+    rating?: number;
+    /** How this version was made from its parent, for edited images. */
+    operation?: string;
+    instruction?: string;
+    parentId?: string;
+}
+
+const EXPORT_SETTINGS_STORAGE_KEY = 'gemini-studio-export';
+const MANIFEST_FORMAT = 'gallery-export';
+const MANIFEST_VERSION = 1;
+const MAX_FILENAME_LENGTH = 120;
+const PROMPT_SLUG_LENGTH = 48;
+
+export const loadExportOptions = (): ExportOptions => {
+    try {
+        const saved = localStorage.getItem(EXPORT_SETTINGS_STORAGE_KEY);
+        if (saved) {
+            return { ...DEFAULT_EXPORT_OPTIONS, ...JSON.parse(saved) as Partial<ExportOptions> };
+        }
+    } catch (e) {
+        console.error("Failed to load export options from localStorage", e);
+    }
+    return DEFAULT_EXPORT_OPTIONS;
+};
+
+export const saveExportOptions = (options: ExportOptions) => {
+    try {
+        localStorage.setItem(EXPORT_SETTINGS_STORAGE_KEY, JSON.stringify(options));
+    } catch (e) {
+        console.error("Failed to save export options to localStorage", e);
+    }
+};
+
+export const getManifestEntry = (item: GalleryItem, file?: string): ManifestEntry => {
+    const { metadata, derivation } = item;
+    const createdAt = getCreatedAt(item);
+    return {
+        file,
+        id: item.id,
+        prompt: item.prompt,
+        originalPrompt: metadata?.originalPrompt,
+        createdAt: createdAt ? new Date(createdAt).toISOString() : undefined,
+        provider: derivation?.provider ?? metadata?.provider,
+        model: derivation?.model ?? metadata?.model,
+        aspectRatio: metadata?.aspectRatio,
+        seed: metadata?.seed,
+        negativePrompt: metadata?.negativePrompt,
+        style: metadata?.style?.name,
+        template: metadata?.template?.name,
+        characters: metadata?.characters?.map(character => character.name),
+        products: metadata?.products?.map(getProductLabel),
+        tags: item.tags ?? [],
+        favorite: !!item.favorite,
+        rating: item.rating,
+        operation: derivation?.operation,
+        instruction: derivation?.instruction,
+        parentId: item.parentId,
+    };
+};
+
+export const getEmbeddedMetadata = (item: GalleryItem): EmbeddedMetadata => {
+    const { file, ...details } = getManifestEntry(item);
+    return {
+        description: item.prompt,
+        createdAt: new Date(getCreatedAt(item) || Date.now()),
+        keywords: item.tags ?? [],
+        details: JSON.stringify(details),
+    };
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** Lowercase words joined by hyphens, keeping letters from any script. */
+const slugify = (text: string, maxLength: number) => text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .slice(0, maxLength)
+    .replace(/^-+|-+$/g, '');
+
+/**
+ * Fills in a filename pattern for an image.
+ * @param pattern The pattern, e.g. "{date}-{prompt}".
+ * @param item The image.
+ * @param index The image's 1-based position in the export.
+ * @returns A file name without extension, safe on common file systems.
+ */
+export const formatFilename = (pattern: string, item: GalleryItem, index: number) => {
+    const createdAt = getCreatedAt(item);
+    const date = createdAt ? new Date(createdAt) : null;
+    const values: Record<string, string> = {
+        date: date ? `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` : 'undated',
+        time: date ? `${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}` : '',
+        prompt: slugify(item.prompt, PROMPT_SLUG_LENGTH),
+        tags: (item.tags ?? []).map(tag => slugify(tag, PROMPT_SLUG_LENGTH)).join('_'),
+        model: item.derivation?.model ?? item.metadata?.model ?? '',
+        rating: item.rating ? `${item.rating}star` : '',
+        index: String(index),
+        id: item.id,
+    };
+    const name = pattern
+        .replace(/\{(\w+)\}/g, (token, key: string) => key in values ? values[key] : token)
+        .replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '')
+        .replace(/\s+/g, '-')
+        // Tokens that came out empty leave separators behind
+        .replace(/([-_.])[-_.]+/g, '$1')
+        .replace(/^[-_.]+|[-_.]+$/g, '')
+        .slice(0, MAX_FILENAME_LENGTH);
+    return name || item.id;
+};
+
+const CSV_COLUMNS: (keyof ManifestEntry)[] = [
+    'file', 'id', 'prompt', 'originalPrompt', 'createdAt', 'provider', 'model', 'aspectRatio', 'seed', 'negativePrompt',
+    'style', 'template', 'characters', 'products', 'tags', 'favorite', 'rating', 'operation', 'instruction', 'parentId',
+];
+
+const toCsvField = (value: ManifestEntry[keyof ManifestEntry]) => {
+    const text = Array.isArray(value) ? value.join('; ') : value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const createManifest = (entries: ManifestEntry[], format: Exclude<ManifestFormat, 'none'>): ZipEntry => {
+    const text = format === 'json'
+        ? JSON.stringify({
+            format: MANIFEST_FORMAT,
+            version: MANIFEST_VERSION,
+            software: SOFTWARE_NAME,
+            exportedAt: new Date().toISOString(),
+            images: entries,
+        }, null, 2)
+        : [CSV_COLUMNS.join(','), ...entries.map(entry => CSV_COLUMNS.map(column => toCsvField(entry[column])).join(','))].join('\r\n');
+    return { name: `manifest.${format}`, data: new TextEncoder().encode(text) };
+};
+
+/**
+ * Reads a gallery image's stored bytes, with provenance embedded if requested.
+ * @returns The file contents and its extension, which follows the actual image format.
+ */
+export const readImageFile = async (item: GalleryItem, embed: boolean) => {
+    const blob = await (await fetch(item.src)).blob();
+    const extension = blob.type in IMAGE_FORMATS ? IMAGE_FORMATS[blob.type as ImageFormat].extension : 'png';
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const data = embed ? embedImageMetadata(bytes, blob.type, getEmbeddedMetadata(item)) : bytes;
+    return { data, extension, mimeType: blob.type };
+};
+
+/**
+ * Packs gallery images into a ZIP file, named by the options' pattern, with a manifest describing each one.
+ * @param items The images, in export order.
+ * @param options How to name files, which manifest to write and whether to embed metadata.
+ * @param onProgress Called after each image is packed with the number done so far.
+ * @returns The ZIP file.
+ */
+export const exportGalleryZip = async (items: GalleryItem[], options: ExportOptions, onProgress?: (done: number) => void) => {
+    const entries: ZipEntry[] = [];
+    const manifest: ManifestEntry[] = [];
+    const usedNames = new Set<string>();
+    for (const [index, item] of items.entries()) {
+        const { data, extension } = await readImageFile(item, options.embedMetadata);
+        const base = formatFilename(options.filenamePattern, item, index + 1);
+        let file = `${base}.${extension}`;
+        for (let n = 2; usedNames.has(file.toLowerCase()); n++) {
+            file = `${base}-${n}.${extension}`;
+        }
+        usedNames.add(file.toLowerCase());
+        const createdAt = getCreatedAt(item);
+        entries.push({ name: file, data, modifiedAt: createdAt ? new Date(createdAt) : undefined });
+        manifest.push(getManifestEntry(item, file));
+        onProgress?.(index + 1);
+    }
+    if (options.manifest !== 'none') {
+        entries.push(createManifest(manifest, options.manifest));
+    }
+    return createZip(entries);
+};
@@ -0,0 +1,254 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GalleryItem } from '../App';
+import { STORES, isQuotaExceededError, promisifyRequest, runTransaction } from './db';
+import { dataUrlToBlob, ensureDataUrl } from '../utils/imageUtils';
+import { getProjectId } from '../utils/projectUtils';
+
+/** The key the gallery used to be saved under, before images moved to IndexedDB. */
+const LEGACY_GALLERY_KEY = 'gemini-studio-gallery';
+const TRASH_RETENTION_STORAGE_KEY = 'gemini-studio-trash-retention';
+
+/** How many days deleted images stay in the trash before they are purged. */
+export const TRASH_RETENTION_OPTIONS = [1, 7, 30, 90];
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * What is kept alongside each image Blob. Everything except the bytes themselves.
+ */
+interface GalleryRecord extends Omit<GalleryItem, 'src'> {
+    mimeType: string;
+    size: number;
+    savedAt: number;
+}
+
+export interface ProjectStorageUsage {
+    /** Bytes used by gallery images, including those in the trash. */
+    galleryBytes: number;
+    /** Bytes that emptying the trash would free. */
+    trashBytes: number;
+}
+
+export interface StorageUsage extends ProjectStorageUsage {
+    /** Usage of each project with saved images, by project id. */
+    projects: Record<string, ProjectStorageUsage>;
+    /** Bytes used by this origin overall, if the browser reports it. */
+    usage?: number;
+    /** Bytes available to this origin, if the browser reports it. */
+    quota?: number;
+}
+
+export interface SaveResult {
+    /** Ids of the oldest items that were deleted to make room for the new image. */
+    evicted: string[];
+}
+
+const toBlob = async (src: string) => dataUrlToBlob(await ensureDataUrl(src));
+
+const getAllRecords = () =>
+    runTransaction(STORES.gallery, 'readonly', tx =>
+        promisifyRequest(tx.objectStore(STORES.gallery).getAll() as IDBRequest<GalleryRecord[]>)
+    );
+
+const writeItem = (record: GalleryRecord, blob: Blob) =>
+    runTransaction([STORES.gallery, STORES.images], 'readwrite', tx => {
+        tx.objectStore(STORES.gallery).put(record);
+        tx.objectStore(STORES.images).put(blob, record.id);
+    });
+
+/**
+ * Deletes a gallery item's metadata and image bytes.
+ * @param id The gallery item id.
+ */
+export const deleteGalleryItem = (id: string) =>
+    runTransaction([STORES.gallery, STORES.images], 'readwrite', tx => {
+        tx.objectStore(STORES.gallery).delete(id);
+        tx.objectStore(STORES.images).delete(id);
+    });
+
+/**
+ * Saves a gallery item, replacing any existing image stored under the same id.
+ * If the browser's quota is exhausted, the oldest other items are evicted one at a time until the write fits.
+ * @param item The item to save. Its src may be a data URL or an object URL.
+ * @returns The ids of any evicted items, so the caller can drop them from view and tell the user.
+ */
+export const saveGalleryItem = async (item: GalleryItem): Promise<SaveResult> => {
+    const blob = await toBlob(item.src);
+    const { src, ...metadata } = item;
+    const existing = await runTransaction(STORES.gallery, 'readonly', tx =>
+        promisifyRequest(tx.objectStore(STORES.gallery).get(item.id) as IDBRequest<GalleryRecord | undefined>)
+    );
+    const record: GalleryRecord = {
+        ...metadata,
+        mimeType: blob.type,
+        size: blob.size,
+        savedAt: existing?.savedAt ?? Date.now(),
+    };
+
+    const evicted: string[] = [];
+    while (true) {
+        try {
+            await writeItem(record, blob);
+            return { evicted };
+        } catch (error) {
+            if (!isQuotaExceededError(error)) {
+                throw error;
+            }
+            // Images in the trash go first, as the user has already given them up
+            const oldest = (await getAllRecords())
+                .filter(r => r.id !== item.id)
+                .sort((a, b) => Number(!a.deletedAt) - Number(!b.deletedAt) || a.savedAt - b.savedAt)[0];
+            if (!oldest) {
+                throw new Error('Not enough storage space to save this image, even after clearing older images.');
+            }
+            console.warn(`Storage quota exceeded. Evicting oldest gallery image ${oldest.id}.`);
+            await deleteGalleryItem(oldest.id);
+            evicted.push(oldest.id);
+        }
+    }
+};
+
+/**
+ * Updates an already-saved item's metadata without rewriting its image bytes.
+ * @param item The item with updated fields. Its src is ignored.
+ */
+export const updateGalleryItemMetadata = (item: GalleryItem) =>
+    runTransaction(STORES.gallery, 'readwrite', async tx => {
+        const store = tx.objectStore(STORES.gallery);
+        const existing = await promisifyRequest(store.get(item.id) as IDBRequest<GalleryRecord | undefined>);
+        if (!existing) {
+            throw new Error(`Gallery item ${item.id} has not been saved.`);
+        }
+        const { src, ...metadata } = item;
+        store.put({ ...metadata, mimeType: existing.mimeType, size: existing.size, savedAt: existing.savedAt } satisfies GalleryRecord);
+    });
+
+/**
+ * Moves a gallery saved by earlier versions (data URLs in localStorage) into IndexedDB.
+ * The localStorage entry is only removed once every item has been written.
+ */
+const migrateLegacyGallery = async () => {
+    const saved = localStorage.getItem(LEGACY_GALLERY_KEY);
+    if (!saved) {
+        return;
+    }
+    const legacyItems: GalleryItem[] = JSON.parse(saved);
+    const now = Date.now();
+    // The legacy array is newest first; preserve that order through savedAt.
+    for (const [index, item] of legacyItems.entries()) {
+        const blob = await toBlob(item.src);
+        await writeItem(
+            { id: item.id, prompt: item.prompt, mimeType: blob.type, size: blob.size, savedAt: now - index },
+            blob
+        );
+    }
+    localStorage.removeItem(LEGACY_GALLERY_KEY);
+    console.log(`Migrated ${legacyItems.length} gallery images from localStorage to IndexedDB.`);
+};
+
+/**
+ * Loads the gallery, newest first, migrating a legacy localStorage gallery on first run.
+ * Each item's src is an object URL for its stored Blob; revoke it with URL.revokeObjectURL when discarding the item.
+ */
+export const loadGallery = async (): Promise<GalleryItem[]> => {
+    try {
+        await migrateLegacyGallery();
+    } catch (e) {
+        console.error("Failed to migrate gallery from localStorage", e);
+    }
+
+    // Variants of one job are saved separately; keep each group together, in variant order.
+    const allRecords = await getAllRecords();
+    const groupTimes = new Map<string, number>();
+    allRecords.forEach(record => {
+        const key = record.groupId ?? record.id;
+        groupTimes.set(key, Math.max(groupTimes.get(key) ?? 0, record.savedAt));
+    });
+    const groupTime = (record: GalleryRecord) => groupTimes.get(record.groupId ?? record.id)!;
+    const records = allRecords.sort((a, b) =>
+        groupTime(b) - groupTime(a) ||
+        (a.groupId ?? a.id).localeCompare(b.groupId ?? b.id) ||
+        (a.variantIndex ?? 0) - (b.variantIndex ?? 0)
+    );
+    const blobs = await runTransaction(STORES.images, 'readonly', tx =>
+        Promise.all(records.map(record =>
+            promisifyRequest(tx.objectStore(STORES.images).get(record.id) as IDBRequest<Blob | undefined>)
+        ))
+    );
+
+    return records.flatMap((record, index) => {
+        const blob = blobs[index];
+        if (!blob) {
+            console.warn(`Gallery item ${record.id} has no stored image; skipping.`);
+            return [];
+        }
+        const { mimeType, size, savedAt, ...metadata } = record;
+        return [{ ...metadata, src: URL.createObjectURL(blob) }];
+    });
+};
+
+/**
+ * Reports how much space the gallery, each project's part of it, and the origin as a whole are using.
+ */
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+    const records = await getAllRecords();
+    const projects: Record<string, ProjectStorageUsage> = {};
+    let galleryBytes = 0;
+    let trashBytes = 0;
+    for (const record of records) {
+        const project = projects[getProjectId(record)] ??= { galleryBytes: 0, trashBytes: 0 };
+        const recordTrashBytes = record.deletedAt ? record.size : 0;
+        project.galleryBytes += record.size;
+        project.trashBytes += recordTrashBytes;
+        galleryBytes += record.size;
+        trashBytes += recordTrashBytes;
+    }
+    const estimate = await navigator.storage?.estimate?.();
+    return { galleryBytes, trashBytes, projects, usage: estimate?.usage, quota: estimate?.quota };
+};
+
+/** Usage for a project with no saved images. */
+export const EMPTY_PROJECT_USAGE: ProjectStorageUsage = { galleryBytes: 0, trashBytes: 0 };
+
+/**
+ * Asks the browser not to clear our storage under pressure. Best effort; resolves to whether it was granted.
+ */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+    try {
+        return (await navigator.storage?.persist?.()) ?? false;
+    } catch {
+        return false;
+    }
+};
+
+export const loadTrashRetentionDays = (): number => {
+    try {
+        const saved = Number(localStorage.getItem(TRASH_RETENTION_STORAGE_KEY));
+        if (TRASH_RETENTION_OPTIONS.includes(saved)) {
+            return saved;
+        }
+    } catch (e) {
+        console.error("Failed to load trash retention from localStorage", e);
+    }
+    return DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+export const saveTrashRetentionDays = (days: number) => {
+    try {
+        localStorage.setItem(TRASH_RETENTION_STORAGE_KEY, String(days));
+    } catch (e) {
+        console.error("Failed to save trash retention to localStorage", e);
+    }
+};
+
+/**
+ * When a trashed item is due to be purged.
+ * @param item An item with deletedAt set.
+ * @param retentionDays How long the trash keeps items.
+ * @returns Epoch ms.
+ */
+export const getPurgeTime = (item: GalleryItem, retentionDays: number) => (item.deletedAt ?? 0) + retentionDays * DAY_MS;
@@ -3,161 +3,218 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, Modality } from "@google/genai";
+import { MAX_VARIANTS, getActiveProvider, registerProvider, type AspectRatio, type DescribeResult, type EnhanceResult, type GenerationResult, type ProviderId, type ReferenceImage } from './imageProvider';
+import { geminiProvider } from './providers/geminiProvider';
+import { mockProvider } from './providers/mockProvider';
+import { compositeWithMask, downscaleImage, ensureDataUrl, loadImage, maskToBlackAndWhite } from '../utils/imageUtils';
 
-export type AspectRatio = '1:1' | '16:9' | '9:16' | '4:3' | '3:4';
+export type { AspectRatio } from './imageProvider';
+
+registerProvider(geminiProvider);
+registerProvider(mockProvider);
+
+/** The most rewrites one prompt enhancement request asks for. */
+const MAX_ENHANCEMENTS = 4;
+
+/**
+ * Longest side, in pixels, of images sent as input. Larger images are downscaled locally first:
+ * models do not use the extra detail, and the request body stays small.
+ */
+const MAX_INPUT_DIMENSION = 2048;
+
+/** Longest side, in pixels, of images sent for description. A caption needs far less detail than an edit. */
+const MAX_DESCRIBE_DIMENSION = 1024;
+
+/**
+ * Converts an image to an inline data URL no larger than MAX_INPUT_DIMENSION.
+ */
+const prepareInputImage = async (src: string) => downscaleImage(await ensureDataUrl(src), MAX_INPUT_DIMENSION);
+
+/** A provider result, tagged with the provider that produced it. */
+export type ServiceResult = GenerationResult & { provider: ProviderId };
+
+/** Options shared by every service call. */
+export interface CallOptions {
+    /** Aborts the in-flight request. */
+    signal?: AbortSignal;
+    /** Groups the debug records of related calls, such as the attempts of one job. */
+    traceId?: string;
+}
+
+export interface GenerationOptions extends CallOptions {
+    prompt: string;
+    aspectRatio: AspectRatio;
+    /** Reference images with their roles; sources may be data URLs or object URLs. */
+    referenceImages?: ReferenceImage[];
+    /** Number of alternative images to produce (1–4). */
+    variants?: number;
+    seed?: number;
+    negativePrompt?: string;
+}
 
 /**
- * Parses a base64 data URL into a format suitable for the Gemini API.
- * @param base64 The base64 data URL (e.g., "data:image/png;base64,...").
- * @returns An object with mimeType and data.
+ * Generates one or more images with the active provider.
+ * If referenceImages are provided, the provider's multimodal edit path is used to understand both text and images.
+ * If no referenceImages are provided, the provider's text-to-image path is used.
+ * Seeds and negative prompts are dropped for request types the provider does not support.
+ * Reference images larger than MAX_INPUT_DIMENSION are downscaled before upload.
+ * @param options The prompt, aspect ratio and optional generation parameters.
+ * @returns A promise that resolves to the generated images and the provider and model that produced them.
  */
-const fileToGenerativePart = (base64: string) => {
-    const match = base64.match(/^data:(.+);base64,(.+)$/);
-    if (!match) {
-        throw new Error('Invalid base64 string format');
+export const generateImages = async ({
+    prompt,
+    aspectRatio,
+    referenceImages = [],
+    variants = 1,
+    seed,
+    negativePrompt,
+    signal,
+    traceId,
+}: GenerationOptions): Promise<ServiceResult> => {
+    const provider = getActiveProvider();
+    const kind = referenceImages.length > 0 ? 'edit' : 'generate';
+    const capabilities = provider.capabilities[kind];
+    if (seed !== undefined && !capabilities.seed) {
+        console.warn(`${provider.name} does not support seeds for this request; ignoring seed ${seed}.`);
     }
-    const mimeType = match[1];
-    const data = match[2];
+    if (negativePrompt && !capabilities.negativePrompt) {
+        console.warn(`${provider.name} does not support negative prompts for this request; ignoring it.`);
+    }
+    const request = {
+        prompt,
+        aspectRatio,
+        numberOfImages: Math.min(Math.max(1, Math.round(variants)), MAX_VARIANTS),
+        seed: capabilities.seed ? seed : undefined,
+        negativePrompt: capabilities.negativePrompt ? negativePrompt : undefined,
+        signal,
+        traceId,
+    };
+    console.log(`Generating ${request.numberOfImages} image(s) with ${provider.name}, prompt: "${prompt}", aspect ratio: ${aspectRatio}, references: ${referenceImages.length}`);
+    const result = kind === 'edit'
+        ? await provider.edit({
+            ...request,
+            referenceImages: await Promise.all(referenceImages.map(async reference => ({ ...reference, src: await prepareInputImage(reference.src) }))),
+        })
+        : await provider.generate(request);
+    return { ...result, provider: provider.id };
+};
+
+/**
+ * Upscales an image to 4x its resolution with the active provider.
+ * @param base64Image The data URL or object URL of the image to upscale.
+ * @param options.signal Aborts the in-flight request.
+ * @param options.traceId Groups the call with related ones in the debug inspector.
+ * @returns A promise that resolves to the upscaled image and the provider and model that produced it.
+ */
+export const upscaleImage = async (base64Image: string, options: CallOptions = {}): Promise<ServiceResult> => {
+    const provider = getActiveProvider();
+    console.log(`Upscaling image with ${provider.name}...`);
+    const result = await provider.upscale({ image: await ensureDataUrl(base64Image), signal: options.signal, traceId: options.traceId });
+    return { ...result, provider: provider.id };
+};
+
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '16:9', '9:16', '4:3', '3:4'];
+
+/**
+ * Picks the supported aspect ratio closest to an image's dimensions.
+ */
+const getClosestAspectRatio = (width: number, height: number): AspectRatio => {
+    const ratio = Math.log(width / height);
+    const distance = (aspectRatio: AspectRatio) => {
+        const [w, h] = aspectRatio.split(':').map(Number);
+        return Math.abs(Math.log(w / h) - ratio);
+    };
+    return ASPECT_RATIOS.reduce((best, candidate) => distance(candidate) < distance(best) ? candidate : best);
+};
+
+/**
+ * Applies a text instruction to an existing image with the active provider's edit path.
+ * @param image The data URL or object URL of the image to edit.
+ * @param instruction What to change, e.g. "make the lighting warmer".
+ * @param options.referenceImages Further references, such as a style to match, numbered from image 2.
+ * @param options.signal Aborts the in-flight request.
+ * @param options.traceId Groups the call with related ones in the debug inspector.
+ * @returns A promise that resolves to the edited image and the provider and model that produced it.
+ */
+export const editImage = async (image: string, instruction: string, options: CallOptions & { referenceImages?: ReferenceImage[] } = {}): Promise<ServiceResult> => {
+    const provider = getActiveProvider();
+    const src = await prepareInputImage(image);
+    const { naturalWidth, naturalHeight } = await loadImage(src);
+    console.log(`Editing image with ${provider.name}, instruction: "${instruction}"`);
+    const result = await provider.edit({
+        prompt: `Edit image 1: ${instruction} Keep the composition and everything not mentioned unchanged.`,
+        aspectRatio: getClosestAspectRatio(naturalWidth, naturalHeight),
+        numberOfImages: 1,
+        referenceImages: [
+            { src, role: 'subject' },
+            ...await Promise.all((options.referenceImages ?? []).map(async reference => ({ ...reference, src: await prepareInputImage(reference.src) }))),
+        ],
+        signal: options.signal,
+        traceId: options.traceId,
+    });
+    return { ...result, provider: provider.id };
+};
+
+/**
+ * Edits only a masked region of an image with the active provider.
+ * The provider's output is composited back onto the original inside the mask, so nothing outside it changes.
+ * @param image The data URL or object URL of the image to edit.
+ * @param mask An alpha mask the same size as the image: opaque where the image may change.
+ * @param instruction What to do inside the mask, e.g. "replace with a wooden bench".
+ * @param options.signal Aborts the in-flight request.
+ * @param options.traceId Groups the call with related ones in the debug inspector.
+ * @returns A promise that resolves to the composited image and the provider and model that produced it.
+ */
+export const inpaintImage = async (image: string, mask: string, instruction: string, options: CallOptions = {}): Promise<ServiceResult> => {
+    const provider = getActiveProvider();
+    const original = await ensureDataUrl(image);
+    const [input, modelMask] = await Promise.all([
+        downscaleImage(original, MAX_INPUT_DIMENSION),
+        maskToBlackAndWhite(mask).then(bwMask => downscaleImage(bwMask, MAX_INPUT_DIMENSION)),
+    ]);
+    console.log(`Inpainting image with ${provider.name}, instruction: "${instruction}"`);
+    const result = await provider.inpaint({ prompt: instruction, image: input, mask: modelMask, signal: options.signal, traceId: options.traceId });
     return {
-        inlineData: {
-            mimeType,
-            data,
-        },
+        ...result,
+        images: await Promise.all(result.images.map(edited => compositeWithMask(original, edited, mask))),
+        provider: provider.id,
     };
 };
 
+export interface EnhanceOptions extends CallOptions {
+    /** How many alternative rewrites to ask for (1–4). */
+    alternatives?: number;
+    /** The aspect ratio the image will have, so the rewrite can compose for it. */
+    aspectRatio?: AspectRatio;
+    /** Whether the prompt refers to reference images, whose numbering the rewrite must keep. */
+    hasReferenceImages?: boolean;
+}
+
 /**
- * Generates an image.
- * If referenceImages are provided, it uses a multimodal model to understand both text and images.
- * If no referenceImages are provided, it uses a dedicated text-to-image model.
- * @param prompt The text prompt describing the desired image.
- * @param aspectRatio The desired aspect ratio of the generated image.
- * @param referenceImages An array of base64 data URLs for reference images.
- * @returns A promise that resolves to the data URL of the generated image.
+ * Expands a short idea into detailed image prompts with the active provider's text model.
+ * @param prompt The idea to expand. Template {placeholders} are kept.
+ * @param options How many alternatives to ask for, and what the rewrite must respect.
+ * @returns A promise that resolves to the rewritten prompts and the provider and model that wrote them.
  */
-export const generateImage = async (
-    prompt: string,
-    aspectRatio: AspectRatio,
-    referenceImages: string[] = []
-): Promise<string> => {
-    console.log(`Generating image with prompt: "${prompt}", aspect ratio: ${aspectRatio}, references: ${referenceImages.length}`);
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-    
-    try {
-        // --- Multimodal Generation (Text + Image Input) ---
-        if (referenceImages.length > 0) {
-            // The image editing model expects a single reference image.
-            if (referenceImages.length > 1) {
-                console.warn(`The image editing model supports only one reference image. Using the first of ${referenceImages.length} provided images.`);
-            }
-            
-            const parts = [
-                fileToGenerativePart(referenceImages[0]), // Use only the first image
-                { text: prompt },
-            ];
-
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image-preview',
-                contents: { parts }, // Corrected: must be an object for single-turn requests
-                config: {
-                    responseModalities: [Modality.IMAGE, Modality.TEXT],
-                },
-            });
-
-            const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-            if (imagePart?.inlineData) {
-                const base64ImageBytes: string = imagePart.inlineData.data;
-                const mimeType = imagePart.inlineData.mimeType;
-                const imageUrl = `data:${mimeType};base64,${base64ImageBytes}`;
-                console.log('Multimodal image generated successfully.');
-                return imageUrl;
-            } else {
-                console.error('API response did not contain valid image data for multimodal request.', response);
-                throw new Error('Image generation failed: No image data received from multimodal API.');
-            }
-        } 
-        // --- Text-to-Image Generation ---
-        else {
-            const response = await ai.models.generateImages({
-                model: 'imagen-4.0-generate-001',
-                prompt: prompt,
-                config: {
-                    numberOfImages: 1,
-                    outputMimeType: 'image/png',
-                    aspectRatio: aspectRatio,
-                },
-            });
-
-            if (response.generatedImages?.[0]?.image?.imageBytes) {
-                const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
-                const imageUrl = `data:image/png;base64,${base64ImageBytes}`;
-                console.log('Text-to-image generated successfully.');
-                return imageUrl;
-            } else {
-                console.error('API response did not contain valid image data for text-to-image request.', response);
-                throw new Error('Image generation failed: No image data received from API.');
-            }
-        }
-    } catch (error) {
-        console.error('Error calling Gemini API:', error);
-        let errorMessage = 'An unknown error occurred during image generation.';
-        if (error instanceof Error) {
-            errorMessage = error.message;
-            const geminiError = error as any;
-            if (geminiError.response?.promptFeedback?.blockReason) {
-                errorMessage = `Request blocked: ${geminiError.response.promptFeedback.blockReason}.`;
-            }
-        }
-        throw new Error(errorMessage);
-    }
+export const enhancePrompt = async (prompt: string, { alternatives = 1, aspectRatio, hasReferenceImages, signal, traceId }: EnhanceOptions = {}): Promise<EnhanceResult & { provider: ProviderId }> => {
+    const provider = getActiveProvider();
+    const count = Math.min(Math.max(1, Math.round(alternatives)), MAX_ENHANCEMENTS);
+    console.log(`Enhancing prompt with ${provider.name}, ${count} alternative(s): "${prompt}"`);
+    const result = await provider.enhancePrompt({ prompt, count, aspectRatio, hasReferenceImages, signal, traceId });
+    return { ...result, provider: provider.id };
 };
 
 /**
- * Upscales an image to 4x its resolution using a multimodal model.
- * @param base64Image The base64 data URL of the image to upscale.
- * @returns A promise that resolves to the data URL of the upscaled image.
+ * Asks the active provider's multimodal model for a caption, a style breakdown and a prompt that would reproduce an image.
+ * @param image The image as a data URL or object URL.
+ * @param options.signal Aborts the in-flight request.
+ * @param options.traceId Groups the call with related ones in the debug inspector.
+ * @returns A promise that resolves to the description and the provider and model that wrote it.
  */
-export const upscaleImage = async (base64Image: string): Promise<string> => {
-    console.log('Upscaling image...');
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-
-    try {
-        const imagePart = fileToGenerativePart(base64Image);
-        const textPart = {
-            text: "Please upscale this image to 4x its original resolution. Focus on enhancing details and clarity without adding, removing, or changing any elements in the original image."
-        };
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image-preview',
-            contents: { parts: [imagePart, textPart] }, // Corrected: must be an object for single-turn requests
-            config: {
-                responseModalities: [Modality.IMAGE, Modality.TEXT],
-            },
-        });
-        
-        const outputImagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-
-        if (outputImagePart?.inlineData) {
-            const base64ImageBytes: string = outputImagePart.inlineData.data;
-            const mimeType = outputImagePart.inlineData.mimeType;
-            const imageUrl = `data:${mimeType};base64,${base64ImageBytes}`;
-            console.log('Image upscaled successfully.');
-            return imageUrl;
-        } else {
-            console.error('API response did not contain valid image data for upscale request.', response);
-            throw new Error('Upscaling failed: No image data received from API.');
-        }
-    } catch (error) {
-        console.error('Error calling Gemini API for upscaling:', error);
-        let errorMessage = 'An unknown error occurred during image upscaling.';
-         if (error instanceof Error) {
-            errorMessage = error.message;
-            const geminiError = error as any;
-            if (geminiError.response?.promptFeedback?.blockReason) {
-                errorMessage = `Request blocked: ${geminiError.response.promptFeedback.blockReason}.`;
-            }
-        }
-        throw new Error(errorMessage);
-    }
-};
\ No newline at end of file
+export const describeImage = async (image: string, options: CallOptions = {}): Promise<DescribeResult & { provider: ProviderId }> => {
+    const provider = getActiveProvider();
+    const input = await downscaleImage(await ensureDataUrl(image), MAX_DESCRIBE_DIMENSION);
+    console.log(`Describing image with ${provider.name}`);
+    const result = await provider.describeImage({ image: input, signal: options.signal, traceId: options.traceId });
+    return { ...result, provider: provider.id };
+};
@@ -0,0 +1,235 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type AspectRatio = '1:1' | '16:9' | '9:16' | '4:3' | '3:4';
+
+export type ProviderId = 'gemini' | 'mock';
+
+export type ReferenceRole = 'subject' | 'style' | 'background' | 'character';
+
+export interface ReferenceImage {
+    /** Data URL (or, before reaching a provider, an object URL) of the image. */
+    src: string;
+    /** How the model should use the image. */
+    role: ReferenceRole;
+}
+
+/**
+ * Labels for the UI and the instruction each role adds to a multimodal request.
+ */
+export const REFERENCE_ROLES: Record<ReferenceRole, { label: string; instruction: string }> = {
+    subject: { label: 'Subject', instruction: 'the main subject to depict' },
+    style: { label: 'Style', instruction: 'a style reference; match its look, palette and medium but not its content' },
+    background: { label: 'Background', instruction: 'the background or setting for the scene' },
+    character: { label: 'Character', instruction: 'a character whose identity and appearance must be kept consistent' },
+};
+
+interface ProviderRequest {
+    /** Aborts the underlying network request, rejecting with a 'cancelled' ServiceError. */
+    signal?: AbortSignal;
+    /** Groups the debug records of related calls, such as a job's attempts. */
+    traceId?: string;
+}
+
+export interface GenerateRequest extends ProviderRequest {
+    prompt: string;
+    aspectRatio: AspectRatio;
+    /** How many alternative images to produce (1–4). */
+    numberOfImages: number;
+    /** Makes results repeatable where the provider supports it. A whole number from 0 to MAX_SEED. */
+    seed?: number;
+    /** Things the image should not contain. */
+    negativePrompt?: string;
+}
+
+export interface EditRequest extends GenerateRequest {
+    /** The images the prompt refers to, in order ("image 1", "image 2", ...), as data URLs. */
+    referenceImages: ReferenceImage[];
+}
+
+export interface UpscaleRequest extends ProviderRequest {
+    /** Base64 data URL of the image to upscale. */
+    image: string;
+}
+
+export interface InpaintRequest extends ProviderRequest {
+    /** What to change inside the masked area. */
+    prompt: string;
+    /** Base64 data URL of the image to edit. */
+    image: string;
+    /** Base64 data URL of a mask the same size as the image: white where the image may change, black elsewhere. */
+    mask: string;
+}
+
+export interface EnhanceRequest extends ProviderRequest {
+    /** The user's idea, possibly only a few words. Any {placeholders} must be kept as they are. */
+    prompt: string;
+    /** How many different rewrites to return. */
+    count: number;
+    aspectRatio?: AspectRatio;
+    /** Whether the prompt refers to reference images ("image 1", ...), which a rewrite must keep doing. */
+    hasReferenceImages?: boolean;
+}
+
+export interface EnhanceResult {
+    /** Detailed image prompts, each a different take on the idea. */
+    prompts: string[];
+    /** The text model that wrote them. */
+    model: string;
+}
+
+export interface DescribeRequest extends ProviderRequest {
+    /** Base64 data URL of the image to describe. */
+    image: string;
+}
+
+/** How an image looks, broken down the way a prompt would describe it. */
+export interface StyleBreakdown {
+    /** E.g. "35mm film photograph" or "flat vector illustration". */
+    medium: string;
+    lighting: string;
+    palette: string;
+    composition: string;
+    mood: string;
+}
+
+export interface DescribeResult {
+    /** What the image shows, in a sentence or two. */
+    caption: string;
+    style: StyleBreakdown;
+    /** A prompt that should produce an image with the same content and style. */
+    prompt: string;
+    /** The multimodal model that described it. */
+    model: string;
+}
+
+export interface GenerationResult {
+    /** Data URLs of the produced images. */
+    images: string[];
+    /** The model that produced them. */
+    model: string;
+    /** Any text the model returned alongside the images. */
+    text?: string;
+}
+
+export interface RequestCapabilities {
+    seed: boolean;
+    negativePrompt: boolean;
+}
+
+/**
+ * A backend capable of producing images. Every image method resolves to base64 data URLs plus
+ * details of how they were made, and every method rejects with a ServiceError so callers can tell
+ * transient failures from permanent ones.
+ */
+export interface ImageProvider {
+    id: ProviderId;
+    name: string;
+    /** Which optional parameters are honoured for text-only and reference-image requests. */
+    capabilities: Record<'generate' | 'edit', RequestCapabilities>;
+    generate: (request: GenerateRequest) => Promise<GenerationResult>;
+    edit: (request: EditRequest) => Promise<GenerationResult>;
+    upscale: (request: UpscaleRequest) => Promise<GenerationResult>;
+    /** Edits the masked region of an image. The result may differ outside the mask; callers composite it back. */
+    inpaint: (request: InpaintRequest) => Promise<GenerationResult>;
+    /** Rewrites a short idea into detailed image prompts (subject, lighting, lens, composition) with a text model. */
+    enhancePrompt: (request: EnhanceRequest) => Promise<EnhanceResult>;
+    /** Captions an image, breaks down its style and suggests a prompt that would reproduce it. */
+    describeImage: (request: DescribeRequest) => Promise<DescribeResult>;
+}
+
+export const MAX_VARIANTS = 4;
+/** Seeds are 32-bit signed integers in the Gemini API. */
+export const MAX_SEED = 2 ** 31 - 1;
+
+const PROVIDER_STORAGE_KEY = 'gemini-studio-provider';
+
+const providers = new Map<ProviderId, ImageProvider>();
+const listeners = new Set<(provider: ImageProvider) => void>();
+let activeProviderId: ProviderId | null = null;
+
+const isProviderId = (value: unknown): value is ProviderId =>
+    value === 'gemini' || value === 'mock';
+
+/**
+ * Resolves the provider to use when nothing has been chosen at runtime.
+ * `IMAGE_PROVIDER` wins; otherwise Gemini is used when an API key is configured.
+ */
+const getDefaultProviderId = (): ProviderId => {
+    const configured = process.env.IMAGE_PROVIDER;
+    if (isProviderId(configured)) {
+        return configured;
+    }
+    return process.env.API_KEY ? 'gemini' : 'mock';
+};
+
+/**
+ * Makes a provider available for selection. Registering an id twice replaces the previous provider.
+ * @param provider The provider implementation.
+ */
+export const registerProvider = (provider: ImageProvider) => {
+    providers.set(provider.id, provider);
+};
+
+/**
+ * Looks up a registered provider by id.
+ */
+export const getProvider = (id: ProviderId): ImageProvider | undefined => providers.get(id);
+
+/**
+ * Lists every registered provider, in registration order.
+ */
+export const listProviders = (): ImageProvider[] => Array.from(providers.values());
+
+/**
+ * Returns the provider that service calls are currently routed to.
+ * On first use this honours a runtime choice saved in localStorage, then the env configuration.
+ */
+export const getActiveProvider = (): ImageProvider => {
+    if (!activeProviderId) {
+        let saved: string | null = null;
+        try {
+            saved = localStorage.getItem(PROVIDER_STORAGE_KEY);
+        } catch (e) {
+            console.error("Failed to read provider from localStorage", e);
+        }
+        activeProviderId = isProviderId(saved) && providers.has(saved) ? saved : getDefaultProviderId();
+    }
+    const provider = providers.get(activeProviderId);
+    if (!provider) {
+        throw new Error(`Image provider "${activeProviderId}" is not registered.`);
+    }
+    return provider;
+};
+
+/**
+ * Switches all subsequent service calls to another provider and remembers the choice.
+ * @param id The id of a registered provider.
+ */
+export const setActiveProvider = (id: ProviderId) => {
+    const provider = providers.get(id);
+    if (!provider) {
+        throw new Error(`Image provider "${id}" is not registered.`);
+    }
+    activeProviderId = id;
+    try {
+        localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+    } catch (e) {
+        console.error("Failed to save provider to localStorage", e);
+    }
+    listeners.forEach(listener => listener(provider));
+};
+
+/**
+ * Subscribes to provider switches.
+ * @param listener Called with the newly active provider.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToProvider = (listener: (provider: ImageProvider) => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Product } from '../App';
+import { STORES, promisifyRequest, runTransaction } from './db';
+import { dataUrlToBlob, ensureDataUrl } from '../utils/imageUtils';
+
+interface ProductRecord extends Omit<Product, 'images'> {
+    images: Blob[];
+}
+
+/**
+ * Loads the product catalog, sorted by name. Product photos are returned as object URLs.
+ */
+export const loadProducts = async (): Promise<Product[]> => {
+    const records = await runTransaction(STORES.products, 'readonly', tx =>
+        promisifyRequest(tx.objectStore(STORES.products).getAll() as IDBRequest<ProductRecord[]>)
+    );
+    return records
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(({ images, ...product }) => ({
+            ...product,
+            images: images.map(blob => URL.createObjectURL(blob)),
+        }));
+};
+
+/**
+ * Saves a product, replacing any existing one with the same id.
+ * @param product The product. Its photos may be data URLs or object URLs.
+ */
+export const saveProduct = async (product: Product) => {
+    const images = await Promise.all(product.images.map(async src => dataUrlToBlob(await ensureDataUrl(src))));
+    await runTransaction(STORES.products, 'readwrite', tx => {
+        tx.objectStore(STORES.products).put({ ...product, images } satisfies ProductRecord);
+    });
+};
+
+/**
+ * Deletes a product from the catalog.
+ * @param id The product id.
+ */
+export const deleteProduct = (id: string) =>
+    runTransaction(STORES.products, 'readwrite', tx => {
+        tx.objectStore(STORES.products).delete(id);
+    });
@@ -0,0 +1,284 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Character, GalleryItem, Product, ProjectDefaults, PromptTemplate, StylePreset } from '../App';
+import type { ExportOptions, ManifestFormat } from './galleryExport';
+import { TRASH_RETENTION_OPTIONS } from './galleryStorage';
+import { MAX_VARIANTS, type AspectRatio, type ProviderId } from './imageProvider';
+import { DEFAULT_SCHEDULER_SETTINGS, type ProviderLimits, type SchedulerSettings } from './queueScheduler';
+import { SOFTWARE_NAME } from '../utils/imageMetadata';
+import { IMAGE_FORMATS, type ImageFormat } from '../utils/imageUtils';
+import { DERIVATION_LABELS } from '../utils/lineageUtils';
+import { getProjectImageUrls, type ProjectContents } from '../utils/projectUtils';
+import { hasStylePresetFields } from '../utils/styleUtils';
+import { isPromptTemplate } from '../utils/templateUtils';
+import { createZip, readZip, type ZipEntry } from '../utils/zipUtils';
+
+/** Settings that travel with a project. Each is optional, as the importer chooses whether to apply them. */
+export interface ProjectSettings {
+    scheduler?: SchedulerSettings;
+    export?: ExportOptions;
+    trashRetentionDays?: number;
+    /** The project's default generation settings. */
+    defaults?: ProjectDefaults;
+}
+
+export interface ProjectBundle {
+    name: string;
+    /** Epoch ms. */
+    exportedAt: number;
+    contents: ProjectContents;
+    settings: ProjectSettings;
+}
+
+/** Identifies a bundle's manifest, so unrelated ZIP files are rejected on import. */
+const BUNDLE_FORMAT = 'project-bundle';
+const BUNDLE_VERSION = 1;
+const MANIFEST_FILE = 'project.json';
+
+/**
+ * In the manifest, images are replaced by the paths of their files in the bundle.
+ * The project id is left out, as imported images join whichever project they are imported into.
+ */
+interface ManifestGalleryItem extends Omit<GalleryItem, 'src' | 'projectId'> {
+    file: string;
+}
+
+interface BundleManifest {
+    format: string;
+    version: number;
+    software: string;
+    name: string;
+    exportedAt: number;
+    settings: ProjectSettings;
+    gallery: ManifestGalleryItem[];
+    characters: Character[];
+    products: Product[];
+    templates: PromptTemplate[];
+    stylePresets: StylePreset[];
+}
+
+const MIME_TYPES_BY_EXTENSION = new Map(Object.entries(IMAGE_FORMATS).map(([mimeType, format]) => [format.extension, mimeType]));
+
+/**
+ * Packs a project, with every image it uses, into a single ZIP file.
+ * Trashed images are left out.
+ * @param name The project's name, recorded in the bundle.
+ * @param contents The gallery and libraries.
+ * @param settings Settings to include.
+ * @returns The bundle file.
+ */
+export const exportProjectBundle = async (name: string, contents: ProjectContents, settings: ProjectSettings): Promise<Blob> => {
+    const files: ZipEntry[] = [];
+    const addImage = async (src: string, path: string) => {
+        const blob = await (await fetch(src)).blob();
+        const extension = blob.type in IMAGE_FORMATS ? IMAGE_FORMATS[blob.type as ImageFormat].extension : 'png';
+        const file = `${path}.${extension}`;
+        files.push({ name: file, data: new Uint8Array(await blob.arrayBuffer()) });
+        return file;
+    };
+
+    const gallery: ManifestGalleryItem[] = [];
+    for (const { src, projectId, ...item } of contents.gallery.filter(item => !item.deletedAt)) {
+        gallery.push({ ...item, file: await addImage(src, `gallery/${item.id}`) });
+    }
+    const withImageFiles = async <T extends { id: string; images: string[] }>(entries: T[], folder: string) => {
+        const packed: T[] = [];
+        for (const entry of entries) {
+            const images: string[] = [];
+            for (const [index, src] of entry.images.entries()) {
+                images.push(await addImage(src, `${folder}/${entry.id}/${index + 1}`));
+            }
+            packed.push({ ...entry, images });
+        }
+        return packed;
+    };
+    const stylePresets: StylePreset[] = [];
+    for (const preset of contents.stylePresets) {
+        stylePresets.push({
+            ...preset,
+            referenceImage: preset.referenceImage ? await addImage(preset.referenceImage, `styles/${preset.id}`) : undefined,
+        });
+    }
+
+    const manifest: BundleManifest = {
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        software: SOFTWARE_NAME,
+        name,
+        exportedAt: Date.now(),
+        settings,
+        gallery,
+        characters: await withImageFiles(contents.characters, 'characters'),
+        products: await withImageFiles(contents.products, 'products'),
+        templates: contents.templates,
+        stylePresets,
+    };
+    return createZip([{ name: MANIFEST_FILE, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) }, ...files]);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+const hasIdAndName = (value: unknown): value is Record<string, unknown> => isObject(value) && typeof value.id === 'string' && typeof value.name === 'string';
+
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '16:9', '9:16', '4:3', '3:4'];
+const MANIFEST_FORMATS: ManifestFormat[] = ['json', 'csv', 'none'];
+
+/** A whole number within the same bounds the settings controls allow, or undefined. */
+const readInteger = (value: unknown, min: number, max: number) =>
+    typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max ? value : undefined;
+
+const readOptionalString = (value: unknown) => typeof value === 'string' ? value : undefined;
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+const isString = (value: unknown) => typeof value === 'string';
+const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+// Imported entries are saved as they are and read by the gallery and libraries, so a bundle with a malformed one is rejected
+const isMetadata = (value: unknown) => isObject(value)
+    && ASPECT_RATIOS.includes(value.aspectRatio as AspectRatio)
+    && Array.isArray(value.referenceImages)
+    && isString(value.provider) && isString(value.model)
+    && isNumber(value.startedAt) && isNumber(value.completedAt);
+
+const isDerivation = (value: unknown) => isObject(value)
+    && isString(value.operation) && (value.operation as string) in DERIVATION_LABELS
+    && isNumber(value.createdAt);
+
+const isManifestGalleryItem = (value: unknown): value is ManifestGalleryItem => isObject(value)
+    && isString(value.id) && isString(value.prompt) && isString(value.file)
+    && isOptional(value.metadata, isMetadata)
+    && isOptional(value.derivation, isDerivation)
+    && isOptional(value.parentId, isString) && isOptional(value.rootId, isString)
+    && isOptional(value.activatedAt, isNumber) && isOptional(value.deletedAt, isNumber)
+    && isOptional(value.tags, tags => Array.isArray(tags) && tags.every(isString))
+    && isOptional(value.rating, rating => readInteger(rating, 1, 5) !== undefined);
+
+const isLibraryEntry = (value: unknown): value is Record<string, unknown> => hasIdAndName(value)
+    && isNumber(value.createdAt) && Array.isArray(value.images) && value.images.every(isString);
+
+const isBundleCharacter = (value: unknown): value is Character => isLibraryEntry(value) && isString(value.description);
+
+const isBundleProduct = (value: unknown): value is Product => isLibraryEntry(value) && isString(value.sku) && isString(value.notes);
+
+const isBundleStylePreset = (value: unknown): value is StylePreset => hasStylePresetFields(value)
+    && isString(value.id) && isNumber(value.createdAt) && isOptional(value.referenceImage, isString);
+
+const readSchedulerSettings = (value: unknown): SchedulerSettings | undefined => {
+    if (!isObject(value)) return undefined;
+    const concurrency = readInteger(value.concurrency, 1, 8);
+    const maxAttempts = readInteger(value.maxAttempts, 1, 10);
+    if (concurrency === undefined || maxAttempts === undefined) return undefined;
+    const providers = isObject(value.providers) ? value.providers : {};
+    // Limits for providers the bundle doesn't mention, or mentions with invalid values, keep their defaults
+    const readLimits = (id: ProviderId): ProviderLimits => {
+        const limits = isObject(providers[id]) ? providers[id] : {};
+        const defaults = DEFAULT_SCHEDULER_SETTINGS.providers[id];
+        return {
+            maxConcurrent: readInteger(limits.maxConcurrent, 1, 8) ?? defaults.maxConcurrent,
+            requestsPerMinute: readInteger(limits.requestsPerMinute, 0, 600) ?? defaults.requestsPerMinute,
+        };
+    };
+    return {
+        concurrency,
+        maxAttempts,
+        providers: { gemini: readLimits('gemini'), mock: readLimits('mock') },
+    };
+};
+
+const readExportOptions = (value: unknown): ExportOptions | undefined => {
+    if (!isObject(value)) return undefined;
+    const { filenamePattern, manifest, embedMetadata } = value;
+    if (typeof filenamePattern !== 'string' || !filenamePattern.trim()) return undefined;
+    if (!MANIFEST_FORMATS.includes(manifest as ManifestFormat) || typeof embedMetadata !== 'boolean') return undefined;
+    return { filenamePattern, manifest: manifest as ManifestFormat, embedMetadata };
+};
+
+const readProjectDefaults = (value: unknown): ProjectDefaults | undefined => {
+    if (!isObject(value) || !ASPECT_RATIOS.includes(value.aspectRatio as AspectRatio)) return undefined;
+    return {
+        aspectRatio: value.aspectRatio as AspectRatio,
+        variants: readInteger(value.variants, 1, MAX_VARIANTS) ?? 1,
+        negativePrompt: readOptionalString(value.negativePrompt),
+        styleId: readOptionalString(value.styleId),
+    };
+};
+
+// Settings are saved as they are once applied, so anything malformed is dropped rather than imported
+const readSettings = (value: unknown): ProjectSettings => {
+    if (!isObject(value)) return {};
+    return {
+        scheduler: readSchedulerSettings(value.scheduler),
+        export: readExportOptions(value.export),
+        trashRetentionDays: TRASH_RETENTION_OPTIONS.includes(value.trashRetentionDays as number) ? value.trashRetentionDays as number : undefined,
+        defaults: readProjectDefaults(value.defaults),
+    };
+};
+
+/**
+ * Reads a bundle written by exportProjectBundle. Its images are returned as object URLs;
+ * release the ones that aren't kept with releaseProjectBundle or URL.revokeObjectURL.
+ * @param file The bundle file.
+ * @throws If the file is not a project bundle or is missing files its manifest lists.
+ */
+export const readProjectBundle = async (file: Blob): Promise<ProjectBundle> => {
+    const files = await readZip(file);
+    const manifestFile = files.get(MANIFEST_FILE);
+    const manifest = manifestFile ? JSON.parse(new TextDecoder().decode(manifestFile)) as BundleManifest : null;
+    if (manifest?.format !== BUNDLE_FORMAT) {
+        throw new Error('This file is not a project bundle.');
+    }
+    if (manifest.version > BUNDLE_VERSION) {
+        throw new Error('This bundle was exported by a newer version of the app.');
+    }
+    const lists = [manifest.gallery, manifest.characters, manifest.products, manifest.templates, manifest.stylePresets];
+    if (!lists.every(Array.isArray)
+        || !manifest.gallery.every(isManifestGalleryItem)
+        || !manifest.characters.every(isBundleCharacter)
+        || !manifest.products.every(isBundleProduct)
+        || !manifest.templates.every(isPromptTemplate)
+        || !manifest.stylePresets.every(isBundleStylePreset)) {
+        throw new Error('The bundle\'s project file is malformed.');
+    }
+
+    const urls: string[] = [];
+    const toObjectUrl = (path: string) => {
+        const data = files.get(path);
+        if (!data) {
+            throw new Error(`The bundle is missing ${path}.`);
+        }
+        const extension = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+        const url = URL.createObjectURL(new Blob([data as BlobPart], { type: MIME_TYPES_BY_EXTENSION.get(extension) ?? 'image/png' }));
+        urls.push(url);
+        return url;
+    };
+    try {
+        return {
+            name: typeof manifest.name === 'string' ? manifest.name : '',
+            exportedAt: manifest.exportedAt,
+            settings: readSettings(manifest.settings),
+            contents: {
+                gallery: manifest.gallery.map(({ file, ...item }) => ({ ...item, src: toObjectUrl(file) })),
+                characters: manifest.characters.map(character => ({ ...character, images: character.images.map(toObjectUrl) })),
+                products: manifest.products.map(product => ({ ...product, images: product.images.map(toObjectUrl) })),
+                templates: manifest.templates,
+                stylePresets: manifest.stylePresets.map(preset => ({
+                    ...preset,
+                    referenceImage: preset.referenceImage ? toObjectUrl(preset.referenceImage) : undefined,
+                })),
+            },
+        };
+    } catch (error) {
+        urls.forEach(url => URL.revokeObjectURL(url));
+        throw error;
+    }
+};
+
+/**
+ * Releases the object URLs of a bundle that won't be imported.
+ */
+export const releaseProjectBundle = (bundle: ProjectBundle) => {
+    getProjectImageUrls(bundle.contents).forEach(url => URL.revokeObjectURL(url));
+};
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Project } from '../App';
+import { STORES, promisifyRequest, runTransaction } from './db';
+import { DEFAULT_PROJECT_ID } from '../utils/projectUtils';
+
+const ACTIVE_PROJECT_STORAGE_KEY = 'gemini-studio-active-project';
+
+/**
+ * Loads the projects, oldest first.
+ */
+export const loadProjects = async (): Promise<Project[]> => {
+    const projects = await runTransaction(STORES.projects, 'readonly', tx =>
+        promisifyRequest(tx.objectStore(STORES.projects).getAll() as IDBRequest<Project[]>)
+    );
+    return projects.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * Saves a project, replacing any existing one with the same id.
+ * @param project The project. Its reference images must be data URLs to survive a reload.
+ */
+export const saveProject = (project: Project) =>
+    runTransaction(STORES.projects, 'readwrite', tx => {
+        tx.objectStore(STORES.projects).put(project);
+    });
+
+/**
+ * Deletes a project's record. Its images and jobs are deleted through their own stores.
+ * @param id The project id.
+ */
+export const deleteProject = (id: string) =>
+    runTransaction(STORES.projects, 'readwrite', tx => {
+        tx.objectStore(STORES.projects).delete(id);
+    });
+
+export const loadActiveProjectId = (): string => {
+    try {
+        return localStorage.getItem(ACTIVE_PROJECT_STORAGE_KEY) ?? DEFAULT_PROJECT_ID;
+    } catch (e) {
+        console.error("Failed to load the active project from localStorage", e);
+        return DEFAULT_PROJECT_ID;
+    }
+};
+
+export const saveActiveProjectId = (id: string) => {
+    try {
+        localStorage.setItem(ACTIVE_PROJECT_STORAGE_KEY, id);
+    } catch (e) {
+        console.error("Failed to save the active project to localStorage", e);
+    }
+};
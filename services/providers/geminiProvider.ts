@@ -0,0 +1,401 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FinishReason, GoogleGenAI, Modality, Type, type GenerateContentResponse } from "@google/genai";
+import { MAX_SEED, REFERENCE_ROLES, type EnhanceRequest, type ImageProvider, type ReferenceImage, type StyleBreakdown } from '../imageProvider';
+import { ServiceError, classifyError } from '../serviceErrors';
+import { traceProviderCall, type ProviderOperation, type RequestPart } from '../debugLog';
+
+const IMAGEN_MODEL = 'imagen-4.0-generate-001';
+const MULTIMODAL_MODEL = 'gemini-2.5-flash-image-preview';
+const TEXT_MODEL = 'gemini-2.5-flash';
+
+let client: GoogleGenAI | null = null;
+
+const getClient = () => {
+    if (!client) {
+        client = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    }
+    return client;
+};
+
+/**
+ * Parses a base64 data URL into a format suitable for the Gemini API.
+ * @param base64 The base64 data URL (e.g., "data:image/png;base64,...").
+ * @returns An object with mimeType and data.
+ */
+const fileToGenerativePart = (base64: string): RequestPart => {
+    const match = base64.match(/^data:(.+);base64,(.+)$/);
+    if (!match) {
+        throw new Error('Invalid base64 string format');
+    }
+    const mimeType = match[1];
+    const data = match[2];
+    return {
+        inlineData: {
+            mimeType,
+            data,
+        },
+    };
+};
+
+/** Finish reasons that mean the output was withheld by a content filter. */
+const SAFETY_FINISH_REASONS: (FinishReason | undefined)[] = [
+    FinishReason.SAFETY,
+    FinishReason.BLOCKLIST,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.SPII,
+    FinishReason.IMAGE_SAFETY,
+];
+
+/**
+ * Neither model accepts a negative prompt over the Gemini API, so it is expressed in the prompt itself.
+ */
+const withNegativePrompt = (prompt: string, negativePrompt?: string) =>
+    negativePrompt?.trim() ? `${prompt}\n\nAvoid: ${negativePrompt.trim()}` : prompt;
+
+/**
+ * Interleaves each reference image with a label naming its number and role, so prompts can refer
+ * to "image 1", "image 2" and the model knows what each one is for.
+ */
+const referenceImagesToParts = (referenceImages: ReferenceImage[]): RequestPart[] =>
+    referenceImages.flatMap((reference, index) => [
+        { text: `Image ${index + 1} (${REFERENCE_ROLES[reference.role].label.toLowerCase()}): ${REFERENCE_ROLES[reference.role].instruction}.` },
+        fileToGenerativePart(reference.src),
+    ]);
+
+/**
+ * Sends image and text parts to the multimodal model and extracts the returned image and any text.
+ * The call is recorded for the debug inspector under the given operation and trace id.
+ */
+const generateMultimodal = (
+    parts: RequestPart[],
+    failureMessage: string,
+    options: { operation: ProviderOperation; signal?: AbortSignal; seed?: number; traceId?: string }
+): Promise<{ image: string; text?: string }> => {
+    const config = {
+        responseModalities: [Modality.IMAGE, Modality.TEXT],
+        seed: options.seed,
+    };
+    return traceProviderCall(
+        { traceId: options.traceId, provider: 'gemini', operation: options.operation, model: MULTIMODAL_MODEL, parts, config },
+        async capture => {
+            const response = await getClient().models.generateContent({
+                model: MULTIMODAL_MODEL,
+                contents: { parts }, // Corrected: must be an object for single-turn requests
+                config: { ...config, abortSignal: options.signal },
+            });
+            const candidate = response.candidates?.[0];
+            capture({
+                response,
+                finishReason: candidate?.finishReason,
+                safetyRatings: candidate?.safetyRatings,
+                blockReason: response.promptFeedback?.blockReason,
+            });
+            return extractMultimodalOutput(response, failureMessage);
+        }
+    );
+};
+
+/**
+ * Raises a 'safety' error if the request or its output was blocked.
+ */
+const throwIfBlocked = (response: GenerateContentResponse) => {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+        throw new ServiceError('safety', `Request blocked: ${blockReason}.`);
+    }
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (SAFETY_FINISH_REASONS.includes(finishReason)) {
+        throw new ServiceError('safety', `Output blocked: ${finishReason}.`);
+    }
+};
+
+/**
+ * Pulls the image and any text out of a multimodal response, raising a classified error when there is no image.
+ */
+const extractMultimodalOutput = (response: GenerateContentResponse, failureMessage: string) => {
+    throwIfBlocked(response);
+    const candidate = response.candidates?.[0];
+    const imagePart = candidate?.content?.parts?.find(part => part.inlineData);
+    if (imagePart?.inlineData?.data) {
+        const text = candidate?.content?.parts?.map(part => part.text ?? '').join('').trim();
+        return {
+            image: `data:${imagePart.inlineData.mimeType};base64,${imagePart.inlineData.data}`,
+            text: text || undefined,
+        };
+    }
+    console.error('API response did not contain valid image data for multimodal request.', response);
+    throw new ServiceError('malformed', failureMessage);
+};
+
+const ENHANCE_INSTRUCTION = [
+    'You rewrite short ideas into detailed prompts for an image generation model.',
+    'Each prompt describes the subject, setting, lighting, lens and camera settings, composition, mood and style in one flowing paragraph.',
+    'Stay faithful to the idea: add detail, but never change what it asks for.',
+    'Keep any {placeholder} in curly braces exactly as written.',
+    'Answer with a JSON array of prompt strings and nothing else.',
+].join(' ');
+
+/**
+ * The request text for prompt enhancement, with what the rewrite has to respect.
+ */
+const describeEnhanceRequest = ({ prompt, count, aspectRatio, hasReferenceImages }: EnhanceRequest) => [
+    `Idea: ${prompt}`,
+    `Write ${count} different prompt${count === 1 ? '' : 's'}.`,
+    aspectRatio ? `The image will have a ${aspectRatio} aspect ratio; compose for it.` : '',
+    hasReferenceImages ? 'The idea refers to attached reference images as "image 1", "image 2" and so on; keep those references.' : '',
+].filter(Boolean).join('\n');
+
+const DESCRIBE_INSTRUCTION = [
+    'You describe images so they can be recreated with an image generation model.',
+    'Give a one or two sentence caption of what the image shows, a short phrase for each aspect of its style,',
+    'and one detailed prompt that would produce an image with the same content and style.',
+    'Describe only what is visible; do not name real people or guess at identities.',
+].join(' ');
+
+const STYLE_ASPECTS: (keyof StyleBreakdown)[] = ['medium', 'lighting', 'palette', 'composition', 'mood'];
+
+const DESCRIBE_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        caption: { type: Type.STRING },
+        style: {
+            type: Type.OBJECT,
+            properties: Object.fromEntries(STYLE_ASPECTS.map(aspect => [aspect, { type: Type.STRING }])),
+            required: STYLE_ASPECTS,
+        },
+        prompt: { type: Type.STRING },
+    },
+    required: ['caption', 'style', 'prompt'],
+};
+
+/**
+ * Reads the describe response, or returns null when a required field is missing or empty.
+ */
+const parseDescription = (text: string | undefined) => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text ?? '');
+    } catch {
+        return null;
+    }
+    const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+    const readText = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+    if (!isObject(parsed)) {
+        return null;
+    }
+    const caption = readText(parsed.caption);
+    const prompt = readText(parsed.prompt);
+    if (!caption || !prompt) {
+        return null;
+    }
+    const style = isObject(parsed.style) ? parsed.style : {};
+    const breakdown = Object.fromEntries(STYLE_ASPECTS.map(aspect => [aspect, readText(style[aspect])])) as unknown as StyleBreakdown;
+    return { caption, style: breakdown, prompt };
+};
+
+/**
+ * Imagen for text-to-image, Gemini 2.5 Flash Image for anything that takes image input, Gemini 2.5 Flash for text.
+ * Imagen over the Gemini API rejects a seed, so seeds only apply to reference-image requests.
+ */
+export const geminiProvider: ImageProvider = {
+    id: 'gemini',
+    name: 'Gemini',
+    capabilities: {
+        generate: { seed: false, negativePrompt: true },
+        edit: { seed: true, negativePrompt: true },
+    },
+
+    generate: async ({ prompt, aspectRatio, numberOfImages, negativePrompt, signal, traceId }) => {
+        try {
+            const fullPrompt = withNegativePrompt(prompt, negativePrompt);
+            const config = {
+                numberOfImages,
+                outputMimeType: 'image/png',
+                aspectRatio: aspectRatio,
+            };
+            return await traceProviderCall(
+                { traceId, provider: 'gemini', operation: 'generate', model: IMAGEN_MODEL, parts: [{ text: fullPrompt }], config },
+                async capture => {
+                    const response = await getClient().models.generateImages({
+                        model: IMAGEN_MODEL,
+                        prompt: fullPrompt,
+                        config: { ...config, abortSignal: signal },
+                    });
+                    const filteredReason = response.generatedImages?.find(generated => generated.raiFilteredReason)?.raiFilteredReason;
+                    capture({
+                        response,
+                        safetyRatings: response.generatedImages?.map(generated => generated.safetyAttributes).filter(Boolean),
+                        blockReason: filteredReason,
+                    });
+
+                    const imageUrls = (response.generatedImages ?? [])
+                        .filter(generated => generated.image?.imageBytes)
+                        .map(generated => `data:image/png;base64,${generated.image!.imageBytes}`);
+                    if (imageUrls.length > 0) {
+                        console.log(`Text-to-image generated ${imageUrls.length} image(s) successfully.`);
+                        return { images: imageUrls, model: IMAGEN_MODEL };
+                    }
+                    if (filteredReason) {
+                        throw new ServiceError('safety', `Output blocked: ${filteredReason}`);
+                    }
+                    console.error('API response did not contain valid image data for text-to-image request.', response);
+                    throw new ServiceError('malformed', 'Image generation failed: No image data received from API.');
+                }
+            );
+        } catch (error) {
+            console.error('Error calling Gemini API:', error);
+            throw classifyError(error, 'An unknown error occurred during image generation.');
+        }
+    },
+
+    edit: async ({ prompt, referenceImages, numberOfImages, seed, negativePrompt, signal, traceId }) => {
+        try {
+            const parts = [
+                ...referenceImagesToParts(referenceImages),
+                { text: withNegativePrompt(prompt, negativePrompt) },
+            ];
+            // The model returns one image per call; variants are separate calls with consecutive seeds, wrapping past MAX_SEED.
+            const outputs = await Promise.all(Array.from({ length: numberOfImages }, (_, index) =>
+                generateMultimodal(parts, 'Image generation failed: No image data received from multimodal API.', {
+                    operation: 'edit',
+                    signal,
+                    traceId,
+                    seed: seed === undefined ? undefined : (seed + index) % (MAX_SEED + 1),
+                })
+            ));
+            console.log(`Multimodal generation produced ${outputs.length} image(s) successfully.`);
+            const texts = outputs.map(output => output.text).filter(Boolean);
+            return {
+                images: outputs.map(output => output.image),
+                model: MULTIMODAL_MODEL,
+                text: texts.length > 0 ? texts.join('\n\n') : undefined,
+            };
+        } catch (error) {
+            console.error('Error calling Gemini API:', error);
+            throw classifyError(error, 'An unknown error occurred during image generation.');
+        }
+    },
+
+    upscale: async ({ image, signal, traceId }) => {
+        try {
+            const parts = [
+                fileToGenerativePart(image),
+                { text: "Please upscale this image to 4x its original resolution. Focus on enhancing details and clarity without adding, removing, or changing any elements in the original image." },
+            ];
+            const output = await generateMultimodal(parts, 'Upscaling failed: No image data received from API.', { operation: 'upscale', signal, traceId });
+            console.log('Image upscaled successfully.');
+            return { images: [output.image], model: MULTIMODAL_MODEL, text: output.text };
+        } catch (error) {
+            console.error('Error calling Gemini API for upscaling:', error);
+            throw classifyError(error, 'An unknown error occurred during image upscaling.');
+        }
+    },
+
+    inpaint: async ({ prompt, image, mask, signal, traceId }) => {
+        try {
+            const parts = [
+                { text: 'Image 1: the photo to edit.' },
+                fileToGenerativePart(image),
+                { text: 'Image 2: a mask of the same size. White marks the region to change; black marks everything that must stay exactly as it is.' },
+                fileToGenerativePart(mask),
+                { text: `Edit image 1 only inside the white region of the mask: ${prompt}\nBlend the edit naturally with its surroundings and return the full image at the same size and framing.` },
+            ];
+            const output = await generateMultimodal(parts, 'Inpainting failed: No image data received from API.', { operation: 'inpaint', signal, traceId });
+            console.log('Image inpainted successfully.');
+            return { images: [output.image], model: MULTIMODAL_MODEL, text: output.text };
+        } catch (error) {
+            console.error('Error calling Gemini API for inpainting:', error);
+            throw classifyError(error, 'An unknown error occurred during inpainting.');
+        }
+    },
+
+    enhancePrompt: async (request) => {
+        try {
+            const parts = [{ text: describeEnhanceRequest(request) }];
+            const config = {
+                systemInstruction: ENHANCE_INSTRUCTION,
+                responseMimeType: 'application/json',
+                responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } },
+            };
+            return await traceProviderCall(
+                { traceId: request.traceId, provider: 'gemini', operation: 'enhance', model: TEXT_MODEL, parts, config },
+                async capture => {
+                    const response = await getClient().models.generateContent({
+                        model: TEXT_MODEL,
+                        contents: { parts },
+                        config: { ...config, abortSignal: request.signal },
+                    });
+                    const candidate = response.candidates?.[0];
+                    capture({
+                        response,
+                        finishReason: candidate?.finishReason,
+                        safetyRatings: candidate?.safetyRatings,
+                        blockReason: response.promptFeedback?.blockReason,
+                    });
+                    throwIfBlocked(response);
+
+                    let parsed: unknown;
+                    try {
+                        parsed = JSON.parse(response.text ?? '');
+                    } catch {
+                        parsed = null;
+                    }
+                    const prompts = Array.isArray(parsed)
+                        ? parsed.filter((prompt): prompt is string => typeof prompt === 'string' && prompt.trim() !== '').map(prompt => prompt.trim())
+                        : [];
+                    if (prompts.length === 0) {
+                        console.error('API response did not contain any prompts for prompt enhancement.', response);
+                        throw new ServiceError('malformed', 'Prompt enhancement failed: No prompts received from API.');
+                    }
+                    return { prompts: prompts.slice(0, request.count), model: TEXT_MODEL };
+                }
+            );
+        } catch (error) {
+            console.error('Error calling Gemini API for prompt enhancement:', error);
+            throw classifyError(error, 'An unknown error occurred during prompt enhancement.');
+        }
+    },
+
+    describeImage: async ({ image, signal, traceId }) => {
+        try {
+            const parts = [fileToGenerativePart(image), { text: 'Describe this image.' }];
+            const config = {
+                systemInstruction: DESCRIBE_INSTRUCTION,
+                responseMimeType: 'application/json',
+                responseSchema: DESCRIBE_SCHEMA,
+            };
+            return await traceProviderCall(
+                { traceId, provider: 'gemini', operation: 'describe', model: TEXT_MODEL, parts, config },
+                async capture => {
+                    const response = await getClient().models.generateContent({
+                        model: TEXT_MODEL,
+                        contents: { parts },
+                        config: { ...config, abortSignal: signal },
+                    });
+                    const candidate = response.candidates?.[0];
+                    capture({
+                        response,
+                        finishReason: candidate?.finishReason,
+                        safetyRatings: candidate?.safetyRatings,
+                        blockReason: response.promptFeedback?.blockReason,
+                    });
+                    throwIfBlocked(response);
+
+                    const description = parseDescription(response.text);
+                    if (!description) {
+                        console.error('API response did not contain a valid image description.', response);
+                        throw new ServiceError('malformed', 'Describing the image failed: No description received from API.');
+                    }
+                    return { ...description, model: TEXT_MODEL };
+                }
+            );
+        } catch (error) {
+            console.error('Error calling Gemini API for image description:', error);
+            throw classifyError(error, 'An unknown error occurred while describing the image.');
+        }
+    },
+};
@@ -0,0 +1,291 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { REFERENCE_ROLES, type AspectRatio, type GenerateRequest, type GenerationResult, type ImageProvider, type ReferenceImage } from '../imageProvider';
+import { createCanvas, loadImage } from '../../utils/imageUtils';
+import { ServiceError } from '../serviceErrors';
+import { traceProviderCall, type CallDetails, type RequestPart } from '../debugLog';
+
+/** Simulated network latency so the queue behaves as it does against a real API. */
+const MOCK_LATENCY_MS = 600;
+const BASE_SIZE = 1024;
+const MAX_UPSCALED_SIZE = 4096;
+const MOCK_MODEL = 'mock-placeholder';
+
+/** Phrases the offline enhancer combines, so alternatives differ in predictable ways. */
+const MOCK_LIGHTING = ['soft golden-hour light', 'dramatic rim lighting', 'diffused overcast daylight', 'warm studio softbox lighting'];
+const MOCK_LENSES = ['shot on a 35mm lens at f/2.8', 'shot on an 85mm portrait lens at f/1.8', 'wide-angle 24mm perspective', 'macro lens close-up'];
+const MOCK_COMPOSITIONS = ['rule-of-thirds composition', 'centered symmetrical framing', 'low-angle hero shot', 'shallow depth of field against a clean background'];
+const MOCK_MEDIUMS = ['digital photograph', 'soft watercolor illustration', 'flat vector illustration', 'cinematic film still'];
+const MOCK_MOODS = ['calm and airy', 'moody and mysterious', 'bright and playful', 'warm and nostalgic'];
+
+/**
+ * Waits like a network request would, rejecting as cancelled if the signal fires first.
+ */
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const abort = () => {
+        clearTimeout(timer);
+        reject(new ServiceError('cancelled', 'The request was cancelled.'));
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', abort);
+        resolve();
+    }, ms);
+    if (signal?.aborted) {
+        abort();
+    } else {
+        signal?.addEventListener('abort', abort, { once: true });
+    }
+});
+
+/**
+ * A small, stable string hash (FNV-1a) so the same prompt always renders the same colours.
+ */
+const hashString = (value: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const getDimensions = (aspectRatio: AspectRatio) => {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    return w >= h
+        ? { width: BASE_SIZE, height: Math.round(BASE_SIZE * h / w) }
+        : { width: Math.round(BASE_SIZE * w / h), height: BASE_SIZE };
+};
+
+/**
+ * Greedily breaks text into lines that fit within maxWidth.
+ */
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && ctx.measureText(candidate).width > maxWidth) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = candidate;
+        }
+    }
+    if (line) lines.push(line);
+    return lines;
+};
+
+/**
+ * Draws a placeholder image: a gradient seeded by the prompt and seed, the prompt text and optional reference thumbnails.
+ */
+const renderPlaceholder = async (request: GenerateRequest, seed: number, referenceImages: ReferenceImage[] = []) => {
+    const { prompt, aspectRatio, negativePrompt } = request;
+    const { width, height } = getDimensions(aspectRatio);
+    const { canvas, ctx } = createCanvas(width, height);
+    const hue = hashString(`${prompt}#${seed}`) % 360;
+
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hue}, 55%, 35%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 55%, 15%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    const padding = Math.round(width * 0.08);
+    const thumbSize = Math.round(Math.min(width, height) * 0.18);
+    const references = await Promise.all(referenceImages.map(reference => loadImage(reference.src)));
+    references.forEach((image, index) => {
+        const x = padding + index * (thumbSize + padding / 2);
+        const y = height - padding - thumbSize;
+        ctx.drawImage(image, x, y, thumbSize, thumbSize);
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+        ctx.lineWidth = 2;
+        ctx.strokeRect(x, y, thumbSize, thumbSize);
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+        ctx.font = `${Math.round(width * 0.022)}px sans-serif`;
+        ctx.textBaseline = 'bottom';
+        ctx.fillText(`${index + 1} · ${REFERENCE_ROLES[referenceImages[index].role].label}`, x, y - 4);
+    });
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+    ctx.font = `bold ${Math.round(width * 0.03)}px sans-serif`;
+    ctx.textBaseline = 'top';
+    ctx.fillText(`MOCK · ${aspectRatio} · seed ${seed}`, padding, padding);
+    if (negativePrompt) {
+        ctx.fillText(`not: ${negativePrompt}`.slice(0, 60), padding, padding + Math.round(width * 0.04));
+    }
+
+    const fontSize = Math.round(width * 0.045);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `${fontSize}px sans-serif`;
+    const maxLines = Math.floor((height - padding * 3 - (references.length ? thumbSize : 0)) / (fontSize * 1.3));
+    wrapText(ctx, prompt, width - padding * 2)
+        .slice(0, Math.max(maxLines, 1))
+        .forEach((line, index) => ctx.fillText(line, padding, padding * 2 + index * fontSize * 1.3));
+
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Renders one placeholder per requested variant. Without a seed, the same prompt still renders
+ * the same images, so offline runs are reproducible.
+ */
+const renderVariants = async (request: GenerateRequest, referenceImages: ReferenceImage[] = []): Promise<GenerationResult> => {
+    const baseSeed = request.seed ?? 0;
+    const images = await Promise.all(Array.from({ length: request.numberOfImages }, (_, index) =>
+        renderPlaceholder(request, baseSeed + index, referenceImages)
+    ));
+    return { images, model: MOCK_MODEL };
+};
+
+/**
+ * Records a data URL image as a request part, so mock calls show up in the debug inspector like real ones.
+ */
+const toRequestPart = (src: string): RequestPart => {
+    const match = src.match(/^data:([^;]+);base64,(.*)$/);
+    return match ? { inlineData: { mimeType: match[1], data: match[2] } } : { text: `[image: ${src.slice(0, 64)}]` };
+};
+
+const traceMockCall = <T>(details: Omit<CallDetails, 'provider' | 'model'>, run: () => Promise<T>) =>
+    traceProviderCall({ ...details, provider: 'mock', model: MOCK_MODEL }, async capture => {
+        const result = await run();
+        capture({ response: result, finishReason: 'STOP' });
+        return result;
+    });
+
+/**
+ * Names the dominant hue and brightness of an image from its average colour.
+ */
+const describePalette = async (src: string) => {
+    const image = await loadImage(src);
+    const { ctx } = createCanvas(1, 1);
+    ctx.drawImage(image, 0, 0, 1, 1);
+    const [r, g, b] = ctx.getImageData(0, 0, 1, 1).data;
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const brightness = (max + min) / 2 / 255;
+    let hue = 'neutral grey';
+    if (max - min > 24) {
+        const degrees = max === r ? ((g - b) / (max - min)) * 60 : max === g ? (2 + (b - r) / (max - min)) * 60 : (4 + (r - g) / (max - min)) * 60;
+        const names = ['red', 'orange', 'yellow', 'green', 'teal', 'blue', 'purple', 'pink'];
+        hue = names[Math.floor(((degrees + 360 + 22.5) % 360) / 45)];
+    }
+    return {
+        palette: `${brightness > 0.6 ? 'light' : brightness < 0.35 ? 'dark' : 'mid-tone'} ${hue} palette`,
+        orientation: image.naturalWidth > image.naturalHeight ? 'landscape' : image.naturalWidth < image.naturalHeight ? 'portrait' : 'square',
+    };
+};
+
+/**
+ * An offline provider that renders deterministic placeholder images locally.
+ * Used for development, demos and CI where no API key or network is available.
+ */
+export const mockProvider: ImageProvider = {
+    id: 'mock',
+    name: 'Mock (offline)',
+    capabilities: {
+        generate: { seed: true, negativePrompt: true },
+        edit: { seed: true, negativePrompt: true },
+    },
+
+    generate: (request) => traceMockCall({
+        traceId: request.traceId,
+        operation: 'generate',
+        parts: [{ text: request.prompt }],
+        config: { numberOfImages: request.numberOfImages, aspectRatio: request.aspectRatio, seed: request.seed, negativePrompt: request.negativePrompt },
+    }, async () => {
+        await delay(MOCK_LATENCY_MS, request.signal);
+        return renderVariants(request);
+    }),
+
+    edit: (request) => traceMockCall({
+        traceId: request.traceId,
+        operation: 'edit',
+        parts: [...request.referenceImages.map(reference => toRequestPart(reference.src)), { text: request.prompt }],
+        config: { numberOfImages: request.numberOfImages, aspectRatio: request.aspectRatio, seed: request.seed, negativePrompt: request.negativePrompt },
+    }, async () => {
+        await delay(MOCK_LATENCY_MS, request.signal);
+        return renderVariants(request, request.referenceImages);
+    }),
+
+    upscale: ({ image, signal, traceId }) => traceMockCall({
+        traceId,
+        operation: 'upscale',
+        parts: [toRequestPart(image)],
+        config: { maxSize: MAX_UPSCALED_SIZE },
+    }, async () => {
+        await delay(MOCK_LATENCY_MS, signal);
+        const source = await loadImage(image);
+        const scale = Math.min(4, MAX_UPSCALED_SIZE / Math.max(source.naturalWidth, source.naturalHeight));
+        const { canvas, ctx } = createCanvas(Math.round(source.naturalWidth * scale), Math.round(source.naturalHeight * scale));
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+        return { images: [canvas.toDataURL('image/png')], model: MOCK_MODEL };
+    }),
+
+    inpaint: ({ prompt, image, mask, signal, traceId }) => traceMockCall({
+        traceId,
+        operation: 'inpaint',
+        parts: [toRequestPart(image), toRequestPart(mask), { text: prompt }],
+        config: {},
+    }, async () => {
+        await delay(MOCK_LATENCY_MS, signal);
+        // Tints the whole image; the caller composites it back so only the masked area changes.
+        const source = await loadImage(image);
+        const { canvas, ctx } = createCanvas(source.naturalWidth, source.naturalHeight);
+        ctx.drawImage(source, 0, 0);
+        ctx.fillStyle = `hsla(${hashString(prompt) % 360}, 70%, 50%, 0.55)`;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.fillStyle = '#ffffff';
+        ctx.font = `bold ${Math.round(canvas.width * 0.04)}px sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        wrapText(ctx, prompt, canvas.width * 0.8)
+            .slice(0, 3)
+            .forEach((line, index) => ctx.fillText(line, canvas.width / 2, canvas.height / 2 + index * canvas.width * 0.05));
+        return { images: [canvas.toDataURL('image/png')], model: MOCK_MODEL };
+    }),
+
+    enhancePrompt: ({ prompt, count, signal, traceId }) => traceMockCall({
+        traceId,
+        operation: 'enhance',
+        parts: [{ text: prompt }],
+        config: { count },
+    }, async () => {
+        await delay(MOCK_LATENCY_MS, signal);
+        const idea = prompt.trim().replace(/[.,;\s]+$/, '');
+        const seed = hashString(idea);
+        const pick = (phrases: string[], index: number) => phrases[(seed + index) % phrases.length];
+        const prompts = Array.from({ length: count }, (_, index) =>
+            `${idea}, highly detailed, ${pick(MOCK_LIGHTING, index)}, ${pick(MOCK_LENSES, index + 1)}, ${pick(MOCK_COMPOSITIONS, index + 2)}`
+        );
+        return { prompts, model: MOCK_MODEL };
+    }),
+
+    describeImage: ({ image, signal, traceId }) => traceMockCall({
+        traceId,
+        operation: 'describe',
+        parts: [toRequestPart(image), { text: 'Describe this image.' }],
+        config: {},
+    }, async () => {
+        await delay(MOCK_LATENCY_MS, signal);
+        const { palette, orientation } = await describePalette(image);
+        const seed = hashString(image);
+        const pick = (phrases: string[]) => phrases[seed % phrases.length];
+        const style = {
+            medium: pick(MOCK_MEDIUMS),
+            lighting: pick(MOCK_LIGHTING),
+            palette,
+            composition: pick(MOCK_COMPOSITIONS),
+            mood: pick(MOCK_MOODS),
+        };
+        return {
+            caption: `A ${orientation} ${style.medium} with a ${palette}.`,
+            style,
+            prompt: `A ${style.medium} in a ${palette}, ${style.lighting}, ${style.composition}, ${style.mood} mood`,
+            model: MOCK_MODEL,
+        };
+    }),
+};
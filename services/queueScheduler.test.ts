@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createQueueScheduler, type SchedulerSettings } from './queueScheduler';
+
+vi.mock('./imageProvider', () => ({ getActiveProvider: () => ({ id: 'gemini' }) }));
+
+interface TestJob {
+    id: string;
+    retryAt?: number;
+}
+
+const settings = (overrides: Partial<SchedulerSettings['providers']['gemini']> = {}, concurrency = 4): SchedulerSettings => ({
+    concurrency,
+    maxAttempts: 3,
+    providers: {
+        gemini: { maxConcurrent: 4, requestsPerMinute: 0, ...overrides },
+        mock: { maxConcurrent: 4, requestsPerMinute: 0 },
+    },
+});
+
+/** A runJob whose jobs stay in flight until finished by hand. */
+const createRunner = () => {
+    const started: string[] = [];
+    const finishers = new Map<string, () => void>();
+    const runJob = (job: TestJob) => new Promise<void>(resolve => {
+        started.push(job.id);
+        finishers.set(job.id, resolve);
+    });
+    const finish = async (id: string) => {
+        finishers.get(id)!();
+        // Lets the scheduler's finally handler run
+        await vi.advanceTimersByTimeAsync(0);
+    };
+    return { started, runJob, finish };
+};
+
+const jobs = (...ids: string[]): TestJob[] => ids.map(id => ({ id }));
+
+describe('createQueueScheduler', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(0);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('starts jobs in order up to the worker count', () => {
+        const runner = createRunner();
+        const scheduler = createQueueScheduler({ settings: settings({}, 2), runJob: runner.runJob });
+        scheduler.setCandidates(jobs('a', 'b', 'c'));
+        expect(runner.started).toEqual(['a', 'b']);
+        expect(scheduler.getStatus().activeJobs).toBe(2);
+    });
+
+    it('starts the next candidate when a job finishes', async () => {
+        const runner = createRunner();
+        const scheduler = createQueueScheduler({ settings: settings({}, 1), runJob: runner.runJob });
+        scheduler.setCandidates(jobs('a', 'b'));
+        await runner.finish('a');
+        expect(runner.started).toEqual(['a', 'b']);
+    });
+
+    it("honours the provider's concurrency cap", () => {
+        const runner = createRunner();
+        const scheduler = createQueueScheduler({ settings: settings({ maxConcurrent: 1 }), runJob: runner.runJob });
+        scheduler.setCandidates(jobs('a', 'b'));
+        expect(runner.started).toEqual(['a']);
+    });
+
+    it('holds jobs back once the rate limit is reached and starts them when the window opens', async () => {
+        const runner = createRunner();
+        const scheduler = createQueueScheduler({ settings: settings({ requestsPerMinute: 2 }), runJob: runner.runJob });
+        scheduler.setCandidates(jobs('a', 'b', 'c'));
+        expect(runner.started).toEqual(['a', 'b']);
+        expect(scheduler.getStatus().rateLimitedUntil).toBe(60_000);
+
+        await vi.advanceTimersByTimeAsync(59_999);
+        expect(runner.started).toEqual(['a', 'b']);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(runner.started).toEqual(['a', 'b', 'c']);
+        expect(scheduler.getStatus().rateLimitedUntil).toBeNull();
+    });
+
+    it("counts each of a job's requests against the rate limit", () => {
+        const runner = createRunner();
+        const scheduler = createQueueScheduler({
+            settings: settings({ requestsPerMinute: 4 }),
+            runJob: runner.runJob,
+            getRequestCount: () => 3,
+        });
+        scheduler.setCandidates(jobs('a', 'b'));
+        expect(runner.started).toEqual(['a']);
+        expect(scheduler.getStatus().rateLimitedUntil).toBe(60_000);
+    });
+
+    it('starts a job needing more requests than the limit once the window is empty', async () => {
+        const runner = createRunner();
+        const scheduler = createQueueScheduler({
+            settings: settings({ requestsPerMinute: 2 }),
+            runJob: runner.runJob,
+            getRequestCount: job => job.id === 'big' ? 4 : 1,
+        });
+        scheduler.setCandidates(jobs('small', 'big'));
+        expect(runner.started).toEqual(['small']);
+        await vi.advanceTimersByTimeAsync(60_000);
+        expect(runner.started).toEqual(['small', 'big']);
+    });
+
+    it('waits out a job retry delay', async () => {
+        const runner = createRunner();
+        const scheduler = createQueueScheduler({ settings: settings(), runJob: runner.runJob });
+        scheduler.setCandidates([{ id: 'a', retryAt: 5_000 }]);
+        expect(runner.started).toEqual([]);
+        await vi.advanceTimersByTimeAsync(5_000);
+        expect(runner.started).toEqual(['a']);
+    });
+
+    it('starts nothing new while paused', () => {
+        const runner = createRunner();
+        const scheduler = createQueueScheduler({ settings: settings(), runJob: runner.runJob });
+        scheduler.setPaused(true);
+        scheduler.setCandidates(jobs('a'));
+        expect(runner.started).toEqual([]);
+        scheduler.setPaused(false);
+        expect(runner.started).toEqual(['a']);
+    });
+});
@@ -0,0 +1,210 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { getActiveProvider, type ProviderId } from './imageProvider';
+
+export interface ProviderLimits {
+    /** Maximum jobs in flight against this provider at once. */
+    maxConcurrent: number;
+    /** Maximum requests started per rolling minute. 0 disables the limit. */
+    requestsPerMinute: number;
+}
+
+export interface SchedulerSettings {
+    /** Total number of workers across all providers. */
+    concurrency: number;
+    /** Attempts per job, including the first, before a transient failure is treated as final. */
+    maxAttempts: number;
+    providers: Record<ProviderId, ProviderLimits>;
+}
+
+export interface SchedulerStatus {
+    activeJobs: number;
+    /** When paused, running jobs finish but no new ones start. */
+    paused: boolean;
+    concurrency: number;
+    /** Epoch ms at which the rate limiter will next allow a request, if it is currently holding jobs back. */
+    rateLimitedUntil: number | null;
+}
+
+export const DEFAULT_SCHEDULER_SETTINGS: SchedulerSettings = {
+    concurrency: 2,
+    maxAttempts: 3,
+    providers: {
+        gemini: { maxConcurrent: 2, requestsPerMinute: 10 },
+        mock: { maxConcurrent: 4, requestsPerMinute: 0 },
+    },
+};
+
+const SETTINGS_STORAGE_KEY = 'gemini-studio-scheduler';
+const RATE_WINDOW_MS = 60_000;
+
+export const loadSchedulerSettings = (): SchedulerSettings => {
+    try {
+        const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+        if (saved) {
+            const parsed = JSON.parse(saved) as Partial<SchedulerSettings>;
+            return {
+                ...DEFAULT_SCHEDULER_SETTINGS,
+                ...parsed,
+                providers: { ...DEFAULT_SCHEDULER_SETTINGS.providers, ...parsed.providers },
+            };
+        }
+    } catch (e) {
+        console.error("Failed to load scheduler settings from localStorage", e);
+    }
+    return DEFAULT_SCHEDULER_SETTINGS;
+};
+
+export const saveSchedulerSettings = (settings: SchedulerSettings) => {
+    try {
+        localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.error("Failed to save scheduler settings to localStorage", e);
+    }
+};
+
+/** The parts of a job the scheduler looks at. */
+interface SchedulableJob {
+    id: string;
+    /** Epoch ms before which the job must not start, e.g. while backing off after a failure. */
+    retryAt?: number;
+}
+
+interface SchedulerOptions<T extends SchedulableJob> {
+    settings: SchedulerSettings;
+    /** Executes a job. The scheduler frees the worker when the returned promise settles. */
+    runJob: (job: T) => Promise<void>;
+    /** How many API requests a job makes, each counted against the rate limit. Defaults to one. */
+    getRequestCount?: (job: T) => number;
+}
+
+/**
+ * Creates a scheduler that starts jobs as soon as a worker, the provider's concurrency cap and its
+ * rate limit all allow. It is driven by events (new candidates, a job finishing, a rate window
+ * opening, a retry delay elapsing) rather than polling.
+ */
+export const createQueueScheduler = <T extends SchedulableJob>({ settings: initialSettings, runJob, getRequestCount = () => 1 }: SchedulerOptions<T>) => {
+    let settings = initialSettings;
+    let candidates: T[] = [];
+    const running = new Map<string, ProviderId>();
+    const requestTimes = new Map<ProviderId, number[]>();
+    const listeners = new Set<() => void>();
+    let rateLimitedUntil: number | null = null;
+    let paused = false;
+    let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+    let status: SchedulerStatus = { activeJobs: 0, paused, concurrency: settings.concurrency, rateLimitedUntil: null };
+
+    const notify = () => {
+        const next: SchedulerStatus = { activeJobs: running.size, paused, concurrency: settings.concurrency, rateLimitedUntil };
+        if ((Object.keys(next) as (keyof SchedulerStatus)[]).some(key => next[key] !== status[key])) {
+            status = next;
+            listeners.forEach(listener => listener());
+        }
+    };
+
+    const wakeAt = (time: number) => {
+        if (wakeTimer) clearTimeout(wakeTimer);
+        wakeTimer = setTimeout(() => {
+            wakeTimer = null;
+            pump();
+        }, Math.max(0, time - Date.now()));
+    };
+
+    /**
+     * Returns when the provider may next start the given number of requests, or null if it may start them now.
+     * A job making more requests than the limit allows per minute starts once the window is empty.
+     */
+    const getRateLimitedUntil = (providerId: ProviderId, requests: number, now: number): number | null => {
+        const { requestsPerMinute } = settings.providers[providerId];
+        if (requestsPerMinute <= 0) return null;
+        const recent = (requestTimes.get(providerId) ?? []).filter(time => now - time < RATE_WINDOW_MS);
+        requestTimes.set(providerId, recent);
+        if (recent.length === 0 || recent.length + requests <= requestsPerMinute) return null;
+        // Wait until enough of the recent requests have left the window
+        const freed = Math.min(recent.length, recent.length + requests - requestsPerMinute);
+        return recent[freed - 1] + RATE_WINDOW_MS;
+    };
+
+    const start = (job: T, providerId: ProviderId, requests: number, now: number) => {
+        running.set(job.id, providerId);
+        requestTimes.set(providerId, [...(requestTimes.get(providerId) ?? []), ...Array<number>(requests).fill(now)]);
+        runJob(job)
+            .catch(error => console.error('Queue job failed unexpectedly:', job.id, error))
+            .finally(() => {
+                running.delete(job.id);
+                pump();
+            });
+    };
+
+    const pump = () => {
+        const now = Date.now();
+        const wakeTimes: number[] = [];
+
+        rateLimitedUntil = null;
+        for (const job of paused ? [] : candidates) {
+            if (running.size >= settings.concurrency) break;
+            if (running.has(job.id)) continue;
+            if (job.retryAt && job.retryAt > now) {
+                wakeTimes.push(job.retryAt);
+                continue;
+            }
+
+            // New jobs always go to whichever provider is active at the moment they start.
+            const providerId = getActiveProvider().id;
+            const inFlight = Array.from(running.values()).filter(id => id === providerId).length;
+            if (inFlight >= settings.providers[providerId].maxConcurrent) break;
+
+            const requests = Math.max(1, getRequestCount(job));
+            const limitedUntil = getRateLimitedUntil(providerId, requests, now);
+            if (limitedUntil !== null) {
+                rateLimitedUntil = limitedUntil;
+                wakeTimes.push(limitedUntil);
+                break;
+            }
+            start(job, providerId, requests, now);
+        }
+        if (wakeTimes.length > 0) {
+            wakeAt(Math.min(...wakeTimes));
+        }
+        candidates = candidates.filter(job => !running.has(job.id));
+        notify();
+    };
+
+    return {
+        /**
+         * Replaces the set of jobs waiting to run (in priority order) and starts what it can.
+         */
+        setCandidates: (jobs: T[]) => {
+            candidates = jobs;
+            pump();
+        },
+        updateSettings: (next: SchedulerSettings) => {
+            settings = next;
+            pump();
+        },
+        setPaused: (next: boolean) => {
+            paused = next;
+            pump();
+        },
+        /** Re-evaluates limits, e.g. after the active provider changes. */
+        wake: () => pump(),
+        getStatus: () => status,
+        subscribe: (listener: () => void) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+        /** Stops waiting on the rate limiter. Jobs already running are left to finish. */
+        dispose: () => {
+            if (wakeTimer) clearTimeout(wakeTimer);
+            wakeTimer = null;
+            candidates = [];
+        },
+    };
+};
+
+export type QueueScheduler<T extends SchedulableJob> = ReturnType<typeof createQueueScheduler<T>>;
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Job } from '../App';
+import { STORES, promisifyRequest, runTransaction } from './db';
+import type { ReferenceImage } from './imageProvider';
+
+interface QueueRecord extends Omit<Job, 'referenceImages'> {
+    position: number;
+    /** Jobs saved before reference roles existed hold plain data URLs. */
+    referenceImages: (ReferenceImage | string)[];
+}
+
+/**
+ * Loads the persisted queue in order.
+ * Jobs that were mid-flight when the last session ended can't be resumed where they left off,
+ * so they come back as 'interrupted' for the user to resume or discard.
+ */
+export const loadQueue = async (): Promise<Job[]> => {
+    const records = await runTransaction(STORES.queue, 'readonly', tx =>
+        promisifyRequest(tx.objectStore(STORES.queue).getAll() as IDBRequest<QueueRecord[]>)
+    );
+    return records
+        .sort((a, b) => a.position - b.position)
+        .map(({ position, referenceImages, ...job }): Job => ({
+            ...job,
+            status: job.status === 'processing' ? 'interrupted' : job.status,
+            referenceImages: referenceImages.map(reference =>
+                typeof reference === 'string' ? { src: reference, role: 'subject' } : reference
+            ),
+        }));
+};
+
+/**
+ * Writes the difference between two snapshots of the queue.
+ * Only jobs that were added, changed (by identity) or moved are rewritten, so untouched jobs cost nothing.
+ * A changed job is rewritten whole, reference images included, as status updates replace the job object.
+ * @param previous The queue as last persisted.
+ * @param next The current queue.
+ */
+export const syncQueue = (previous: Job[], next: Job[]) => {
+    const previousPositions = new Map(previous.map((job, index) => [job.id, { job, index }]));
+    const nextIds = new Set(next.map(job => job.id));
+
+    const removed = previous.filter(job => !nextIds.has(job.id));
+    const changed = next
+        .map((job, index) => ({ job, index }))
+        .filter(({ job, index }) => {
+            const before = previousPositions.get(job.id);
+            return !before || before.job !== job || before.index !== index;
+        });
+
+    if (removed.length === 0 && changed.length === 0) {
+        return Promise.resolve();
+    }
+    return runTransaction(STORES.queue, 'readwrite', tx => {
+        const store = tx.objectStore(STORES.queue);
+        removed.forEach(job => store.delete(job.id));
+        changed.forEach(({ job, index }) => store.put({ ...job, position: index } satisfies QueueRecord));
+    });
+};
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { ServiceError, classifyError, getRetryDelay } from './serviceErrors';
+
+/** An error shaped like the ones the SDK throws for HTTP failures. */
+const httpError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+describe('classifyError', () => {
+    it('returns service errors unchanged', () => {
+        const error = new ServiceError('safety', 'Blocked.');
+        expect(classifyError(error)).toBe(error);
+    });
+
+    it('wraps non-errors with the fallback message', () => {
+        const error = classifyError('boom', 'Generation failed.');
+        expect(error.kind).toBe('unknown');
+        expect(error.message).toBe('Generation failed.');
+        expect(error.cause).toBe('boom');
+    });
+
+    it('treats aborts as cancellations', () => {
+        expect(classifyError(new DOMException('The operation was aborted.', 'AbortError')).kind).toBe('cancelled');
+    });
+
+    it('reads the block reason from prompt feedback', () => {
+        const error = Object.assign(new Error('Blocked'), { response: { promptFeedback: { blockReason: 'SAFETY' } } });
+        const classified = classifyError(error);
+        expect(classified.kind).toBe('safety');
+        expect(classified.message).toBe('Request blocked: SAFETY.');
+    });
+
+    it('classifies 429 responses as quota errors with the suggested delay', () => {
+        const classified = classifyError(httpError(429, 'Too many requests, please retry in 12.5s.'));
+        expect(classified.kind).toBe('quota');
+        expect(classified.retryAfterMs).toBe(12_500);
+        expect(classified.isTransient).toBe(true);
+    });
+
+    it('classifies quota messages without a status', () => {
+        expect(classifyError(new Error('RESOURCE_EXHAUSTED')).kind).toBe('quota');
+    });
+
+    it('classifies server errors and fetch failures as network errors', () => {
+        expect(classifyError(httpError(503, 'Service Unavailable')).kind).toBe('network');
+        expect(classifyError(new TypeError('Failed to fetch')).kind).toBe('network');
+        expect(classifyError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' })).kind).toBe('network');
+    });
+
+    it('does not retry programming errors', () => {
+        const classified = classifyError(new TypeError("Cannot read properties of undefined (reading 'parts')"));
+        expect(classified.kind).toBe('unknown');
+        expect(classified.isTransient).toBe(false);
+    });
+
+    it('does not retry other client errors', () => {
+        expect(classifyError(httpError(400, 'Invalid argument')).kind).toBe('unknown');
+    });
+});
+
+describe('getRetryDelay', () => {
+    it('doubles with each attempt, within the jitter', () => {
+        const error = new ServiceError('network', 'Down');
+        for (const [attempt, base] of [[1, 2_000], [2, 4_000], [3, 8_000]]) {
+            const delay = getRetryDelay(attempt, error);
+            expect(delay).toBeGreaterThanOrEqual(base * 0.8);
+            expect(delay).toBeLessThanOrEqual(base * 1.2);
+        }
+    });
+
+    it('caps the delay at a minute', () => {
+        expect(getRetryDelay(20, new ServiceError('network', 'Down'))).toBeLessThanOrEqual(72_000);
+    });
+
+    it('uses a longer server-suggested delay', () => {
+        expect(getRetryDelay(1, new ServiceError('quota', 'Slow down', { retryAfterMs: 30_000 }))).toBe(30_000);
+    });
+});
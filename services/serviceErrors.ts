@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * - safety: the prompt or output was blocked by a content filter.
+ * - quota: the provider rejected the request for rate or quota reasons (HTTP 429).
+ * - network: the request didn't complete or the service was temporarily unavailable (5xx).
+ * - malformed: the provider answered but the response had no usable image.
+ * - cancelled: the caller aborted the request.
+ * - unknown: anything else.
+ */
+export type ServiceErrorKind = 'safety' | 'quota' | 'network' | 'malformed' | 'cancelled' | 'unknown';
+
+/** Kinds that may succeed if the same request is simply sent again later. */
+const TRANSIENT_KINDS: ServiceErrorKind[] = ['quota', 'network'];
+
+export const SERVICE_ERROR_LABELS: Record<ServiceErrorKind, string> = {
+    safety: 'Blocked',
+    quota: 'Quota',
+    network: 'Network',
+    malformed: 'Bad response',
+    cancelled: 'Cancelled',
+    unknown: 'Error',
+};
+
+/**
+ * An error raised by the service layer, classified so callers can decide whether to retry.
+ */
+export class ServiceError extends Error {
+    readonly kind: ServiceErrorKind;
+    /** Server-suggested delay before retrying, when one was provided. */
+    readonly retryAfterMs?: number;
+
+    constructor(kind: ServiceErrorKind, message: string, options: { retryAfterMs?: number; cause?: unknown } = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'ServiceError';
+        this.kind = kind;
+        this.retryAfterMs = options.retryAfterMs;
+    }
+
+    get isTransient() {
+        return TRANSIENT_KINDS.includes(this.kind);
+    }
+}
+
+/**
+ * Reads a "retry in Ns" hint out of a quota error message, if there is one.
+ */
+const parseRetryAfter = (message: string) => {
+    const match = message.match(/retry in ([\d.]+)\s*s/i) ?? message.match(/"retryDelay":\s*"([\d.]+)s"/);
+    return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+/** A property of a thrown value, which may be any shape. */
+const readField = (value: unknown, key: string): unknown => isObject(value) ? value[key] : undefined;
+
+/**
+ * Classifies any thrown value into a ServiceError.
+ * @param error The value that was thrown.
+ * @param fallbackMessage Used when the error carries no message of its own.
+ */
+export const classifyError = (error: unknown, fallbackMessage = 'An unknown error occurred.'): ServiceError => {
+    if (error instanceof ServiceError) {
+        return error;
+    }
+    if (!(error instanceof Error)) {
+        return new ServiceError('unknown', fallbackMessage, { cause: error });
+    }
+
+    const message = error.message || fallbackMessage;
+    // SDK errors carry an HTTP status; Node network errors carry a code such as ECONNRESET
+    const rawStatus = readField(error, 'status');
+    const rawCode = readField(error, 'code');
+    const status = typeof rawStatus === 'number' ? rawStatus : typeof rawCode === 'number' ? rawCode : undefined;
+    const code = typeof rawCode === 'string' ? rawCode : '';
+    const blockReason = readField(readField(readField(error, 'response'), 'promptFeedback'), 'blockReason');
+
+    if (error.name === 'AbortError') {
+        return new ServiceError('cancelled', 'The request was cancelled.', { cause: error });
+    }
+    if (typeof blockReason === 'string' && blockReason) {
+        return new ServiceError('safety', `Request blocked: ${blockReason}.`, { cause: error });
+    }
+    if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+        return new ServiceError('quota', message, { cause: error, retryAfterMs: parseRetryAfter(message) });
+    }
+    // Fetch failures are TypeErrors, but so are programming bugs, so only their messages are matched
+    if (
+        (status !== undefined && status >= 500) ||
+        /failed to fetch|load failed|network|UNAVAILABLE|timed? ?out|ECONNRESET/i.test(`${message} ${code}`)
+    ) {
+        return new ServiceError('network', message, { cause: error });
+    }
+    return new ServiceError('unknown', message, { cause: error });
+};
+
+const BASE_RETRY_DELAY_MS = 2_000;
+const MAX_RETRY_DELAY_MS = 60_000;
+
+/**
+ * Exponential backoff with jitter for the given (1-based) attempt that just failed.
+ * A server-provided delay takes precedence when it is longer.
+ */
+export const getRetryDelay = (attempt: number, error: ServiceError) => {
+    const exponential = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempt - 1));
+    const jittered = exponential * (0.8 + Math.random() * 0.4);
+    return Math.round(Math.max(jittered, error.retryAfterMs ?? 0));
+};
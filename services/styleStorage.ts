@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { StylePreset } from '../App';
+import { STORES, promisifyRequest, runTransaction } from './db';
+import { dataUrlToBlob, ensureDataUrl } from '../utils/imageUtils';
+
+interface StylePresetRecord extends Omit<StylePreset, 'referenceImage'> {
+    referenceImage?: Blob;
+}
+
+/**
+ * Loads the style preset library, sorted by name. Reference images are returned as object URLs.
+ */
+export const loadStylePresets = async (): Promise<StylePreset[]> => {
+    const records = await runTransaction(STORES.styles, 'readonly', tx =>
+        promisifyRequest(tx.objectStore(STORES.styles).getAll() as IDBRequest<StylePresetRecord[]>)
+    );
+    return records
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(({ referenceImage, ...preset }) => ({
+            ...preset,
+            referenceImage: referenceImage ? URL.createObjectURL(referenceImage) : undefined,
+        }));
+};
+
+/**
+ * Saves style presets, replacing any existing ones with the same ids.
+ * @param presets The presets. Reference images may be data URLs or object URLs.
+ */
+export const saveStylePresets = async (presets: StylePreset[]) => {
+    const records = await Promise.all(presets.map(async ({ referenceImage, ...preset }): Promise<StylePresetRecord> => ({
+        ...preset,
+        referenceImage: referenceImage ? dataUrlToBlob(await ensureDataUrl(referenceImage)) : undefined,
+    })));
+    await runTransaction(STORES.styles, 'readwrite', tx => {
+        const store = tx.objectStore(STORES.styles);
+        records.forEach(record => store.put(record));
+    });
+};
+
+/**
+ * Deletes a style preset from the library.
+ * @param id The preset id.
+ */
+export const deleteStylePreset = (id: string) =>
+    runTransaction(STORES.styles, 'readwrite', tx => {
+        tx.objectStore(STORES.styles).delete(id);
+    });
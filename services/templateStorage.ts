@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { PromptTemplate } from '../App';
+import { STORES, promisifyRequest, runTransaction } from './db';
+
+/**
+ * Loads the saved prompt templates, sorted by name.
+ */
+export const loadTemplates = async (): Promise<PromptTemplate[]> => {
+    const templates = await runTransaction(STORES.templates, 'readonly', tx =>
+        promisifyRequest(tx.objectStore(STORES.templates).getAll() as IDBRequest<PromptTemplate[]>)
+    );
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Saves a prompt template, replacing any existing one with the same id.
+ * @param template The template.
+ */
+export const saveTemplate = (template: PromptTemplate) =>
+    runTransaction(STORES.templates, 'readwrite', tx => {
+        tx.objectStore(STORES.templates).put(template);
+    });
+
+/**
+ * Deletes a saved prompt template.
+ * @param id The template id.
+ */
+export const deleteTemplate = (id: string) =>
+    runTransaction(STORES.templates, 'readwrite', tx => {
+        tx.objectStore(STORES.templates).delete(id);
+    });
@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Character } from '../App';
+import type { ReferenceImage } from '../services/imageProvider';
+import { appendReferenceGroups } from './referenceUtils';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Finds the characters whose names appear in a prompt as whole words, ignoring case.
+ */
+export const findMentionedCharacters = (prompt: string, characters: Character[]) =>
+    characters.filter(character => {
+        const name = character.name.trim();
+        return name && new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(name)}(?![\\p{L}\\p{N}])`, 'iu').test(prompt);
+    });
+
+/**
+ * Adds characters to a request: their shots are appended to the reference images with the 'character' role,
+ * and the prompt gains a note naming each character, the images that show them and their description.
+ * @param prompt The user's prompt.
+ * @param referenceImages The request's own reference images, which keep their numbers.
+ * @param characters The characters to include.
+ */
+export const attachCharacters = (prompt: string, referenceImages: ReferenceImage[], characters: Character[]) =>
+    appendReferenceGroups(
+        prompt,
+        referenceImages,
+        "Keep each character's identity and appearance consistent with their description and reference images:",
+        characters.map(character => ({ label: character.name, description: character.description, images: character.images, role: 'character' }))
+    );
@@ -0,0 +1,21 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Saves a file to the user's downloads folder.
+ * @param blob The file contents.
+ * @param filename The suggested file name, including its extension.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Revoked after the click has been handled, or some browsers cancel the download
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import type { GalleryItem, GenerationMetadata } from '../App';
+import { EMPTY_FILTERS, countActiveFilters, getFilterOptions, matchesFilters, normalizeTag, type GalleryFilters } from './galleryFilters';
+
+const metadata = (overrides: Partial<GenerationMetadata> = {}): GenerationMetadata => ({
+    aspectRatio: '1:1',
+    referenceImages: [],
+    variants: 1,
+    provider: 'mock',
+    model: 'mock-placeholder',
+    startedAt: new Date(2026, 2, 10, 9).getTime(),
+    completedAt: new Date(2026, 2, 10, 10).getTime(),
+    ...overrides,
+});
+
+const item = (overrides: Partial<GalleryItem> = {}): GalleryItem => ({
+    id: crypto.randomUUID(),
+    src: 'blob:image',
+    prompt: 'A red teapot on an oak table',
+    metadata: metadata(),
+    ...overrides,
+});
+
+const filters = (overrides: Partial<GalleryFilters>): GalleryFilters => ({ ...EMPTY_FILTERS, ...overrides });
+
+describe('matchesFilters', () => {
+    it('matches everything with no filters', () => {
+        expect(matchesFilters(item(), EMPTY_FILTERS)).toBe(true);
+    });
+
+    it('requires every query word somewhere in the searchable text', () => {
+        const tagged = item({ tags: ['kitchen'], metadata: metadata({ products: [{ id: 'p1', name: 'Teapot', sku: 'TP-01' }] }) });
+        expect(matchesFilters(tagged, filters({ query: 'RED kitchen tp-01' }))).toBe(true);
+        expect(matchesFilters(tagged, filters({ query: 'red blue' }))).toBe(false);
+    });
+
+    it('filters by creation day, including the whole last day', () => {
+        const image = item();
+        expect(matchesFilters(image, filters({ from: '2026-03-10', to: '2026-03-10' }))).toBe(true);
+        expect(matchesFilters(image, filters({ from: '2026-03-11' }))).toBe(false);
+        expect(matchesFilters(image, filters({ to: '2026-03-09' }))).toBe(false);
+    });
+
+    it("dates a version by its derivation, not its original's generation", () => {
+        const version = item({ derivation: { operation: 'crop', createdAt: new Date(2026, 2, 12).getTime() } });
+        expect(matchesFilters(version, filters({ from: '2026-03-11' }))).toBe(true);
+    });
+
+    it('filters by aspect ratio, model and template', () => {
+        const image = item({
+            metadata: metadata({ aspectRatio: '16:9', template: { name: 'Product shot', text: '{product}', values: { product: 'mug' } } }),
+            derivation: { operation: 'edit', model: 'edit-model', createdAt: 0 },
+        });
+        expect(matchesFilters(image, filters({ aspectRatio: '16:9', model: 'edit-model', template: 'Product shot' }))).toBe(true);
+        expect(matchesFilters(image, filters({ model: 'mock-placeholder' }))).toBe(true);
+        expect(matchesFilters(image, filters({ aspectRatio: '1:1' }))).toBe(false);
+        expect(matchesFilters(image, filters({ template: 'Other' }))).toBe(false);
+    });
+
+    it('requires every selected tag', () => {
+        const image = item({ tags: ['kitchen', 'hero'] });
+        expect(matchesFilters(image, filters({ tags: ['hero', 'kitchen'] }))).toBe(true);
+        expect(matchesFilters(image, filters({ tags: ['hero', 'outdoor'] }))).toBe(false);
+    });
+
+    it('filters by favorite and minimum rating', () => {
+        expect(matchesFilters(item({ favorite: true, rating: 4 }), filters({ favoritesOnly: true, minRating: 4 }))).toBe(true);
+        expect(matchesFilters(item({ rating: 3 }), filters({ minRating: 4 }))).toBe(false);
+        expect(matchesFilters(item(), filters({ minRating: 1 }))).toBe(false);
+        expect(matchesFilters(item(), filters({ favoritesOnly: true }))).toBe(false);
+    });
+});
+
+describe('countActiveFilters', () => {
+    it('counts each narrowing filter and each tag, but not the query', () => {
+        expect(countActiveFilters(filters({ query: 'teapot', model: 'm', tags: ['a', 'b'], favoritesOnly: true, minRating: 2 }))).toBe(5);
+        expect(countActiveFilters(EMPTY_FILTERS)).toBe(0);
+    });
+});
+
+describe('normalizeTag', () => {
+    it('trims, lowercases and collapses whitespace', () => {
+        expect(normalizeTag('  Golden   Hour ')).toBe('golden hour');
+    });
+});
+
+describe('getFilterOptions', () => {
+    it('collects the distinct values present, sorted', () => {
+        const options = getFilterOptions([
+            item({ tags: ['b', 'a'], metadata: metadata({ aspectRatio: '16:9' }) }),
+            item({ tags: ['a'], metadata: metadata({ model: 'alpha', template: { name: 'T', text: '', values: {} } }) }),
+            item({ metadata: undefined }),
+        ]);
+        expect(options).toEqual({
+            aspectRatios: ['1:1', '16:9'],
+            models: ['alpha', 'mock-placeholder'],
+            tags: ['a', 'b'],
+            templates: ['T'],
+        });
+    });
+});
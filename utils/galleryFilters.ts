@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GalleryItem } from '../App';
+import type { AspectRatio } from '../services/imageProvider';
+import { getCreatedAt } from './lineageUtils';
+
+export interface GalleryFilters {
+    /** Words that must all appear in the prompt, tags or other searchable text. */
+    query: string;
+    /** Earliest creation day, as yyyy-mm-dd, or '' for no limit. */
+    from: string;
+    /** Latest creation day, as yyyy-mm-dd, or '' for no limit. */
+    to: string;
+    aspectRatio: AspectRatio | '';
+    model: string;
+    /** Images must have every one of these tags. */
+    tags: string[];
+    /** The name of the template the image was expanded from. */
+    template: string;
+    favoritesOnly: boolean;
+    /** Lowest star rating to show; 0 shows unrated images too. */
+    minRating: number;
+}
+
+export const EMPTY_FILTERS: GalleryFilters = {
+    query: '',
+    from: '',
+    to: '',
+    aspectRatio: '',
+    model: '',
+    tags: [],
+    template: '',
+    favoritesOnly: false,
+    minRating: 0,
+};
+
+/**
+ * Counts the filters that narrow the gallery, not counting the search query.
+ */
+export const countActiveFilters = (filters: GalleryFilters) =>
+    [filters.from, filters.to, filters.aspectRatio, filters.model, filters.template].filter(Boolean).length
+    + filters.tags.length
+    + (filters.favoritesOnly ? 1 : 0)
+    + (filters.minRating > 0 ? 1 : 0);
+
+/**
+ * Normalizes a user-entered tag: trimmed, lowercase, inner whitespace collapsed.
+ */
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const getModels = (item: GalleryItem) =>
+    [item.metadata?.model, item.derivation?.model].filter((model): model is string => !!model);
+
+const getSearchText = (item: GalleryItem) => [
+    item.prompt,
+    ...(item.tags ?? []),
+    item.metadata?.negativePrompt,
+    item.metadata?.style?.name,
+    item.metadata?.template?.name,
+    ...Object.values(item.metadata?.template?.values ?? {}),
+    ...(item.metadata?.characters ?? []).map(character => character.name),
+    ...(item.metadata?.products ?? []).flatMap(product => [product.name, product.sku]),
+    item.derivation?.instruction,
+].filter(Boolean).join(' ').toLowerCase();
+
+/** Parses yyyy-mm-dd as local midnight, so day filters follow the user's calendar. */
+const parseDay = (day: string) => {
+    const [year, month, date] = day.split('-').map(Number);
+    return new Date(year, month - 1, date).getTime();
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether an item passes every filter.
+ */
+export const matchesFilters = (item: GalleryItem, filters: GalleryFilters): boolean => {
+    const words = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (words.length > 0) {
+        const text = getSearchText(item);
+        if (!words.every(word => text.includes(word))) return false;
+    }
+    const createdAt = getCreatedAt(item);
+    if (filters.from && createdAt < parseDay(filters.from)) return false;
+    if (filters.to && createdAt >= parseDay(filters.to) + DAY_MS) return false;
+    if (filters.aspectRatio && item.metadata?.aspectRatio !== filters.aspectRatio) return false;
+    if (filters.model && !getModels(item).includes(filters.model)) return false;
+    if (filters.tags.some(tag => !item.tags?.includes(tag))) return false;
+    if (filters.template && item.metadata?.template?.name !== filters.template) return false;
+    if (filters.favoritesOnly && !item.favorite) return false;
+    if (filters.minRating > 0 && (item.rating ?? 0) < filters.minRating) return false;
+    return true;
+};
+
+/**
+ * The values present in the gallery for each filter that picks from a list, sorted for display.
+ */
+export const getFilterOptions = (items: GalleryItem[]) => {
+    const aspectRatios = new Set<AspectRatio>();
+    const models = new Set<string>();
+    const tags = new Set<string>();
+    const templates = new Set<string>();
+    for (const item of items) {
+        if (item.metadata?.aspectRatio) aspectRatios.add(item.metadata.aspectRatio);
+        getModels(item).forEach(model => models.add(model));
+        item.tags?.forEach(tag => tags.add(tag));
+        if (item.metadata?.template?.name) templates.add(item.metadata.template.name);
+    }
+    const sorted = <T extends string>(values: Set<T>) => Array.from(values).sort((a, b) => a.localeCompare(b));
+    return { aspectRatios: sorted(aspectRatios), models: sorted(models), tags: sorted(tags), templates: sorted(templates) };
+};
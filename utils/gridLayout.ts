@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** A cell's size in grid tracks. */
+export interface CellSpan {
+    columns: number;
+    rows: number;
+}
+
+/** Where a cell was placed, in grid tracks. */
+export interface CellPlacement {
+    column: number;
+    row: number;
+    columns: number;
+    rows: number;
+}
+
+/**
+ * Places cells on a grid the way CSS grid's auto-placement does: in order, each at the first free
+ * position after the previous one that fits it. Cells wider than the grid are narrowed to fit.
+ * Knowing every position up front lets a virtualized grid render only the rows in view.
+ * @param spans The size of each cell, in order.
+ * @param columnCount The number of columns.
+ * @returns Each cell's placement, and the total number of rows.
+ */
+export const packGrid = (spans: CellSpan[], columnCount: number): { placements: CellPlacement[]; rowCount: number } => {
+    const occupied: boolean[][] = [];
+    const isFree = (row: number, column: number) => !occupied[row]?.[column];
+    const fits = (row: number, column: number, span: CellSpan) => {
+        if (column + span.columns > columnCount) return false;
+        for (let r = row; r < row + span.rows; r++) {
+            for (let c = column; c < column + span.columns; c++) {
+                if (!isFree(r, c)) return false;
+            }
+        }
+        return true;
+    };
+
+    let cursor = { row: 0, column: 0 };
+    let rowCount = 0;
+    const placements = spans.map(requested => {
+        const span = { columns: Math.min(requested.columns, columnCount), rows: requested.rows };
+        let { row, column } = cursor;
+        while (!fits(row, column, span)) {
+            column++;
+            if (column + span.columns > columnCount) {
+                column = 0;
+                row++;
+            }
+        }
+        for (let r = row; r < row + span.rows; r++) {
+            occupied[r] ??= [];
+            for (let c = column; c < column + span.columns; c++) {
+                occupied[r][c] = true;
+            }
+        }
+        cursor = { row, column: column + span.columns };
+        rowCount = Math.max(rowCount, row + span.rows);
+        return { column, row, ...span };
+    });
+    return { placements, rowCount };
+};
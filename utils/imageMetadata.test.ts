@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { SOFTWARE_NAME, embedImageMetadata, type EmbeddedMetadata } from './imageMetadata';
+import { crc32 } from './zipUtils';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const METADATA: EmbeddedMetadata = {
+    description: 'A teapot & a "mug" <3',
+    createdAt: new Date('2026-03-10T10:00:00.000Z'),
+    keywords: ['kitchen', 'hero'],
+    details: '{"seed":42}',
+};
+
+const pngChunk = (type: string, data: Uint8Array) => {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(encoder.encode(type), 4);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+};
+
+/** A PNG's signature, IHDR, one IDAT and IEND; the image data doesn't need to decode. */
+const createPng = () => {
+    const parts = [
+        new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        pngChunk('IHDR', new Uint8Array(13)),
+        pngChunk('IDAT', new Uint8Array([1, 2, 3])),
+        pngChunk('IEND', new Uint8Array()),
+    ];
+    const png = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        png.set(part, offset);
+        offset += part.length;
+    }
+    return png;
+};
+
+/** Splits a PNG into its chunks, checking each one's CRC. */
+const readPngChunks = (png: Uint8Array) => {
+    const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+    const chunks: { type: string; data: Uint8Array }[] = [];
+    for (let offset = 8; offset < png.length;) {
+        const length = view.getUint32(offset);
+        const type = decoder.decode(png.subarray(offset + 4, offset + 8));
+        expect(view.getUint32(offset + 8 + length)).toBe(crc32(png.subarray(offset + 4, offset + 8 + length)));
+        chunks.push({ type, data: png.subarray(offset + 8, offset + 8 + length) });
+        offset += 12 + length;
+    }
+    return chunks;
+};
+
+const readITxt = (data: Uint8Array) => {
+    const keywordEnd = data.indexOf(0);
+    return { keyword: decoder.decode(data.subarray(0, keywordEnd)), text: decoder.decode(data.subarray(keywordEnd + 5)) };
+};
+
+describe('embedImageMetadata', () => {
+    it('adds iTXt chunks straight after the PNG header', () => {
+        const chunks = readPngChunks(embedImageMetadata(createPng(), 'image/png', METADATA));
+        expect(chunks.map(chunk => chunk.type)).toEqual(['IHDR', 'iTXt', 'iTXt', 'iTXt', 'iTXt', 'iTXt', 'IDAT', 'IEND']);
+        expect(chunks.filter(chunk => chunk.type === 'iTXt').map(chunk => readITxt(chunk.data))).toEqual([
+            { keyword: 'Description', text: METADATA.description },
+            { keyword: 'Software', text: SOFTWARE_NAME },
+            { keyword: 'Creation Time', text: '2026-03-10T10:00:00.000Z' },
+            { keyword: 'Keywords', text: 'kitchen, hero' },
+            { keyword: 'Comment', text: METADATA.details },
+        ]);
+    });
+
+    it('leaves out the keywords chunk when there are none', () => {
+        const chunks = readPngChunks(embedImageMetadata(createPng(), 'image/png', { ...METADATA, keywords: [] }));
+        expect(chunks.filter(chunk => chunk.type === 'iTXt').map(chunk => readITxt(chunk.data).keyword)).not.toContain('Keywords');
+    });
+
+    it('adds an XMP segment after the JFIF header of a JPEG', () => {
+        const app0 = [0xff, 0xe0, 0x00, 0x06, 0x4a, 0x46, 0x49, 0x46];
+        const jpeg = new Uint8Array([0xff, 0xd8, ...app0, 0xff, 0xda, 0x01, 0xff, 0xd9]);
+        const result = embedImageMetadata(jpeg, 'image/jpeg', METADATA);
+        expect(Array.from(result.subarray(0, 10))).toEqual([0xff, 0xd8, ...app0]);
+        expect(Array.from(result.subarray(10, 12))).toEqual([0xff, 0xe1]);
+
+        const length = (result[12] << 8) | result[13];
+        const payload = decoder.decode(result.subarray(14, 12 + length));
+        expect(payload.startsWith('http://ns.adobe.com/xap/1.0/\0')).toBe(true);
+        expect(payload).toContain('A teapot &amp; a &quot;mug&quot; &lt;3');
+        expect(payload).toContain('<rdf:li>kitchen</rdf:li><rdf:li>hero</rdf:li>');
+        expect(payload).toContain('<studio:metadata>{&quot;seed&quot;:42}</studio:metadata>');
+        expect(Array.from(result.subarray(12 + length))).toEqual([0xff, 0xda, 0x01, 0xff, 0xd9]);
+    });
+
+    it('drops the full record from a JPEG when it would not fit in one segment', () => {
+        const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+        const result = embedImageMetadata(jpeg, 'image/jpeg', { ...METADATA, details: 'x'.repeat(70_000) });
+        // Without a JFIF header the segment follows the start-of-image marker
+        expect(Array.from(result.subarray(2, 4))).toEqual([0xff, 0xe1]);
+        const length = (result[4] << 8) | result[5];
+        const payload = decoder.decode(result.subarray(6, 4 + length));
+        expect(payload).toContain('A teapot');
+        expect(payload).not.toContain('studio:metadata>');
+    });
+
+    it('returns other formats, and files that are not what they claim, unchanged', () => {
+        const webp = encoder.encode('RIFF....WEBP');
+        expect(embedImageMetadata(webp, 'image/webp', METADATA)).toBe(webp);
+        expect(embedImageMetadata(webp, 'image/png', METADATA)).toBe(webp);
+    });
+});
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { crc32 } from './zipUtils';
+
+/** Provenance written into exported image files. */
+export interface EmbeddedMetadata {
+    /** The prompt, shown as the description by most image viewers. */
+    description: string;
+    createdAt: Date;
+    keywords: string[];
+    /** The full generation record as JSON, for tools that read it back. */
+    details: string;
+}
+
+export const SOFTWARE_NAME = 'Gemini Image Studio Pro';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+/** The signature plus the IHDR chunk, which must come first. */
+const PNG_HEADER_LENGTH = 8 + 4 + 4 + 13 + 4;
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0';
+/** A JPEG segment's length field counts itself, and can't exceed 0xffff. */
+const MAX_JPEG_SEGMENT_PAYLOAD = 0xffff - 2;
+
+const encoder = new TextEncoder();
+
+const concat = (...arrays: Uint8Array[]) => {
+    const result = new Uint8Array(arrays.reduce((total, array) => total + array.length, 0));
+    let offset = 0;
+    for (const array of arrays) {
+        result.set(array, offset);
+        offset += array.length;
+    }
+    return result;
+};
+
+/** An international text chunk, which holds UTF-8 unlike tEXt. */
+const createITxtChunk = (keyword: string, text: string) => {
+    // Keyword, null, no compression, compression method, empty language tag and translated keyword
+    const data = concat(encoder.encode(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text));
+    const typeAndData = concat(encoder.encode('iTXt'), data);
+    const chunk = new Uint8Array(4 + typeAndData.length + 4);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(typeAndData, 4);
+    view.setUint32(4 + typeAndData.length, crc32(typeAndData));
+    return chunk;
+};
+
+const embedInPng = (data: Uint8Array, metadata: EmbeddedMetadata) => {
+    const chunks = [
+        createITxtChunk('Description', metadata.description),
+        createITxtChunk('Software', SOFTWARE_NAME),
+        createITxtChunk('Creation Time', metadata.createdAt.toISOString()),
+        ...(metadata.keywords.length > 0 ? [createITxtChunk('Keywords', metadata.keywords.join(', '))] : []),
+        createITxtChunk('Comment', metadata.details),
+    ];
+    return concat(data.subarray(0, PNG_HEADER_LENGTH), ...chunks, data.subarray(PNG_HEADER_LENGTH));
+};
+
+const escapeXml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const createXmpPacket = (metadata: EmbeddedMetadata, includeDetails: boolean) => [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about=""',
+    ' xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    ' xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+    ' xmlns:studio="urn:gemini-image-studio-pro:1.0"',
+    ` xmp:CreatorTool="${escapeXml(SOFTWARE_NAME)}"`,
+    ` xmp:CreateDate="${metadata.createdAt.toISOString()}">`,
+    `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.description)}</rdf:li></rdf:Alt></dc:description>`,
+    ...(metadata.keywords.length > 0
+        ? [`<dc:subject><rdf:Bag>${metadata.keywords.map(keyword => `<rdf:li>${escapeXml(keyword)}</rdf:li>`).join('')}</rdf:Bag></dc:subject>`]
+        : []),
+    ...(includeDetails ? [`<studio:metadata>${escapeXml(metadata.details)}</studio:metadata>`] : []),
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="r"?>',
+].join('\n');
+
+const embedInJpeg = (data: Uint8Array, metadata: EmbeddedMetadata) => {
+    // The full record can outgrow a single segment; the description and keywords usually still fit
+    let payload = encoder.encode(XMP_NAMESPACE + createXmpPacket(metadata, true));
+    if (payload.length > MAX_JPEG_SEGMENT_PAYLOAD) {
+        payload = encoder.encode(XMP_NAMESPACE + createXmpPacket(metadata, false));
+    }
+    if (payload.length > MAX_JPEG_SEGMENT_PAYLOAD) {
+        console.warn('Image metadata is too large to embed in a JPEG; skipping.');
+        return data;
+    }
+    const segment = new Uint8Array(4 + payload.length);
+    segment.set([0xff, 0xe1], 0);
+    new DataView(segment.buffer).setUint16(2, payload.length + 2);
+    segment.set(payload, 4);
+
+    // XMP goes after the JFIF header, which readers expect straight after the start-of-image marker
+    let insertAt = 2;
+    if (data[2] === 0xff && data[3] === 0xe0) {
+        insertAt = 4 + ((data[4] << 8) | data[5]);
+    }
+    return concat(data.subarray(0, insertAt), segment, data.subarray(insertAt));
+};
+
+/**
+ * Writes provenance into an image file: iTXt chunks for PNG, an XMP packet for JPEG.
+ * Other formats are returned unchanged.
+ * @param data The encoded image.
+ * @param mimeType The image's MIME type.
+ * @param metadata What to embed.
+ * @returns The image with metadata added.
+ */
+export const embedImageMetadata = (data: Uint8Array, mimeType: string, metadata: EmbeddedMetadata): Uint8Array => {
+    if (mimeType === 'image/png' && PNG_SIGNATURE.every((byte, index) => data[index] === byte)) {
+        return embedInPng(data, metadata);
+    }
+    if (mimeType === 'image/jpeg' && data[0] === 0xff && data[1] === 0xd8) {
+        return embedInJpeg(data, metadata);
+    }
+    return data;
+};
@@ -0,0 +1,300 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Decodes an image from a URL (typically a base64 data URL).
+ * @param src The image source.
+ * @returns A promise that resolves once the image has loaded.
+ */
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('Failed to load image.'));
+        image.src = src;
+    });
+};
+
+/**
+ * Creates a canvas of the given size along with its 2D context.
+ */
+export const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Canvas 2D context is not available.');
+    }
+    return { canvas, ctx };
+};
+
+/**
+ * Decodes a base64 data URL into a Blob without a network round trip.
+ * @param dataUrl The data URL (e.g., "data:image/png;base64,...").
+ */
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+    const match = dataUrl.match(/^data:(.+);base64,(.+)$/);
+    if (!match) {
+        throw new Error('Invalid base64 string format');
+    }
+    const binary = atob(match[2]);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: match[1] });
+};
+
+/**
+ * Encodes a Blob as a base64 data URL.
+ */
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+};
+
+/**
+ * Returns a data URL for any image source, fetching object URLs (blob:) as needed.
+ * Providers require inline base64 data, while stored gallery images are displayed from object URLs.
+ */
+export const ensureDataUrl = async (src: string): Promise<string> => {
+    if (src.startsWith('data:')) {
+        return src;
+    }
+    const response = await fetch(src);
+    return blobToDataUrl(await response.blob());
+};
+
+/**
+ * Hashes an image's bytes, so the same file is recognized however it was loaded.
+ * @param src A data URL or object URL.
+ * @returns The SHA-256 digest as lowercase hex.
+ */
+export const hashImage = async (src: string): Promise<string> => {
+    const response = await fetch(src);
+    const digest = await crypto.subtle.digest('SHA-256', await response.arrayBuffer());
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export type ImageFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+
+export const IMAGE_FORMATS: Record<ImageFormat, { label: string; extension: string; lossy: boolean }> = {
+    'image/png': { label: 'PNG', extension: 'png', lossy: false },
+    'image/jpeg': { label: 'JPEG', extension: 'jpg', lossy: true },
+    'image/webp': { label: 'WebP', extension: 'webp', lossy: true },
+};
+
+/** A rectangle in an image's natural pixels. */
+export interface PixelRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * One step of a processing pipeline. Steps run in order, each on the previous step's output.
+ */
+export type ImageOperation =
+    | { type: 'crop'; rect: PixelRect }
+    | { type: 'rotate'; degrees: 90 | 180 | 270 }
+    | { type: 'flip'; axis: 'horizontal' | 'vertical' }
+    /** Scales to exact dimensions. */
+    | { type: 'resize'; width: number; height: number }
+    /** Scales down, keeping the aspect ratio, so the longest side is at most maxDimension. Never scales up. */
+    | { type: 'fit'; maxDimension: number }
+    /** Extends the canvas evenly on two sides to reach the aspect ratio (width / height). Transparent unless a color is given. */
+    | { type: 'pad'; aspect: number; color?: string };
+
+export interface EncodeOptions {
+    /** Defaults to PNG. Browsers that cannot encode WebP fall back to PNG. */
+    format?: ImageFormat;
+    /** 0–1, used by JPEG and WebP. Defaults to 0.92. */
+    quality?: number;
+    /** Fills transparent areas. JPEG has no alpha channel, so it is always filled, white by default. */
+    background?: string;
+}
+
+const DEFAULT_QUALITY = 0.92;
+
+const drawScaled = (source: CanvasImageSource, width: number, height: number) => {
+    const { canvas, ctx } = createCanvas(Math.max(1, Math.round(width)), Math.max(1, Math.round(height)));
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return canvas;
+};
+
+const crop = (source: HTMLCanvasElement, rect: PixelRect) => {
+    const x = Math.max(0, Math.round(rect.x));
+    const y = Math.max(0, Math.round(rect.y));
+    const width = Math.max(1, Math.min(Math.round(rect.width), source.width - x));
+    const height = Math.max(1, Math.min(Math.round(rect.height), source.height - y));
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(source, x, y, width, height, 0, 0, width, height);
+    return canvas;
+};
+
+const rotate = (source: HTMLCanvasElement, degrees: 90 | 180 | 270) => {
+    const quarterTurn = degrees !== 180;
+    const { canvas, ctx } = createCanvas(quarterTurn ? source.height : source.width, quarterTurn ? source.width : source.height);
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.rotate(degrees * Math.PI / 180);
+    ctx.drawImage(source, -source.width / 2, -source.height / 2);
+    return canvas;
+};
+
+const flip = (source: HTMLCanvasElement, axis: 'horizontal' | 'vertical') => {
+    const { canvas, ctx } = createCanvas(source.width, source.height);
+    if (axis === 'horizontal') {
+        ctx.translate(source.width, 0);
+        ctx.scale(-1, 1);
+    } else {
+        ctx.translate(0, source.height);
+        ctx.scale(1, -1);
+    }
+    ctx.drawImage(source, 0, 0);
+    return canvas;
+};
+
+/**
+ * Resamples to the target size. Large reductions are done by repeated halving first,
+ * since a single drawImage skips most source pixels and aliases.
+ */
+const resize = (source: HTMLCanvasElement, width: number, height: number) => {
+    let current = source;
+    while (current.width / 2 >= width && current.height / 2 >= height) {
+        current = drawScaled(current, current.width / 2, current.height / 2);
+    }
+    return drawScaled(current, width, height);
+};
+
+const fit = (source: HTMLCanvasElement, maxDimension: number) => {
+    const scale = maxDimension / Math.max(source.width, source.height);
+    return scale >= 1 ? source : resize(source, source.width * scale, source.height * scale);
+};
+
+const pad = (source: HTMLCanvasElement, aspect: number, color?: string) => {
+    const width = Math.max(source.width, Math.round(source.height * aspect));
+    const height = Math.max(source.height, Math.round(source.width / aspect));
+    const { canvas, ctx } = createCanvas(width, height);
+    if (color) {
+        ctx.fillStyle = color;
+        ctx.fillRect(0, 0, width, height);
+    }
+    ctx.drawImage(source, Math.round((width - source.width) / 2), Math.round((height - source.height) / 2));
+    return canvas;
+};
+
+const applyOperation = (canvas: HTMLCanvasElement, operation: ImageOperation): HTMLCanvasElement => {
+    switch (operation.type) {
+        case 'crop': return crop(canvas, operation.rect);
+        case 'rotate': return rotate(canvas, operation.degrees);
+        case 'flip': return flip(canvas, operation.axis);
+        case 'resize': return resize(canvas, operation.width, operation.height);
+        case 'fit': return fit(canvas, operation.maxDimension);
+        case 'pad': return pad(canvas, operation.aspect, operation.color);
+    }
+};
+
+/**
+ * Encodes a canvas as a data URL.
+ * @param canvas The canvas to encode.
+ * @param options The output format, quality and background.
+ */
+export const encodeCanvas = (canvas: HTMLCanvasElement, { format = 'image/png', quality = DEFAULT_QUALITY, background }: EncodeOptions = {}) => {
+    const fill = background ?? (format === 'image/jpeg' ? '#ffffff' : undefined);
+    let output = canvas;
+    if (fill) {
+        const filled = createCanvas(canvas.width, canvas.height);
+        filled.ctx.fillStyle = fill;
+        filled.ctx.fillRect(0, 0, canvas.width, canvas.height);
+        filled.ctx.drawImage(canvas, 0, 0);
+        output = filled.canvas;
+    }
+    return output.toDataURL(format, quality);
+};
+
+const imageToCanvas = (image: HTMLImageElement) => {
+    const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+    ctx.drawImage(image, 0, 0);
+    return canvas;
+};
+
+/**
+ * Runs an image through a sequence of local operations and encodes the result.
+ * Everything happens on a canvas in the browser; no API calls are made and the same input always gives the same output.
+ * @param src The image source (data URL or object URL).
+ * @param operations The steps to apply, in order. May be empty to only convert the format.
+ * @param options The output format, quality and background.
+ * @returns A promise that resolves to the processed image as a data URL.
+ */
+export const processImage = async (src: string, operations: ImageOperation[], options: EncodeOptions = {}): Promise<string> => {
+    const canvas = operations.reduce(applyOperation, imageToCanvas(await loadImage(src)));
+    return encodeCanvas(canvas, options);
+};
+
+/**
+ * Renders an alpha mask (opaque where painted, transparent elsewhere) as the black-and-white
+ * image models expect: white where painted, black elsewhere.
+ * @param mask The alpha mask's source.
+ * @returns A promise that resolves to the black-and-white mask as a PNG data URL.
+ */
+export const maskToBlackAndWhite = async (mask: string): Promise<string> => {
+    const image = await loadImage(mask);
+    const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+    ctx.drawImage(image, 0, 0);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    return encodeCanvas(canvas, { background: '#000000' });
+};
+
+/**
+ * Draws an overlay onto a base image only where an alpha mask is painted.
+ * The overlay is scaled to the base's size, and the mask's edge is softened so the seam does not show.
+ * @param base The image to keep outside the mask.
+ * @param overlay The image to show inside the mask.
+ * @param mask An alpha mask the same size as the base.
+ * @param feather The blur radius of the mask's edge, in pixels.
+ * @returns A promise that resolves to the composited image as a PNG data URL.
+ */
+export const compositeWithMask = async (base: string, overlay: string, mask: string, feather = 4): Promise<string> => {
+    const [baseImage, overlayImage, maskImage] = await Promise.all([loadImage(base), loadImage(overlay), loadImage(mask)]);
+    const result = imageToCanvas(baseImage);
+    const masked = drawScaled(overlayImage, result.width, result.height);
+    const maskedCtx = masked.getContext('2d')!;
+    maskedCtx.globalCompositeOperation = 'destination-in';
+    maskedCtx.filter = feather > 0 ? `blur(${feather}px)` : 'none';
+    maskedCtx.drawImage(maskImage, 0, 0, result.width, result.height);
+    result.getContext('2d')!.drawImage(masked, 0, 0);
+    return encodeCanvas(result);
+};
+
+/**
+ * Returns the MIME type of a data URL, or undefined for other URLs.
+ */
+export const getDataUrlMimeType = (src: string) => src.match(/^data:([^;,]+)/)?.[1];
+
+/**
+ * Shrinks an image so its longest side is at most maxDimension, keeping its format where possible.
+ * Images that are already small enough are returned unchanged, without re-encoding.
+ * @param src The image source.
+ * @param maxDimension The longest allowed side, in pixels.
+ */
+export const downscaleImage = async (src: string, maxDimension: number): Promise<string> => {
+    const image = await loadImage(src);
+    if (Math.max(image.naturalWidth, image.naturalHeight) <= maxDimension) {
+        return src;
+    }
+    const mimeType = getDataUrlMimeType(src);
+    const format = mimeType && mimeType in IMAGE_FORMATS ? mimeType as ImageFormat : 'image/png';
+    return encodeCanvas(fit(imageToCanvas(image), maxDimension), { format });
+};
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { DerivationOperation, GalleryItem } from '../App';
+
+export interface LineageNode {
+    item: GalleryItem;
+    children: LineageNode[];
+}
+
+export const DERIVATION_LABELS: Record<DerivationOperation, string> = {
+    upscale: 'Upscale',
+    edit: 'Edit',
+    adjust: 'Adjustment',
+    filter: 'Filter',
+    crop: 'Crop',
+    transform: 'Transform',
+    inpaint: 'Retouch',
+};
+
+/**
+ * A short label for how a version was produced.
+ */
+export const describeVersion = (item: GalleryItem) =>
+    item.derivation ? DERIVATION_LABELS[item.derivation.operation] : 'Original';
+
+/**
+ * The id shared by every version in an item's lineage.
+ */
+export const getLineageKey = (item: GalleryItem) => item.rootId ?? item.id;
+
+export const getCreatedAt = (item: GalleryItem) => item.derivation?.createdAt ?? item.metadata?.completedAt ?? 0;
+
+/**
+ * When a version became current. Versions that were never explicitly activated count from their creation.
+ */
+export const getActivatedAt = (item: GalleryItem) => item.activatedAt ?? getCreatedAt(item);
+
+/**
+ * All versions in an item's lineage, oldest first.
+ */
+export const getVersions = (items: GalleryItem[], item: GalleryItem): GalleryItem[] => {
+    const key = getLineageKey(item);
+    return items
+        .filter(candidate => getLineageKey(candidate) === key)
+        .sort((a, b) => getCreatedAt(a) - getCreatedAt(b));
+};
+
+/**
+ * Reduces the gallery to one item per lineage: its current version.
+ * Lineages are ordered by their most recently added version, so the input's newest-first order is kept.
+ */
+export const getCurrentVersions = (items: GalleryItem[]): GalleryItem[] => {
+    const heads = new Map<string, GalleryItem>();
+    for (const item of items) {
+        const key = getLineageKey(item);
+        const head = heads.get(key);
+        if (!head || getActivatedAt(item) > getActivatedAt(head)) {
+            heads.set(key, item);
+        }
+    }
+    const seen = new Set<string>();
+    return items.flatMap(item => {
+        const key = getLineageKey(item);
+        if (seen.has(key)) return [];
+        seen.add(key);
+        return [heads.get(key)!];
+    });
+};
+
+/**
+ * Builds the derivation tree for an item's lineage. Versions whose parent is missing
+ * (e.g. it was deleted) are attached to the root.
+ */
+export const buildLineageTree = (items: GalleryItem[], item: GalleryItem): LineageNode | null => {
+    const versions = getVersions(items, item);
+    const rootItem = versions.find(version => version.id === getLineageKey(item)) ?? versions[0];
+    if (!rootItem) return null;
+
+    const nodes = new Map(versions.map(version => [version.id, { item: version, children: [] as LineageNode[] }]));
+    const root = nodes.get(rootItem.id)!;
+    for (const version of versions) {
+        if (version.id === rootItem.id) continue;
+        const parent = (version.parentId && nodes.get(version.parentId)) || root;
+        parent.children.push(nodes.get(version.id)!);
+    }
+    return root;
+};
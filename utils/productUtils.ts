@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Product } from '../App';
+import type { ReferenceImage } from '../services/imageProvider';
+import { appendReferenceGroups } from './referenceUtils';
+
+/**
+ * The name a product goes by in prompts and captions, with its SKU when it has one.
+ */
+export const getProductLabel = (product: Pick<Product, 'name' | 'sku'>) =>
+    product.sku ? `${product.name} (SKU ${product.sku})` : product.name;
+
+/**
+ * Adds products to a request: their photos are appended to the reference images as subjects,
+ * and the prompt gains a note naming each product, the images that show it and its notes.
+ * @param prompt The user's prompt.
+ * @param referenceImages The request's own reference images, which keep their numbers.
+ * @param products The products to feature.
+ */
+export const attachProducts = (prompt: string, referenceImages: ReferenceImage[], products: Product[]) =>
+    appendReferenceGroups(
+        prompt,
+        referenceImages,
+        'Feature these products exactly as they appear in their reference images, including shape, colors, materials, labels and logos:',
+        products.map(product => ({ label: getProductLabel(product), description: product.notes, images: product.images, role: 'subject' }))
+    );
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import type { Character, GalleryItem, PromptTemplate } from '../App';
+import { mergeProject, type ProjectContents } from './projectUtils';
+
+const contents = (overrides: Partial<ProjectContents> = {}): ProjectContents => ({
+    gallery: [],
+    characters: [],
+    products: [],
+    templates: [],
+    stylePresets: [],
+    ...overrides,
+});
+
+const image = (id: string, overrides: Partial<GalleryItem> = {}): GalleryItem => ({ id, src: `blob:${id}`, prompt: id, ...overrides });
+
+const template = (id: string, text: string): PromptTemplate => ({ id, name: `Template ${id}`, text, createdAt: 0 });
+
+const character = (id: string, images: string[]): Character => ({ id, name: 'Ada', description: 'Red scarf', images, createdAt: 0 });
+
+describe('mergeProject', () => {
+    it('adds new images and counts ones already present as unchanged', () => {
+        const { changes, summary } = mergeProject(
+            contents({ gallery: [image('a')] }),
+            contents({ gallery: [image('a'), image('b')] }),
+            'keep-both'
+        );
+        expect(changes.gallery.map(item => item.id)).toEqual(['b']);
+        expect(summary.gallery).toMatchObject({ added: 1, updated: 0, unchanged: 1 });
+    });
+
+    it('merges tags, favorites and ratings across a lineage, with the local rating winning', () => {
+        const { changes, summary } = mergeProject(
+            contents({ gallery: [image('root', { tags: ['mine'], rating: 4 })] }),
+            contents({ gallery: [
+                image('root', { tags: ['theirs'], favorite: true, rating: 2 }),
+                image('crop', { parentId: 'root', rootId: 'root' }),
+            ] }),
+            'keep-both'
+        );
+        const byId = new Map(changes.gallery.map(item => [item.id, item]));
+        expect(byId.get('root')).toMatchObject({ tags: ['mine', 'theirs'], favorite: true, rating: 4 });
+        expect(byId.get('crop')).toMatchObject({ tags: ['mine', 'theirs'], favorite: true, rating: 4 });
+        expect(summary.gallery).toMatchObject({ added: 1, updated: 1, unchanged: 0 });
+    });
+
+    it('treats library entries with the same id and text as the same, whatever their image URLs', () => {
+        const { changes, summary } = mergeProject(
+            contents({ characters: [character('c1', ['blob:local'])] }),
+            contents({ characters: [character('c1', ['blob:imported'])] }),
+            'replace'
+        );
+        expect(changes.characters).toEqual([]);
+        expect(summary.characters).toEqual({ added: 0, updated: 0, unchanged: 1 });
+    });
+
+    it('resolves conflicting library entries by the chosen policy', () => {
+        const current = contents({ templates: [template('t1', 'A {product}')] });
+        const incoming = contents({ templates: [template('t1', 'The {product} on {surface}'), template('t2', 'New')] });
+
+        const replaced = mergeProject(current, incoming, 'replace');
+        expect(replaced.changes.templates).toEqual(incoming.templates);
+        expect(replaced.summary.templates).toEqual({ added: 1, updated: 1, unchanged: 0 });
+
+        const skipped = mergeProject(current, incoming, 'skip');
+        expect(skipped.changes.templates.map(entry => entry.id)).toEqual(['t2']);
+        expect(skipped.summary.templates).toEqual({ added: 1, updated: 0, unchanged: 1 });
+
+        const kept = mergeProject(current, incoming, 'keep-both');
+        expect(kept.changes.templates[0]).toMatchObject({ name: 'Template t1 (imported)', text: 'The {product} on {surface}' });
+        expect(kept.changes.templates[0].id).not.toBe('t1');
+        expect(kept.summary.templates).toEqual({ added: 2, updated: 0, unchanged: 0 });
+    });
+
+    it('imports images already in another project as copies, keeping their lineage', () => {
+        const incoming = contents({ gallery: [
+            image('root', { tags: ['hero'] }),
+            image('crop', { parentId: 'root', rootId: 'root' }),
+            image('edit', { parentId: 'crop', rootId: 'root' }),
+        ] });
+        const { changes, summary } = mergeProject(contents(), incoming, 'keep-both', new Set(['root', 'crop', 'elsewhere']));
+
+        const byPrompt = new Map(changes.gallery.map(item => [item.prompt, item]));
+        const root = byPrompt.get('root')!;
+        const crop = byPrompt.get('crop')!;
+        const edit = byPrompt.get('edit')!;
+        expect(root.id).not.toBe('root');
+        expect(crop.id).not.toBe('crop');
+        expect(edit.id).toBe('edit');
+        expect(crop).toMatchObject({ parentId: root.id, rootId: root.id, tags: ['hero'] });
+        expect(edit).toMatchObject({ parentId: crop.id, rootId: root.id, tags: ['hero'] });
+        expect(summary.gallery).toMatchObject({ added: 3, updated: 0, unchanged: 0, copied: 2 });
+    });
+
+    it("leaves the other project's images untouched", () => {
+        const incoming = contents({ gallery: [image('a', { tags: ['imported'] })] });
+        const { changes } = mergeProject(contents(), incoming, 'keep-both', new Set(['a']));
+        expect(incoming.gallery[0].id).toBe('a');
+        expect(changes.gallery.some(item => item.id === 'a')).toBe(false);
+    });
+});
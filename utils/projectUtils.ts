@@ -0,0 +1,202 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Character, GalleryItem, Product, Project, PromptTemplate, StylePreset } from '../App';
+import { getLineageKey } from './lineageUtils';
+
+/** The project that gallery images and jobs saved before projects existed belong to. */
+export const DEFAULT_PROJECT_ID = 'default';
+export const DEFAULT_PROJECT_NAME = 'My project';
+
+/**
+ * The project an image or job belongs to.
+ */
+export const getProjectId = (entry: { projectId?: string }) => entry.projectId ?? DEFAULT_PROJECT_ID;
+
+/**
+ * A new, empty project.
+ * @param name The project's name.
+ * @param id Defaults to a new UUID.
+ */
+export const createProject = (name: string, id: string = crypto.randomUUID()): Project => ({
+    id,
+    name,
+    referenceImages: [],
+    characterIds: [],
+    productIds: [],
+    createdAt: Date.now(),
+});
+
+/** Everything a project bundle carries besides settings. */
+export interface ProjectContents {
+    gallery: GalleryItem[];
+    characters: Character[];
+    products: Product[];
+    templates: PromptTemplate[];
+    stylePresets: StylePreset[];
+}
+
+export const PROJECT_CONTENT_LABELS: Record<keyof ProjectContents, string> = {
+    gallery: 'Images',
+    characters: 'Characters',
+    products: 'Products',
+    templates: 'Templates',
+    stylePresets: 'Style presets',
+};
+
+/** What to do with an imported library entry whose id exists locally with different content. */
+export type ConflictPolicy = 'keep-both' | 'replace' | 'skip';
+
+export const CONFLICT_POLICIES: Record<ConflictPolicy, string> = {
+    'keep-both': 'Keep both',
+    replace: 'Use the imported version',
+    skip: 'Keep mine',
+};
+
+export interface ImportCounts {
+    added: number;
+    updated: number;
+    /** Already present, or conflicting and kept as it was. */
+    unchanged: number;
+    /** Images that are also in another project, imported as copies under new ids. */
+    copied?: number;
+}
+
+export type ImportSummary = Record<keyof ProjectContents, ImportCounts>;
+
+export interface ProjectMerge {
+    /** The entries to save: new ones, and existing ones the import changes. */
+    changes: ProjectContents;
+    summary: ImportSummary;
+}
+
+/** Compares entries without their images, whose URLs differ between sessions even when the bytes don't. */
+const sameText = (a: object, b: object) => {
+    const withoutImages = (key: string, value: unknown) => key === 'images' || key === 'referenceImage' ? undefined : value;
+    return JSON.stringify(a, withoutImages) === JSON.stringify(b, withoutImages);
+};
+
+const mergeLibrary = <T extends { id: string; name: string }>(current: T[], incoming: T[], policy: ConflictPolicy) => {
+    const changes: T[] = [];
+    const counts: ImportCounts = { added: 0, updated: 0, unchanged: 0 };
+    for (const item of incoming) {
+        const existing = current.find(entry => entry.id === item.id);
+        if (!existing) {
+            changes.push(item);
+            counts.added++;
+        } else if (sameText(existing, item) || policy === 'skip') {
+            counts.unchanged++;
+        } else if (policy === 'replace') {
+            changes.push(item);
+            counts.updated++;
+        } else {
+            changes.push({ ...item, id: crypto.randomUUID(), name: `${item.name} (imported)` });
+            counts.added++;
+        }
+    }
+    return { changes, counts };
+};
+
+const sameOrganization = (a: GalleryItem, b: GalleryItem) =>
+    (a.tags ?? []).join('\n') === (b.tags ?? []).join('\n') && !!a.favorite === !!b.favorite && a.rating === b.rating;
+
+/**
+ * Gallery images are never in conflict: an id names one image, wherever it was made. New images and versions
+ * are added, and tags, favorites and ratings are merged across every lineage the import touches, since
+ * every version in a lineage shares them. Tags are combined, either side's favorite counts, and a local
+ * rating wins over an imported one.
+ */
+const mergeGallery = (current: GalleryItem[], incoming: GalleryItem[]) => {
+    const currentIds = new Set(current.map(item => item.id));
+    const added = incoming.filter(item => !currentIds.has(item.id));
+    const touched = new Set(incoming.map(getLineageKey));
+    const changes: GalleryItem[] = [];
+    for (const key of touched) {
+        const versions = [...current, ...added].filter(item => getLineageKey(item) === key);
+        const sources = [...versions, ...incoming.filter(item => getLineageKey(item) === key && currentIds.has(item.id))];
+        const tags = [...new Set(sources.flatMap(item => item.tags ?? []))];
+        const organization = {
+            tags: tags.length > 0 ? tags : undefined,
+            favorite: sources.some(item => item.favorite) || undefined,
+            rating: sources.find(item => item.rating)?.rating,
+        };
+        for (const version of versions) {
+            const merged = { ...version, ...organization };
+            if (!currentIds.has(version.id) || !sameOrganization(version, merged)) {
+                changes.push(merged);
+            }
+        }
+    }
+    const changedIds = new Set(changes.map(item => item.id));
+    return {
+        changes,
+        counts: {
+            added: added.length,
+            updated: changes.filter(item => currentIds.has(item.id)).length,
+            unchanged: incoming.filter(item => currentIds.has(item.id) && !changedIds.has(item.id)).length,
+        },
+    };
+};
+
+/**
+ * Gives imported images that already belong to another project new ids, so copies of them join this project
+ * and the other project's images stay as they are. Lineage links between the imported images follow the new ids.
+ */
+const copyImages = (incoming: GalleryItem[], otherProjectImageIds: ReadonlySet<string>) => {
+    const newIds = new Map(incoming.filter(item => otherProjectImageIds.has(item.id)).map(item => [item.id, crypto.randomUUID()]));
+    if (newIds.size === 0) return { gallery: incoming, copied: 0 };
+    const remap = (id: string | undefined) => id && (newIds.get(id) ?? id);
+    const gallery = incoming.map(item => ({
+        ...item,
+        id: remap(item.id)!,
+        parentId: remap(item.parentId),
+        rootId: remap(item.rootId),
+    }));
+    return { gallery, copied: newIds.size };
+};
+
+/**
+ * Works out how an imported project combines with the local one.
+ * Library entries with the same id and text are treated as the same; their images aren't compared.
+ * @param current The local project.
+ * @param incoming The imported project.
+ * @param policy How to resolve library entries that share an id but differ.
+ * @param otherProjectImageIds Ids of images in other local projects. Imported images with these ids are added as copies under new ids.
+ * @returns What to save, and counts for each kind of entry.
+ */
+export const mergeProject = (current: ProjectContents, incoming: ProjectContents, policy: ConflictPolicy, otherProjectImageIds: ReadonlySet<string> = new Set()): ProjectMerge => {
+    const imported = copyImages(incoming.gallery, otherProjectImageIds);
+    const gallery = mergeGallery(current.gallery, imported.gallery);
+    const characters = mergeLibrary(current.characters, incoming.characters, policy);
+    const products = mergeLibrary(current.products, incoming.products, policy);
+    const templates = mergeLibrary(current.templates, incoming.templates, policy);
+    const stylePresets = mergeLibrary(current.stylePresets, incoming.stylePresets, policy);
+    return {
+        changes: {
+            gallery: gallery.changes,
+            characters: characters.changes,
+            products: products.changes,
+            templates: templates.changes,
+            stylePresets: stylePresets.changes,
+        },
+        summary: {
+            gallery: { ...gallery.counts, copied: imported.copied },
+            characters: characters.counts,
+            products: products.counts,
+            templates: templates.counts,
+            stylePresets: stylePresets.counts,
+        },
+    };
+};
+
+/**
+ * Every image URL in a project, so those that end up unused can be released.
+ */
+export const getProjectImageUrls = (contents: ProjectContents) => [
+    ...contents.gallery.map(item => item.src),
+    ...contents.characters.flatMap(character => character.images),
+    ...contents.products.flatMap(product => product.images),
+    ...contents.stylePresets.flatMap(preset => preset.referenceImage ? [preset.referenceImage] : []),
+];
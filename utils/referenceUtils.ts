@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ReferenceImage, ReferenceRole } from '../services/imageProvider';
+
+/** A named set of reference shots, such as a character or a product, to attach to a request. */
+export interface ReferenceGroup {
+    label: string;
+    description: string;
+    images: string[];
+    role: ReferenceRole;
+}
+
+/**
+ * Appends groups of reference shots to a request. Their images follow the request's own, and the prompt gains
+ * a section under the heading listing each group, the image numbers that show it and its description.
+ * @param prompt The user's prompt.
+ * @param referenceImages The request's own reference images, which keep their numbers.
+ * @param heading The instruction introducing the groups.
+ * @param groups The groups to attach.
+ */
+export const appendReferenceGroups = (prompt: string, referenceImages: ReferenceImage[], heading: string, groups: ReferenceGroup[]) => {
+    if (groups.length === 0) {
+        return { prompt, referenceImages };
+    }
+    let imageCount = referenceImages.length;
+    const lines = groups.map(group => {
+        const first = imageCount + 1;
+        imageCount += group.images.length;
+        const shown = group.images.length === 0 ? ''
+            : group.images.length === 1 ? ` (image ${first})`
+            : ` (images ${first}–${imageCount})`;
+        const description = group.description.trim();
+        return `- ${group.label}${shown}${description ? `: ${description}` : ''}`;
+    });
+    return {
+        prompt: `${prompt}\n\n${heading}\n${lines.join('\n')}`,
+        referenceImages: [
+            ...referenceImages,
+            ...groups.flatMap(group => group.images.map((src): ReferenceImage => ({ src, role: group.role }))),
+        ],
+    };
+};
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { StyleCategory, StylePreset } from '../App';
+import type { ReferenceImage } from '../services/imageProvider';
+import { ensureDataUrl } from './imageUtils';
+import { appendReferenceGroups } from './referenceUtils';
+
+export const STYLE_CATEGORIES: Record<StyleCategory, string> = {
+    style: 'Style',
+    adjustment: 'Adjustment',
+    filter: 'Filter',
+};
+
+/** Identifies an exported preset file, so unrelated JSON is rejected on import. */
+const EXPORT_FORMAT = 'style-presets';
+const EXPORT_VERSION = 1;
+
+/** A preset as it is shared between users: everything but its local id. */
+export type PortableStylePreset = Omit<StylePreset, 'id' | 'createdAt'>;
+
+/** The presets the library starts with. Users can edit or delete them like their own. */
+export const DEFAULT_STYLE_PRESETS: StylePreset[] = [
+    { id: 'default-blur-background', name: 'Blur Background', category: 'adjustment', placement: 'suffix', createdAt: 0, prompt: 'Apply a realistic depth-of-field effect, making the background blurry while keeping the main subject in sharp focus.' },
+    { id: 'default-enhance-details', name: 'Enhance Details', category: 'adjustment', placement: 'suffix', createdAt: 0, prompt: 'Slightly enhance the sharpness and details of the image without making it look unnatural.' },
+    { id: 'default-warmer-lighting', name: 'Warmer Lighting', category: 'adjustment', placement: 'suffix', createdAt: 0, prompt: 'Adjust the color temperature to give the image warmer, golden-hour style lighting.' },
+    { id: 'default-studio-light', name: 'Studio Light', category: 'adjustment', placement: 'suffix', createdAt: 0, prompt: 'Add dramatic, professional studio lighting to the main subject.' },
+    { id: 'default-synthwave', name: 'Synthwave', category: 'filter', placement: 'suffix', createdAt: 0, prompt: 'Apply a vibrant 80s synthwave aesthetic with neon magenta and cyan glows, and subtle scan lines.' },
+    { id: 'default-anime', name: 'Anime', category: 'filter', placement: 'suffix', createdAt: 0, prompt: 'Give the image a vibrant Japanese anime style, with bold outlines, cel-shading, and saturated colors.' },
+    { id: 'default-lomo', name: 'Lomo', category: 'filter', placement: 'suffix', createdAt: 0, prompt: 'Apply a Lomography-style cross-processing film effect with high-contrast, oversaturated colors, and dark vignetting.' },
+    { id: 'default-glitch', name: 'Glitch', category: 'filter', placement: 'suffix', createdAt: 0, prompt: 'Transform the image into a futuristic holographic projection with digital glitch effects and chromatic aberration.' },
+];
+
+/**
+ * Adds a style preset to a generation request: its prompt fragment goes before or after the prompt,
+ * and its reference image, if any, is appended as a style reference.
+ * @param prompt The user's prompt.
+ * @param referenceImages The request's own reference images, which keep their numbers.
+ * @param preset The preset to apply.
+ */
+export const applyStylePreset = (prompt: string, referenceImages: ReferenceImage[], preset: StylePreset) => {
+    const fragment = preset.prompt.trim();
+    const styled = !fragment ? prompt
+        : preset.placement === 'prefix' ? `${fragment} ${prompt}`
+        : `${prompt} ${fragment}`;
+    return appendReferenceGroups(
+        styled,
+        referenceImages,
+        'Match the look of this style reference without copying its content:',
+        preset.referenceImage ? [{ label: preset.name, description: '', images: [preset.referenceImage], role: 'style' }] : []
+    );
+};
+
+/**
+ * Serializes presets for sharing, with reference images inlined as data URLs.
+ * @returns JSON text that importStylePresets reads back.
+ */
+export const exportStylePresets = async (presets: StylePreset[]) => {
+    const portable = await Promise.all(presets.map(async ({ id, createdAt, referenceImage, ...preset }): Promise<PortableStylePreset> => ({
+        ...preset,
+        referenceImage: referenceImage ? await ensureDataUrl(referenceImage) : undefined,
+    })));
+    return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, presets: portable }, null, 2);
+};
+
+/**
+ * Whether a value read from a file has a preset's name, prompt, category and placement, all valid.
+ * Its id and reference image are left to the caller, as each file format stores them differently.
+ */
+export const hasStylePresetFields = (value: unknown): value is Record<string, unknown> & Omit<PortableStylePreset, 'referenceImage'> => {
+    if (!value || typeof value !== 'object') return false;
+    const preset = value as Record<string, unknown>;
+    return typeof preset.name === 'string' && preset.name.trim() !== ''
+        && typeof preset.prompt === 'string'
+        && typeof preset.category === 'string' && preset.category in STYLE_CATEGORIES
+        && (preset.placement === 'prefix' || preset.placement === 'suffix');
+};
+
+const isPortablePreset = (value: unknown): value is PortableStylePreset =>
+    hasStylePresetFields(value)
+    && (value.referenceImage === undefined || (typeof value.referenceImage === 'string' && value.referenceImage.startsWith('data:image/')));
+
+/**
+ * Reads presets exported by exportStylePresets.
+ * @param json The file's text.
+ * @returns The presets, without ids.
+ * @throws If the text is not a preset export or any preset in it is malformed.
+ */
+export const importStylePresets = (json: string): PortableStylePreset[] => {
+    const data = JSON.parse(json);
+    if (data?.format !== EXPORT_FORMAT || !Array.isArray(data.presets)) {
+        throw new Error('This file is not a style preset export.');
+    }
+    if (data.version > EXPORT_VERSION) {
+        throw new Error('This file was exported by a newer version of the app.');
+    }
+    const invalid = data.presets.findIndex((preset: unknown) => !isPortablePreset(preset));
+    if (invalid !== -1) {
+        throw new Error(`Preset ${invalid + 1} in the file is malformed.`);
+    }
+    return (data.presets as PortableStylePreset[]).map(({ name, prompt, category, placement, referenceImage }) => ({
+        name: name.trim(),
+        prompt,
+        category,
+        placement,
+        referenceImage,
+    }));
+};
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { MAX_BATCH_JOBS, fillTemplate, getTemplateVariables, isPromptTemplate, parseCsv, resolveBatchInput } from './templateUtils';
+
+describe('getTemplateVariables', () => {
+    it('lists each variable once, in order of first appearance', () => {
+        expect(getTemplateVariables('{product} on a {surface} at {time of day}, {product} again')).toEqual(['product', 'surface', 'time of day']);
+    });
+
+    it('ignores empty placeholders', () => {
+        expect(getTemplateVariables('a { } b {}')).toEqual([]);
+    });
+});
+
+describe('fillTemplate', () => {
+    it('fills placeholders, trimming their names', () => {
+        expect(fillTemplate('{ product } on {surface}', { product: 'a mug', surface: 'oak' })).toBe('a mug on oak');
+    });
+
+    it('leaves placeholders without a value as they are', () => {
+        expect(fillTemplate('{product} on {surface}', { product: 'a mug' })).toBe('a mug on {surface}');
+    });
+});
+
+describe('parseCsv', () => {
+    it('handles quoted commas, newlines and doubled quotes', () => {
+        expect(parseCsv('name,notes\r\n"mug, blue","says ""hi""\ntwice"\n')).toEqual([
+            ['name', 'notes'],
+            ['mug, blue', 'says "hi"\ntwice'],
+        ]);
+    });
+
+    it('drops blank rows', () => {
+        expect(parseCsv('a\n\n , \nb')).toEqual([['a'], ['b']]);
+    });
+});
+
+describe('resolveBatchInput', () => {
+    it('combines every value of every list', () => {
+        const { valueSets, error } = resolveBatchInput(['product', 'surface'], {
+            mode: 'lists',
+            lists: { product: 'mug\n teapot \n', surface: 'oak\nslate' },
+            csv: '',
+        });
+        expect(error).toBeUndefined();
+        expect(valueSets).toEqual([
+            { product: 'mug', surface: 'oak' },
+            { product: 'mug', surface: 'slate' },
+            { product: 'teapot', surface: 'oak' },
+            { product: 'teapot', surface: 'slate' },
+        ]);
+    });
+
+    it('asks for values for empty lists', () => {
+        const { error } = resolveBatchInput(['product', 'surface'], { mode: 'lists', lists: { product: 'mug' }, csv: '' });
+        expect(error).toBe('Add at least one value for {surface}.');
+    });
+
+    it('refuses more combinations than a batch may queue', () => {
+        const values = Array.from({ length: 8 }, (_, index) => `value ${index}`).join('\n');
+        const { valueSets, error } = resolveBatchInput(['a', 'b'], { mode: 'lists', lists: { a: values, b: values }, csv: '' });
+        expect(valueSets).toEqual([]);
+        expect(error).toBe(`These lists make 64 combinations; the limit is ${MAX_BATCH_JOBS}.`);
+    });
+
+    it('reads one job per CSV row, matching columns case-insensitively', () => {
+        const { valueSets } = resolveBatchInput(['Product'], { mode: 'csv', lists: {}, csv: 'product,extra\nmug,x\nteapot,y' });
+        expect(valueSets).toEqual([{ Product: 'mug' }, { Product: 'teapot' }]);
+    });
+
+    it('names variables the CSV has no column for', () => {
+        const { error } = resolveBatchInput(['product', 'surface'], { mode: 'csv', lists: {}, csv: 'product\nmug' });
+        expect(error).toBe('The CSV header has no column for {surface}.');
+    });
+
+    it('asks for a row when the CSV has only a header', () => {
+        const { error } = resolveBatchInput(['product'], { mode: 'csv', lists: {}, csv: 'product' });
+        expect(error).toBe('Add at least one row of values.');
+    });
+});
+
+describe('isPromptTemplate', () => {
+    it('accepts a complete template', () => {
+        expect(isPromptTemplate({ id: 't1', name: 'Product shot', text: '{product} on oak', createdAt: 0 })).toBe(true);
+    });
+
+    it('rejects templates missing fields the library relies on', () => {
+        expect(isPromptTemplate({ id: 't1', name: 'Product shot', createdAt: 0 })).toBe(false);
+        expect(isPromptTemplate({ id: 't1', name: ' ', text: '', createdAt: 0 })).toBe(false);
+        expect(isPromptTemplate({ name: 'Product shot', text: '', createdAt: 0 })).toBe(false);
+        expect(isPromptTemplate(null)).toBe(false);
+    });
+});
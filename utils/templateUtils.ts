@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { PromptTemplate } from '../App';
+
+/** A {placeholder}: any text without braces, so names may contain spaces, e.g. {time of day}. */
+const PLACEHOLDER_PATTERN = /\{([^{}]+)\}/g;
+
+/** The most jobs one batch may queue, so a typo in a list can't flood the queue. */
+export const MAX_BATCH_JOBS = 50;
+
+/** The values to fill a template's variables with, as entered in the batch editor. */
+export interface BatchInput {
+    /** 'lists' combines one list of values per variable; 'csv' uses one row per job. */
+    mode: 'lists' | 'csv';
+    /** Values per variable, one per line. */
+    lists: Record<string, string>;
+    /** CSV text whose header row names the variables. */
+    csv: string;
+}
+
+/**
+ * Whether a value read from a file is a saved template with every field the library relies on.
+ */
+export const isPromptTemplate = (value: unknown): value is PromptTemplate => {
+    if (!value || typeof value !== 'object') return false;
+    const template = value as Record<string, unknown>;
+    return typeof template.id === 'string'
+        && typeof template.name === 'string' && template.name.trim() !== ''
+        && typeof template.text === 'string'
+        && typeof template.createdAt === 'number';
+};
+
+/**
+ * Lists the variables in a template, in order of first appearance.
+ * @param template Prompt text containing {placeholders}.
+ */
+export const getTemplateVariables = (template: string): string[] => {
+    const names = Array.from(template.matchAll(PLACEHOLDER_PATTERN), match => match[1].trim()).filter(Boolean);
+    return Array.from(new Set(names));
+};
+
+/**
+ * Replaces each placeholder with its value. Placeholders without a value are left as they are.
+ */
+export const fillTemplate = (template: string, values: Record<string, string>) =>
+    template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => values[name.trim()] ?? placeholder);
+
+/**
+ * Parses CSV text into rows of fields. Supports quoted fields containing commas, newlines and doubled quotes.
+ */
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(fields => fields.some(value => value.trim()));
+};
+
+/**
+ * Every combination of one value per variable, in the order the lists were given.
+ */
+const combineLists = (variables: string[], lists: string[][]): Record<string, string>[] =>
+    lists.reduce<Record<string, string>[]>(
+        (combinations, values, index) => combinations.flatMap(combination =>
+            values.map(value => ({ ...combination, [variables[index]]: value }))
+        ),
+        [{}]
+    );
+
+/**
+ * Turns batch input into one set of variable values per job.
+ * @param variables The template's variables.
+ * @param input The lists or CSV entered for them.
+ * @returns The value sets, or an error explaining why none can be made.
+ */
+export const resolveBatchInput = (variables: string[], input: BatchInput): { valueSets: Record<string, string>[]; error?: string } => {
+    let valueSets: Record<string, string>[];
+    if (input.mode === 'lists') {
+        const lists = variables.map(variable => (input.lists[variable] ?? '').split('\n').map(value => value.trim()).filter(Boolean));
+        const empty = variables.filter((_, index) => lists[index].length === 0);
+        if (empty.length > 0) {
+            return { valueSets: [], error: `Add at least one value for ${empty.map(name => `{${name}}`).join(', ')}.` };
+        }
+        const count = lists.reduce((total, values) => total * values.length, 1);
+        if (count > MAX_BATCH_JOBS) {
+            return { valueSets: [], error: `These lists make ${count} combinations; the limit is ${MAX_BATCH_JOBS}.` };
+        }
+        valueSets = combineLists(variables, lists);
+    } else {
+        const [header = [], ...rows] = parseCsv(input.csv);
+        const columns = header.map(name => name.trim().toLowerCase());
+        const indexes = variables.map(variable => columns.indexOf(variable.toLowerCase()));
+        const missing = variables.filter((_, index) => indexes[index] === -1);
+        if (missing.length > 0) {
+            return { valueSets: [], error: `The CSV header has no column for ${missing.map(name => `{${name}}`).join(', ')}.` };
+        }
+        if (rows.length > MAX_BATCH_JOBS) {
+            return { valueSets: [], error: `The CSV has ${rows.length} rows; the limit is ${MAX_BATCH_JOBS}.` };
+        }
+        valueSets = rows.map(row => Object.fromEntries(variables.map((variable, index) => [variable, (row[indexes[index]] ?? '').trim()])));
+    }
+    return valueSets.length > 0 ? { valueSets } : { valueSets, error: 'Add at least one row of values.' };
+};
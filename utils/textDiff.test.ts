@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { diffWords, getWordOverlap } from './textDiff';
+
+describe('diffWords', () => {
+    it('returns one unchanged run for identical text', () => {
+        expect(diffWords('a red teapot', 'a red teapot')).toEqual([{ type: 'same', text: 'a red teapot' }]);
+    });
+
+    it('marks replaced words as removed, then added', () => {
+        expect(diffWords('a red teapot on oak', 'a blue teapot on oak')).toEqual([
+            { type: 'same', text: 'a ' },
+            { type: 'removed', text: 'red ' },
+            { type: 'added', text: 'blue ' },
+            { type: 'same', text: 'teapot on oak' },
+        ]);
+    });
+
+    it('keeps trailing additions and removals', () => {
+        expect(diffWords('a teapot', 'a teapot in soft light')).toEqual([
+            { type: 'same', text: 'a teapot ' },
+            { type: 'added', text: 'in soft light' },
+        ]);
+        expect(diffWords('a teapot in soft light', 'a teapot')).toEqual([
+            { type: 'same', text: 'a teapot' },
+            { type: 'removed', text: 'in soft light' },
+        ]);
+    });
+
+    it('ignores differences in whitespace between words', () => {
+        const segments = diffWords('a  red\nteapot', 'a red teapot');
+        expect(segments).toEqual([{ type: 'same', text: 'a red teapot' }]);
+    });
+
+    it('joins the added and unchanged runs back into the new text', () => {
+        const after = 'A glossy red teapot, shot from above on weathered oak';
+        const segments = diffWords('A red teapot on an oak table', after);
+        expect(segments.filter(segment => segment.type !== 'removed').map(segment => segment.text).join('')).toBe(after);
+    });
+
+    it('handles empty text on either side', () => {
+        expect(diffWords('', '')).toEqual([]);
+        expect(diffWords('', 'new words')).toEqual([{ type: 'added', text: 'new words' }]);
+        expect(diffWords('old words', '')).toEqual([{ type: 'removed', text: 'old words' }]);
+    });
+});
+
+describe('getWordOverlap', () => {
+    it("is the share of the original's words kept in order", () => {
+        expect(getWordOverlap('a red teapot on oak', 'a blue teapot on oak')).toBe(0.8);
+        expect(getWordOverlap('a red teapot', 'teapot red a')).toBeCloseTo(1 / 3);
+    });
+
+    it('is 1 for an empty original and 0 when everything is rewritten', () => {
+        expect(getWordOverlap('', 'anything')).toBe(1);
+        expect(getWordOverlap('a red teapot', 'green kettle')).toBe(0);
+    });
+});
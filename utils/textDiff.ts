@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface DiffSegment {
+    type: 'same' | 'added' | 'removed';
+    /** The words, with the whitespace that follows each. */
+    text: string;
+}
+
+/** Splits text into words, each keeping its trailing whitespace so the pieces join back into the original. */
+const tokenize = (text: string) => text.match(/\S+\s*/g) ?? [];
+
+/**
+ * Compares two texts word by word, using the longest common subsequence of words.
+ * Words count as the same regardless of the whitespace after them.
+ * @param before The original text.
+ * @param after The changed text.
+ * @returns Runs of unchanged, added and removed words, in reading order. Removals come before the additions that replace them.
+ */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+    const a = tokenize(before);
+    const b = tokenize(after);
+    const same = (i: number, j: number) => a[i].trim() === b[j].trim();
+    // common[i][j] is the length of the longest common subsequence of a[i..] and b[j..]
+    const common = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            common[i][j] = same(i, j) ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+        }
+    }
+
+    const segments: DiffSegment[] = [];
+    const push = (type: DiffSegment['type'], text: string) => {
+        const last = segments[segments.length - 1];
+        if (last?.type === type) {
+            last.text += text;
+        } else {
+            segments.push({ type, text });
+        }
+    };
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (same(i, j)) {
+            push('same', b[j++]);
+            i++;
+        } else if (common[i + 1][j] >= common[i][j + 1]) {
+            push('removed', a[i++]);
+        } else {
+            push('added', b[j++]);
+        }
+    }
+    while (i < a.length) push('removed', a[i++]);
+    while (j < b.length) push('added', b[j++]);
+    return segments;
+};
+
+/**
+ * Measures how much of a text survives an edit.
+ * @param before The original text.
+ * @param after The edited text.
+ * @returns The share of the original's words still present, in order, from 0 to 1. An empty original counts as fully kept.
+ */
+export const getWordOverlap = (before: string, after: string) => {
+    const total = tokenize(before).length;
+    if (total === 0) return 1;
+    const kept = diffWords(before, after)
+        .filter(segment => segment.type === 'same')
+        .reduce((count, segment) => count + tokenize(segment.text).length, 0);
+    return kept / total;
+};
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip, readZip } from './zipUtils';
+
+const encoder = new TextEncoder();
+
+describe('crc32', () => {
+    it('matches the standard check value', () => {
+        expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+    });
+
+    it('is zero for no data', () => {
+        expect(crc32(new Uint8Array())).toBe(0);
+    });
+
+    it('continues from an earlier checksum', () => {
+        expect(crc32(encoder.encode('6789'), crc32(encoder.encode('12345')))).toBe(0xcbf43926);
+    });
+});
+
+describe('createZip', () => {
+    it('writes stored entries, a central directory and an end record', async () => {
+        const data = encoder.encode('hello');
+        const bytes = new Uint8Array(await createZip([{ name: 'dir/é.txt', data, modifiedAt: new Date(2026, 0, 2, 3, 4, 6) }]).arrayBuffer());
+        const view = new DataView(bytes.buffer);
+        const name = encoder.encode('dir/é.txt');
+
+        expect(view.getUint32(0, true)).toBe(0x04034b50);
+        expect(view.getUint16(6, true)).toBe(0x0800);
+        expect(view.getUint16(8, true)).toBe(0);
+        expect(view.getUint16(10, true)).toBe((3 << 11) | (4 << 5) | 3);
+        expect(view.getUint16(12, true)).toBe((46 << 9) | (1 << 5) | 2);
+        expect(view.getUint32(14, true)).toBe(crc32(data));
+        expect(view.getUint32(18, true)).toBe(data.length);
+        expect(bytes.subarray(30, 30 + name.length)).toEqual(name);
+        expect(bytes.subarray(30 + name.length, 30 + name.length + data.length)).toEqual(data);
+
+        const end = bytes.length - 22;
+        expect(view.getUint32(end, true)).toBe(0x06054b50);
+        expect(view.getUint16(end + 10, true)).toBe(1);
+        const directoryOffset = view.getUint32(end + 16, true);
+        expect(directoryOffset).toBe(30 + name.length + data.length);
+        expect(view.getUint32(directoryOffset, true)).toBe(0x02014b50);
+        expect(view.getUint32(directoryOffset + 42, true)).toBe(0);
+    });
+
+    it('refuses more files than a ZIP file can list', () => {
+        const entries = Array.from({ length: 0x10000 }, (_, index) => ({ name: `${index}`, data: new Uint8Array() }));
+        expect(() => createZip(entries)).toThrow('too many files');
+    });
+});
+
+describe('readZip', () => {
+    it('reads back what createZip wrote', async () => {
+        const entries = [
+            { name: 'project.json', data: encoder.encode('{"name":"Teapots"}') },
+            { name: 'gallery/ä.png', data: new Uint8Array([0x89, 0x50, 0x4e, 0x47]) },
+            { name: 'empty.txt', data: new Uint8Array() },
+        ];
+        const files = await readZip(createZip(entries));
+        expect([...files.keys()]).toEqual(entries.map(entry => entry.name));
+        for (const entry of entries) {
+            expect(files.get(entry.name)).toEqual(entry.data);
+        }
+    });
+
+    it('rejects files that are not ZIP archives', async () => {
+        await expect(readZip(new Blob(['not a zip file at all, just some text']))).rejects.toThrow('not a ZIP archive');
+    });
+
+    it('rejects an archive whose central directory is damaged', async () => {
+        const bytes = new Uint8Array(await createZip([{ name: 'a.txt', data: encoder.encode('a') }]).arrayBuffer());
+        const view = new DataView(bytes.buffer);
+        const directoryOffset = view.getUint32(bytes.length - 22 + 16, true);
+        view.setUint32(directoryOffset, 0, true);
+        await expect(readZip(new Blob([bytes]))).rejects.toThrow('damaged');
+    });
+});
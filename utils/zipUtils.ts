@@ -0,0 +1,177 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface ZipEntry {
+    /** The path inside the archive, using forward slashes. */
+    name: string;
+    data: Uint8Array;
+    /** Shown as the file's modification time when extracted. Defaults to now. */
+    modifiedAt?: Date;
+}
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/**
+ * The CRC-32 checksum used by ZIP and PNG.
+ */
+export const crc32 = (data: Uint8Array, crc = 0): number => {
+    let c = ~crc >>> 0;
+    for (let i = 0; i < data.length; i++) {
+        c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+    }
+    return ~c >>> 0;
+};
+
+/** MS-DOS date and time, as stored in ZIP headers. Two-second resolution; years from 1980. */
+const toDosDateTime = (date: Date) => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/** Marks file names as UTF-8, so non-ASCII prompts survive in file names. */
+const UTF8_FLAG = 0x0800;
+const VERSION = 20;
+const MAX_SIZE = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+
+/**
+ * Packs files into a ZIP archive. Entries are stored without compression, since images are already compressed.
+ * @param entries The files, in the order they should appear.
+ * @returns The archive.
+ * @throws If the archive would exceed 4 GB or 65,535 files, which need the ZIP64 extensions this doesn't write.
+ */
+export const createZip = (entries: ZipEntry[]): Blob => {
+    if (entries.length > MAX_ENTRIES) {
+        throw new Error('The export has too many files for a ZIP file. Select fewer images.');
+    }
+    const encoder = new TextEncoder();
+    const parts: Uint8Array[] = [];
+    const centralDirectory: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const crc = crc32(entry.data);
+        const { time, date } = toDosDateTime(entry.modifiedAt ?? new Date());
+        if (offset + 30 + name.length + entry.data.length > MAX_SIZE) {
+            throw new Error('The export is too large for a ZIP file. Select fewer images.');
+        }
+
+        const local = new Uint8Array(30 + name.length);
+        const localView = new DataView(local.buffer);
+        localView.setUint32(0, 0x04034b50, true);
+        localView.setUint16(4, VERSION, true);
+        localView.setUint16(6, UTF8_FLAG, true);
+        localView.setUint16(8, 0, true);
+        localView.setUint16(10, time, true);
+        localView.setUint16(12, date, true);
+        localView.setUint32(14, crc, true);
+        localView.setUint32(18, entry.data.length, true);
+        localView.setUint32(22, entry.data.length, true);
+        localView.setUint16(26, name.length, true);
+        localView.setUint16(28, 0, true);
+        local.set(name, 30);
+
+        const central = new Uint8Array(46 + name.length);
+        const centralView = new DataView(central.buffer);
+        centralView.setUint32(0, 0x02014b50, true);
+        centralView.setUint16(4, VERSION, true);
+        centralView.setUint16(6, VERSION, true);
+        centralView.setUint16(8, UTF8_FLAG, true);
+        centralView.setUint16(10, 0, true);
+        centralView.setUint16(12, time, true);
+        centralView.setUint16(14, date, true);
+        centralView.setUint32(16, crc, true);
+        centralView.setUint32(20, entry.data.length, true);
+        centralView.setUint32(24, entry.data.length, true);
+        centralView.setUint16(28, name.length, true);
+        // Extra field, comment, disk number and attributes are all zero
+        centralView.setUint32(42, offset, true);
+        central.set(name, 46);
+
+        parts.push(local, entry.data);
+        centralDirectory.push(central);
+        offset += local.length + entry.data.length;
+    }
+
+    const directorySize = centralDirectory.reduce((total, header) => total + header.length, 0);
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, 0x06054b50, true);
+    endView.setUint16(8, entries.length, true);
+    endView.setUint16(10, entries.length, true);
+    endView.setUint32(12, directorySize, true);
+    endView.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...centralDirectory, end] as BlobPart[], { type: 'application/zip' });
+};
+
+const inflateRaw = async (data: Uint8Array) => {
+    const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Reads the files in a ZIP archive. Stored and deflated entries are supported, which covers archives
+ * written by createZip and by common tools.
+ * @param blob The archive.
+ * @returns Each file's contents by path. Directory entries are skipped.
+ * @throws If the file is not a ZIP archive or uses features this doesn't read.
+ */
+export const readZip = async (blob: Blob): Promise<Map<string, Uint8Array>> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    // The end record is last, followed only by an optional comment of up to 64 KB
+    let end = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === 0x06054b50) {
+            end = i;
+            break;
+        }
+    }
+    if (end < 0) {
+        throw new Error('The file is not a ZIP archive.');
+    }
+
+    const decoder = new TextDecoder();
+    const files = new Map<string, Uint8Array>();
+    const count = view.getUint16(end + 10, true);
+    let position = view.getUint32(end + 16, true);
+    for (let n = 0; n < count; n++) {
+        if (position + 46 > bytes.length || view.getUint32(position, true) !== 0x02014b50) {
+            throw new Error('The ZIP archive is damaged.');
+        }
+        const method = view.getUint16(position + 10, true);
+        const compressedSize = view.getUint32(position + 20, true);
+        const nameLength = view.getUint16(position + 28, true);
+        const extraLength = view.getUint16(position + 30, true);
+        const commentLength = view.getUint16(position + 32, true);
+        const localOffset = view.getUint32(position + 42, true);
+        const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+        position += 46 + nameLength + extraLength + commentLength;
+        if (name.endsWith('/')) continue;
+
+        const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const data = bytes.subarray(dataStart, dataStart + compressedSize);
+        if (method === 0) {
+            files.set(name, data);
+        } else if (method === 8) {
+            files.set(name, await inflateRaw(data));
+        } else {
+            throw new Error(`${name} uses a ZIP compression method that isn't supported.`);
+        }
+    }
+    return files;
+};